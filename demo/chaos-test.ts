@@ -162,6 +162,7 @@ async function main() {
 
   const jobGuard = await JobGuard.create(queue, {
     postgres: POSTGRES_URL,
+    autoMigrate: true, // Apply schema migrations on startup
     reconciliation: {
       enabled: true,
       intervalMs: 10000, // Check every 10 seconds
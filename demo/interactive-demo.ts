@@ -122,6 +122,7 @@ async function main() {
   try {
     const jobGuard = await JobGuard.create(queue, {
       postgres: POSTGRES_URL,
+      autoMigrate: true, // Apply schema migrations on startup
       reconciliation: {
         enabled: true,
         intervalMs: 5000, // Check every 5 seconds for demo
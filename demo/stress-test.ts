@@ -200,6 +200,7 @@ async function main() {
           connectionString: POSTGRES_URL,
           max: 30, // Increased pool size for stress test (10,000 jobs)
         },
+        autoMigrate: true, // Apply schema migrations on startup
         reconciliation: {
           enabled: true,
           intervalMs: 10000, // Check every 10 seconds
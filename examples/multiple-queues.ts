@@ -2,6 +2,8 @@
  * Multiple Queues Example
  *
  * This example shows how to use JobGuard with multiple independent queues.
+ * Each JobGuard has its own PostgreSQL pool and reconciliation loop; to share them
+ * between queues, see shared-pool.ts.
  */
 
 import Bull from 'bull';
@@ -0,0 +1,95 @@
+/**
+ * Shared Pool Example
+ *
+ * This example shows how to track several queues of different types with one
+ * JobGuardManager: one PostgreSQL pool, one circuit breaker and one reconciliation loop.
+ */
+
+import Bull from 'bull';
+import { Queue, Worker } from 'bullmq';
+import BeeQueue from 'bee-queue';
+import { JobGuardManager } from '../src';
+
+const REDIS_URL = 'redis://localhost:6379';
+const POSTGRES_URL = 'postgresql://localhost:5432/jobguard_dev';
+
+async function main() {
+  // Queues of any supported type can be mixed
+  const emailQueue = new Bull('emails', REDIS_URL);
+  const paymentQueue = new Queue('payments', { connection: { host: 'localhost' } });
+  const notificationQueue = new BeeQueue('notifications', { redis: { url: REDIS_URL } });
+
+  // One manager for all queues
+  const manager = await JobGuardManager.create(
+    [emailQueue, paymentQueue, notificationQueue],
+    {
+      postgres: { connectionString: POSTGRES_URL, max: 10 },
+      reconciliation: { stuckThresholdMs: 120000 },
+      logging: { level: 'info' },
+    }
+  );
+
+  // Events of every queue are emitted by the manager
+  manager.on('job:dead', (job) => {
+    console.error(`Job ${job.job_id} of ${job.queue_name} is dead`);
+  });
+
+  // Set up processors
+  emailQueue.process(async (job) => {
+    console.log(`Sending email to ${job.data.to}`);
+    return { sent: true };
+  });
+
+  const paymentWorker = new Worker(
+    'payments',
+    async (job) => {
+      console.log(`Processing payment of $${job.data.amount}`);
+      return { processed: true };
+    },
+    { connection: { host: 'localhost' } }
+  );
+
+  notificationQueue.process(async (job) => {
+    console.log(`Sending notification: ${job.data.message}`);
+    return { notified: true };
+  });
+
+  await emailQueue.add({ to: 'user@example.com', subject: 'Welcome!' });
+  await paymentQueue.add('charge', { amount: 99.99, currency: 'USD' });
+  await notificationQueue.createJob({ message: 'Your order is ready' }).save();
+
+  // Totals across queues, plus a breakdown per queue
+  setInterval(async () => {
+    const { totals, queues } = await manager.getStats();
+
+    console.log(`\nAll queues: ${totals.total} total, ${totals.completed} completed`);
+    for (const stats of queues) {
+      console.log(`  ${stats.queueName}: ${stats.total} total, ${stats.dead} dead`);
+    }
+  }, 5000);
+
+  // Per-queue operations go through the queue's JobGuard
+  const history = await manager.get('payments').listJobs({ limit: 10 });
+  console.log(`Latest payments: ${history.jobs.length}`);
+
+  // Graceful shutdown
+  const shutdown = async () => {
+    console.log('\nShutting down...');
+    await manager.shutdown();
+    await paymentWorker.close();
+    await Promise.all([
+      emailQueue.close(),
+      paymentQueue.close(),
+      notificationQueue.close(),
+    ]);
+    process.exit(0);
+  };
+
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
+}
+
+main().catch((error) => {
+  console.error('Error:', error);
+  process.exit(1);
+});
@@ -1,8 +1,12 @@
+-- Statements are idempotent so that databases set up by hand from this file
+-- can adopt the migration runner (JobGuard.migrate) without errors
+-- Placeholders in double braces are filled in by the migration runner (JobGuard.getMigrations)
+
 -- Enable UUID extension if not exists
 CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
 
 -- Main table with optimized data types
-CREATE TABLE IF NOT EXISTS jobguard_jobs (
+CREATE TABLE IF NOT EXISTS {{jobs}} (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     queue_name VARCHAR(100) NOT NULL,
     queue_type VARCHAR(20) NOT NULL CHECK (queue_type IN ('bull', 'bullmq', 'bee')),
@@ -22,26 +26,26 @@ CREATE TABLE IF NOT EXISTS jobguard_jobs (
 
 -- Unique constraint for active jobs only (saves space)
 -- IMPORTANT: Must match the WHERE clause in INSERT_JOB query
-CREATE UNIQUE INDEX idx_unique_active_job
-    ON jobguard_jobs (queue_name, queue_type, job_id)
+CREATE UNIQUE INDEX IF NOT EXISTS {{idx_unique_active_job}}
+    ON {{jobs}} (queue_name, queue_type, job_id)
     WHERE status NOT IN ('completed', 'failed', 'dead');
 
 -- Index for reconciliation queries (supports both heartbeat and updated_at detection)
-CREATE INDEX idx_reconciliation_heartbeat
-    ON jobguard_jobs (queue_name, status, last_heartbeat, updated_at)
+CREATE INDEX IF NOT EXISTS {{idx_reconciliation_heartbeat}}
+    ON {{jobs}} (queue_name, status, last_heartbeat, updated_at)
     WHERE status IN ('processing', 'stuck');
 
 -- Index for cleanup queries
-CREATE INDEX idx_cleanup
-    ON jobguard_jobs (completed_at)
+CREATE INDEX IF NOT EXISTS {{idx_cleanup}}
+    ON {{jobs}} (completed_at)
     WHERE status IN ('completed', 'failed', 'dead');
 
 -- Index for job lookups (including historical records)
-CREATE INDEX idx_job_lookup
-    ON jobguard_jobs (queue_name, queue_type, job_id);
+CREATE INDEX IF NOT EXISTS {{idx_job_lookup}}
+    ON {{jobs}} (queue_name, queue_type, job_id);
 
 -- Updated at trigger
-CREATE OR REPLACE FUNCTION update_updated_at_column()
+CREATE OR REPLACE FUNCTION {{set_updated_at}}()
 RETURNS TRIGGER AS $$
 BEGIN
     NEW.updated_at = NOW();
@@ -49,7 +53,8 @@ BEGIN
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE TRIGGER update_jobguard_jobs_updated_at
-    BEFORE UPDATE ON jobguard_jobs
+DROP TRIGGER IF EXISTS {{updated_at_trigger}} ON {{jobs}};
+CREATE TRIGGER {{updated_at_trigger}}
+    BEFORE UPDATE ON {{jobs}}
     FOR EACH ROW
-    EXECUTE FUNCTION update_updated_at_column();
+    EXECUTE FUNCTION {{set_updated_at}}();
@@ -0,0 +1,3 @@
+-- Align job_name with the default maxJobNameLength limit (255 characters)
+-- Previously VARCHAR(100): names of 101-255 characters passed validation but failed the INSERT
+ALTER TABLE {{jobs}} ALTER COLUMN job_name TYPE VARCHAR(255);
@@ -0,0 +1,4 @@
+-- Index for orphan detection (pending jobs scanned oldest first, keyset-paginated)
+CREATE INDEX IF NOT EXISTS {{idx_orphan_detection}}
+    ON {{jobs}} (queue_name, queue_type, created_at, id)
+    WHERE status = 'pending';
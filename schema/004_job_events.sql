@@ -0,0 +1,24 @@
+-- Append-only lifecycle history: one row per status change, failure and re-enqueue
+-- Rows are written in the same statement as the change to jobguard_jobs
+CREATE TABLE IF NOT EXISTS {{events}} (
+    id BIGSERIAL PRIMARY KEY,
+    job_uuid UUID NOT NULL, -- jobguard_jobs.id of the tracked row
+    queue_name VARCHAR(100) NOT NULL,
+    queue_type VARCHAR(20) NOT NULL,
+    job_id VARCHAR(100) NOT NULL,
+    event_type VARCHAR(20) NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    attempt SMALLINT NOT NULL,
+    error_message TEXT,
+    source VARCHAR(255), -- hostname:pid of the instance that recorded the event
+    metadata JSONB,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Index for job history lookups
+CREATE INDEX IF NOT EXISTS {{idx_job_events_lookup}}
+    ON {{events}} (queue_name, queue_type, job_id, id);
+
+-- Index for deleting history together with its job (retention cleanup)
+CREATE INDEX IF NOT EXISTS {{idx_job_events_job}}
+    ON {{events}} (job_uuid);
@@ -0,0 +1,13 @@
+-- Indexes for listing tracked jobs (jobGuard.listJobs), newest first
+CREATE INDEX IF NOT EXISTS {{idx_job_list}}
+    ON {{jobs}} (queue_name, queue_type, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS {{idx_job_list_status}}
+    ON {{jobs}} (queue_name, queue_type, status, created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS {{idx_job_list_name}}
+    ON {{jobs}} (queue_name, queue_type, job_name, created_at DESC, id DESC);
+
+-- Index for JSONB containment filters (data @> ...)
+CREATE INDEX IF NOT EXISTS {{idx_job_data}}
+    ON {{jobs}} USING GIN (data jsonb_path_ops);
@@ -0,0 +1,2 @@
+-- W3C trace context of the request that enqueued a job (OpenTelemetry, optional)
+ALTER TABLE {{jobs}} ADD COLUMN IF NOT EXISTS trace_context JSONB;
@@ -0,0 +1,13 @@
+-- Outbox mode: jobs inserted in the caller's transaction wait as pending_dispatch
+-- until the dispatcher has added them to the queue
+ALTER TABLE {{jobs}} DROP CONSTRAINT IF EXISTS {{status_check}};
+ALTER TABLE {{jobs}} ADD CONSTRAINT {{status_check}}
+    CHECK (status IN ('pending_dispatch', 'pending', 'processing', 'completed', 'failed', 'stuck', 'dead'));
+
+-- Queue job options the dispatcher adds the job with
+ALTER TABLE {{jobs}} ADD COLUMN IF NOT EXISTS opts JSONB;
+
+-- Index for the dispatcher (oldest undispatched jobs of a queue first)
+CREATE INDEX IF NOT EXISTS {{idx_outbox_dispatch}}
+    ON {{jobs}} (queue_name, queue_type, created_at, id)
+    WHERE status = 'pending_dispatch';
@@ -0,0 +1,16 @@
+-- Move the updated_at trigger to a function named after JobGuard's table
+-- Previously update_updated_at_column, a name applications often use for a function of
+-- their own. That function is left in place in case application triggers call it.
+CREATE OR REPLACE FUNCTION {{set_updated_at}}()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS {{updated_at_trigger}} ON {{jobs}};
+CREATE TRIGGER {{updated_at_trigger}}
+    BEFORE UPDATE ON {{jobs}}
+    FOR EACH ROW
+    EXECUTE FUNCTION {{set_updated_at}}();
@@ -0,0 +1,34 @@
+-- Expired jobs moved out of {{jobs}} by retention (persistence.archive), with their
+-- history from {{events}}. Columns match the jobs table, plus events and archived_at.
+CREATE TABLE IF NOT EXISTS {{archive}} (
+    id UUID PRIMARY KEY,
+    queue_name VARCHAR(100) NOT NULL,
+    queue_type VARCHAR(20) NOT NULL,
+    job_id VARCHAR(100) NOT NULL,
+    job_name VARCHAR(255),
+    data JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL,
+    attempts SMALLINT NOT NULL,
+    max_attempts SMALLINT NOT NULL,
+    error_message TEXT,
+    created_at TIMESTAMPTZ NOT NULL,
+    updated_at TIMESTAMPTZ NOT NULL,
+    started_at TIMESTAMPTZ,
+    completed_at TIMESTAMPTZ,
+    last_heartbeat TIMESTAMPTZ,
+    trace_context JSONB,
+    opts JSONB,
+    events JSONB NOT NULL DEFAULT '[]', -- History of the job, oldest first
+    archived_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Indexes for job lookups and listings that include archived jobs
+CREATE INDEX IF NOT EXISTS {{idx_archive_lookup}}
+    ON {{archive}} (queue_name, queue_type, job_id);
+
+CREATE INDEX IF NOT EXISTS {{idx_archive_list}}
+    ON {{archive}} (queue_name, queue_type, created_at DESC, id DESC);
+
+-- Index for archive retention (persistence.archive.retentionDays)
+CREATE INDEX IF NOT EXISTS {{idx_archive_expiry}}
+    ON {{archive}} (archived_at);
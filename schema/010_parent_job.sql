@@ -0,0 +1,9 @@
+-- Parent of a job added as part of a BullMQ flow (FlowProducer, or opts.parent), as
+-- BullMQ's parent key: <prefix>:<parent queue>:<parent job ID>
+ALTER TABLE {{jobs}} ADD COLUMN IF NOT EXISTS parent_key TEXT;
+ALTER TABLE {{archive}} ADD COLUMN IF NOT EXISTS parent_key TEXT;
+
+-- Index for listing the children of a flow node
+CREATE INDEX IF NOT EXISTS {{idx_job_parent}}
+    ON {{jobs}} (parent_key)
+    WHERE parent_key IS NOT NULL;
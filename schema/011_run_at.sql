@@ -0,0 +1,4 @@
+-- When a delayed job is due (e.g. BullMQ opts.delay, Bee-Queue delayUntil()); NULL for
+-- jobs that can run as soon as they are added
+ALTER TABLE {{jobs}} ADD COLUMN IF NOT EXISTS run_at TIMESTAMPTZ;
+ALTER TABLE {{archive}} ADD COLUMN IF NOT EXISTS run_at TIMESTAMPTZ;
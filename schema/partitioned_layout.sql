@@ -0,0 +1,44 @@
+-- Objects of the partitioned layout (persistence.partitioning), created by the migration
+-- runner when it converts the jobs table. Not a numbered migration: unpartitioned
+-- installs never run it.
+
+-- Unique indexes can't span partitions, so duplicates of an active job are skipped here.
+-- The lock (namespace 0x4a4b, 'JK') makes concurrent inserts of the same job wait until
+-- the first inserting transaction ends; the partitioned table's OID keeps deployments apart.
+CREATE OR REPLACE FUNCTION {{dedupe_active}}()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.status IN ('completed', 'failed', 'dead') THEN
+        RETURN NEW;
+    END IF;
+
+    PERFORM pg_advisory_xact_lock(
+        19019,
+        hashtext(pg_partition_root(TG_RELID)::OID || ':' || NEW.queue_name || ':' ||
+            NEW.queue_type || ':' || NEW.job_id)
+    );
+
+    IF EXISTS (
+        SELECT 1 FROM {{jobs}}
+        WHERE queue_name = NEW.queue_name
+          AND queue_type = NEW.queue_type
+          AND job_id = NEW.job_id
+          AND status NOT IN ('completed', 'failed', 'dead')
+    ) THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER {{dedupe_active_trigger}}
+    BEFORE INSERT ON {{jobs}}
+    FOR EACH ROW
+    EXECUTE FUNCTION {{dedupe_active}}();
+
+-- Row triggers of a partitioned table are cloned to every partition
+CREATE TRIGGER {{updated_at_trigger}}
+    BEFORE UPDATE ON {{jobs}}
+    FOR EACH ROW
+    EXECUTE FUNCTION {{set_updated_at}}();
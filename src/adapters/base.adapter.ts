@@ -1,42 +1,371 @@
-import { QueueAdapter } from '../types/adapter';
-import { JobRecord, JobStatus } from '../types/job';
-import { JobRepository } from '../persistence/repository';
+import {
+  AdapterMetrics,
+  BackfillOptions,
+  BackfillResult,
+  BackfillState,
+  QueueAdapter,
+  ReEnqueueOptions,
+} from '../types/adapter';
+import { randomUUID } from 'crypto';
+import type { ClientBase } from 'pg';
+import { EnqueueOptions, JobRecord, JobStatus, RecordJobInput } from '../types/job';
+import { JobRepository, NewJob } from '../persistence/repository';
+import {
+  applyJobWrite,
+  isPermanentWriteFailure,
+  JobSpool,
+  JobWrite,
+} from '../persistence/spool';
+import { JobGuardEventEmitter } from '../types/events';
+import { ListenerHealth } from '../types/health';
 import { Logger } from '../utils/logger';
 import { AnyQueue } from '../types/queue-types';
+import { LimitsConfig } from '../types/config';
+import { JobGuardError, JobValidationError } from '../errors/errors';
+import { createJobDataStub, formatBytes, resolveLimits } from '../utils/job-limits';
+import { captureTraceContext, jobAttributes, withSpan } from '../utils/tracing';
+
+export interface AdapterOptions {
+  limits?: LimitsConfig;
+  spool?: JobSpool;
+  events?: JobGuardEventEmitter;
+}
+
+/**
+ * Result of removing a job from Redis before re-enqueueing it
+ * - removed: the job was waiting/active/delayed and has been removed
+ * - missing: the job does not exist in Redis
+ * - skipped: the job was already processed, or removal failed
+ */
+export type RemoveOutcome = 'removed' | 'missing' | 'skipped';
+
+/**
+ * Job name and data as they will be persisted, after limits are applied
+ */
+export interface PersistableJob {
+  jobName: string | undefined;
+  data: unknown;
+}
+
+/**
+ * Job passed to addBulk() (Bull and BullMQ)
+ */
+interface BulkJob {
+  name?: string;
+  data: unknown;
+  opts?: { attempts?: number; jobId?: string; [key: string]: unknown };
+}
+
+/**
+ * Job as read back from Redis for backfilling
+ */
+export interface RedisJob {
+  id: string;
+  name?: string;
+  data: unknown;
+  attemptsMade: number;
+  maxAttempts?: number;
+  runAt?: Date; // When a delayed job is due
+}
+
+const BACKFILL_STATES: BackfillState[] = ['waiting', 'delayed', 'active'];
 
 export abstract class BaseAdapter implements QueueAdapter {
   protected queue: AnyQueue;
   protected repository: JobRepository;
   protected logger: Logger;
+  protected limits: Required<LimitsConfig>;
+  protected spool?: JobSpool;
+  protected events?: JobGuardEventEmitter;
   protected originalAdd?: Function;
+  protected originalAddBulk?: Function;
   protected isDisposed = false;
+  private writeFailures: AdapterMetrics['writeFailures'] = {
+    create: 0,
+    status: 0,
+    error: 0,
+  };
 
   abstract readonly queueName: string;
   abstract readonly queueType: 'bull' | 'bullmq' | 'bee';
 
-  constructor(queue: AnyQueue, repository: JobRepository, logger: Logger) {
+  constructor(
+    queue: AnyQueue,
+    repository: JobRepository,
+    logger: Logger,
+    options: AdapterOptions = {}
+  ) {
     this.queue = queue;
     this.repository = repository;
     this.logger = logger;
+    this.limits = resolveLimits(options.limits);
+    this.spool = options.spool;
+    this.events = options.events;
   }
 
   initialize(): void {
-    this.logger.info(
-      `Initializing ${this.queueType} adapter for queue: ${this.queueName}`
-    );
+    this.logger = this.logger.child({ queue: this.queueName, queueType: this.queueType });
+    this.logger.info('Initializing adapter');
     this.wrapAddMethod();
     this.attachEventListeners();
   }
 
   abstract wrapAddMethod(): void;
   abstract attachEventListeners(): void;
-  abstract reEnqueueJob(jobRecord: JobRecord): Promise<void>;
+  abstract reEnqueueJob(jobRecord: JobRecord, options?: ReEnqueueOptions): Promise<void>;
+  abstract dispatchJob(jobRecord: JobRecord): Promise<void>;
+  abstract getJobState(jobId: string): Promise<string | null>;
+  abstract getListenerHealth(): Promise<ListenerHealth>;
+
+  /**
+   * Fetch one page of jobs in the given state from Redis
+   * @param start - Index of the first job (inclusive)
+   * @param end - Index of the last job (inclusive)
+   */
+  protected abstract fetchJobsFromRedis(
+    state: BackfillState,
+    start: number,
+    end: number
+  ): Promise<RedisJob[]>;
+
+  /**
+   * Page through Redis and insert jobs that are not tracked in PostgreSQL yet
+   * Jobs moving between states while paging can be missed - the operation is
+   * idempotent, so it is safe to run again
+   */
+  async backfillFromRedis(options: BackfillOptions = {}): Promise<BackfillResult> {
+    const states = options.states || BACKFILL_STATES;
+    const batchSize = options.batchSize || 100;
+    const result: BackfillResult = { added: 0, alreadyPresent: 0, skipped: 0 };
+
+    for (const state of states) {
+      if (!BACKFILL_STATES.includes(state)) {
+        throw new JobGuardError(
+          `Cannot backfill jobs in state '${state}' (supported: ${BACKFILL_STATES.join(', ')})`
+        );
+      }
+
+      this.logger.info('Backfilling jobs from Redis', { state });
+
+      for (let start = 0; ; start += batchSize) {
+        const jobs = await this.fetchJobsFromRedis(state, start, start + batchSize - 1);
+
+        for (const job of jobs) {
+          await this.backfillJob(job, state, result);
+        }
+
+        if (jobs.length < batchSize) break;
+      }
+    }
+
+    this.logger.info('Backfill completed', { ...result });
+
+    return result;
+  }
+
+  private async backfillJob(
+    job: RedisJob,
+    state: BackfillState,
+    result: BackfillResult
+  ): Promise<void> {
+    let persistable: PersistableJob | null;
+
+    try {
+      persistable = this.applyLimits(job.name, job.data);
+    } catch (error) {
+      // The job is already in Redis - 'reject' can only skip it here
+      if (!(error instanceof JobValidationError)) throw error;
+      persistable = null;
+    }
+
+    if (!persistable) {
+      result.skipped++;
+      return;
+    }
+
+    const inserted = await this.repository.backfillJob(
+      this.queueName,
+      this.queueType,
+      job.id,
+      persistable.jobName,
+      persistable.data,
+      state === 'active' ? JobStatus.PROCESSING : JobStatus.PENDING,
+      job.attemptsMade,
+      job.maxAttempts,
+      job.runAt
+    );
+
+    if (inserted) {
+      result.added++;
+    } else {
+      result.alreadyPresent++;
+    }
+  }
+
+  async recordJob(client: ClientBase, job: RecordJobInput): Promise<JobRecord | null> {
+    // 'reject' throws here, before the caller commits
+    const persistable = this.applyLimits(job.name, job.data);
+    if (!persistable) {
+      return null;
+    }
+
+    const opts = this.resolveJobOptions(job.opts);
+
+    // Not spooled: the write must succeed or fail with the caller's transaction
+    return this.repository.createJob(
+      this.queueName,
+      this.queueType,
+      job.jobId,
+      persistable.jobName,
+      persistable.data,
+      job.maxAttempts || this.getMaxAttempts(opts),
+      captureTraceContext(),
+      client,
+      undefined,
+      opts,
+      this.getRunAt(opts)
+    );
+  }
+
+  async enqueueJob(
+    client: ClientBase,
+    name: string | undefined,
+    data: unknown,
+    opts: EnqueueOptions = {}
+  ): Promise<JobRecord | null> {
+    // The row is the only copy of the job until it is dispatched, so it can't be
+    // stubbed or skipped whatever the oversized job policy
+    this.validateJobData(name, data);
+
+    const { jobId = randomUUID(), ...queueOpts } = opts;
+
+    // The queue applies its defaults when the job is dispatched
+    return this.repository.enqueueJob(
+      client,
+      this.queueName,
+      this.queueType,
+      jobId,
+      name,
+      data,
+      this.getMaxAttempts(this.resolveJobOptions(queueOpts)),
+      queueOpts,
+      captureTraceContext()
+    );
+  }
+
+  /**
+   * Attempt limit set by the options a job is added with - Bull and BullMQ make a
+   * single attempt without an attempts option
+   */
+  protected getMaxAttempts(opts: Record<string, unknown>): number {
+    return typeof opts.attempts === 'number' && opts.attempts > 0 ? opts.attempts : 1;
+  }
+
+  /**
+   * Options a job is added with, on top of the queue's defaultJobOptions (Bull and
+   * BullMQ), as they are stored to re-add the job with - the job ID is left out
+   */
+  protected resolveJobOptions(
+    opts: Record<string, unknown> = {}
+  ): Record<string, unknown> {
+    const defaults: Record<string, unknown> =
+      this.queue.defaultJobOptions ?? this.queue.opts?.defaultJobOptions ?? {};
+    const { jobId: _jobId, ...resolved } = { ...defaults, ...opts };
+    return resolved;
+  }
+
+  /**
+   * When a job added with these options is due (Bull and BullMQ opts.delay, counted from
+   * opts.timestamp if set) - undefined for jobs that aren't delayed
+   */
+  protected getRunAt(opts: Record<string, unknown>): Date | undefined {
+    if (typeof opts.delay !== 'number' || opts.delay <= 0) return undefined;
+    const timestamp = typeof opts.timestamp === 'number' ? opts.timestamp : Date.now();
+    return new Date(timestamp + opts.delay);
+  }
+
+  /**
+   * Attempts a tracked job is re-added with: what remains of its attempt limit, unless
+   * ReEnqueueOptions sets them
+   */
+  protected getReEnqueueAttempts(
+    jobRecord: JobRecord,
+    options: ReEnqueueOptions
+  ): number {
+    return options.attempts ?? Math.max(jobRecord.max_attempts - jobRecord.attempts, 1);
+  }
+
+  /**
+   * Options a tracked job is re-added with (Bull and BullMQ): the stored options, with
+   * the delay cut to what remains of it and the attempts left (see getReEnqueueAttempts)
+   * A repeatable job is re-added to run once, without registering its schedule again;
+   * timestamp is dropped since the remaining delay counts from now
+   */
+  protected getReEnqueueOptions(
+    jobRecord: JobRecord,
+    options: ReEnqueueOptions
+  ): Record<string, unknown> {
+    const {
+      delay: _delay,
+      repeat: _repeat,
+      timestamp: _timestamp,
+      ...opts
+    } = jobRecord.opts ?? {};
+    const remainingDelay = jobRecord.run_at ? jobRecord.run_at.getTime() - Date.now() : 0;
+
+    return {
+      ...opts,
+      ...(remainingDelay > 0 && { delay: remainingDelay }),
+      jobId: jobRecord.job_id,
+      attempts: this.getReEnqueueAttempts(jobRecord, options),
+    };
+  }
+
+  /**
+   * Wrap the queue's addBulk() (Bull and BullMQ) so that the added jobs are persisted
+   * with one INSERT, each with its own options
+   */
+  protected wrapAddBulkMethod(): void {
+    if (typeof this.queue.addBulk !== 'function') return;
+
+    this.originalAddBulk = this.queue.addBulk.bind(this.queue);
+
+    this.queue.addBulk = async (jobs: BulkJob[]): Promise<unknown[]> => {
+      // A rejected job aborts the whole batch, before any job reaches Redis
+      const persistables = jobs.map((job) => this.applyLimits(job.name, job.data));
+
+      if (!this.originalAddBulk) {
+        throw new Error('Original addBulk method not found');
+      }
+      const added: Array<{ id: string | number; parentKey?: string }> =
+        await this.originalAddBulk(jobs);
+
+      const newJobs: NewJob[] = [];
+      added.forEach((job, index) => {
+        const persistable = persistables[index];
+        if (persistable) {
+          const opts = this.resolveJobOptions(jobs[index]?.opts);
+          newJobs.push({
+            jobId: this.getJobIdAsString(job.id),
+            jobName: persistable.jobName,
+            data: persistable.data,
+            maxAttempts: this.getMaxAttempts(opts),
+            parentKey: job.parentKey,
+            opts,
+          });
+        }
+      });
+      await this.handleJobsCreated(newJobs);
+
+      return added;
+    };
+  }
 
   async updateHeartbeat(jobId: string): Promise<void> {
     try {
       await this.repository.updateHeartbeat(this.queueName, this.queueType, jobId);
     } catch (error) {
-      this.logger.error(`Failed to update heartbeat for job ${jobId}:`, error);
+      this.logger.error('Failed to update heartbeat', { jobId, err: error });
       // Don't throw - heartbeat failure shouldn't crash job processing
     }
   }
@@ -44,95 +373,223 @@ export abstract class BaseAdapter implements QueueAdapter {
   dispose(): void {
     if (this.isDisposed) return;
 
-    this.logger.info(`Disposing ${this.queueType} adapter for queue: ${this.queueName}`);
+    this.logger.info('Disposing adapter');
 
     // Restore original add method (if queue has add method)
     if (this.originalAdd && 'add' in this.queue) {
       (this.queue as any).add = this.originalAdd; // eslint-disable-line @typescript-eslint/no-explicit-any
     }
+    if (this.originalAddBulk) {
+      this.queue.addBulk = this.originalAddBulk;
+    }
 
     this.isDisposed = true;
   }
 
   protected validateJobData(jobName: string | undefined, data: unknown): void {
-    const MAX_DATA_SIZE = 1048576; // 1MB
-    const MAX_NAME_LENGTH = 255;
+    const { maxJobNameLength, maxJobDataSize } = this.limits;
 
     // Fast name length validation
-    if (jobName && jobName.length > MAX_NAME_LENGTH) {
-      throw new Error(`Job name exceeds ${MAX_NAME_LENGTH} characters`);
+    if (jobName && jobName.length > maxJobNameLength) {
+      throw new JobValidationError(
+        `Job name exceeds ${maxJobNameLength} characters`,
+        'name_too_long'
+      );
+    }
+
+    const byteLength = Buffer.byteLength(this.serializeJobData(data), 'utf8');
+
+    if (byteLength > maxJobDataSize) {
+      throw new JobValidationError(
+        `Job data exceeds ${maxJobDataSize} bytes (${formatBytes(maxJobDataSize)} limit). ` +
+          `Actual size: ${byteLength} bytes`,
+        'data_too_large'
+      );
     }
+  }
 
-    // Use Buffer.byteLength for more accurate and faster size check
-    // This is still synchronous but significantly faster than JSON.stringify
+  /**
+   * Apply resource limits and the oversized job policy before a job is enqueued
+   * @returns the job fields to persist, or null to skip persistence
+   * @throws JobValidationError if the policy is 'reject'
+   */
+  protected applyLimits(
+    jobName: string | undefined,
+    data: unknown
+  ): PersistableJob | null {
     try {
-      const dataStr = JSON.stringify(data);
-      const byteLength = Buffer.byteLength(dataStr, 'utf8');
+      this.validateJobData(jobName, data);
+      return { jobName, data };
+    } catch (error) {
+      if (!(error instanceof JobValidationError)) {
+        throw error;
+      }
 
-      if (byteLength > MAX_DATA_SIZE) {
-        throw new Error(
-          `Job data exceeds ${MAX_DATA_SIZE} bytes (1MB limit). ` +
-            `Actual size: ${byteLength} bytes`
-        );
+      const policy = this.limits.oversizedJobPolicy;
+
+      if (policy === 'reject') {
+        throw error;
       }
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('exceeds')) {
-        throw error; // Re-throw our validation error
+
+      // Data that can't be serialized can't be hashed either - fall back to skipping
+      if (policy === 'stub' && error.reason !== 'not_serializable') {
+        this.logger.warn('Job exceeds limits, persisting a stub', {
+          reason: error.reason,
+          detail: error.message,
+        });
+        return this.createStub(jobName, data);
+      }
+
+      this.logger.warn('Job exceeds limits, skipping persistence', {
+        reason: error.reason,
+        detail: error.message,
+      });
+      return null;
+    }
+  }
+
+  private createStub(jobName: string | undefined, data: unknown): PersistableJob {
+    const { maxJobNameLength, maxJobDataSize } = this.limits;
+    const serialized = this.serializeJobData(data);
+
+    return {
+      jobName:
+        jobName && jobName.length > maxJobNameLength
+          ? jobName.substring(0, maxJobNameLength)
+          : jobName,
+      data:
+        Buffer.byteLength(serialized, 'utf8') > maxJobDataSize
+          ? createJobDataStub(serialized)
+          : data,
+    };
+  }
+
+  private serializeJobData(data: unknown): string {
+    try {
+      const serialized = JSON.stringify(data);
+      if (serialized === undefined) {
+        throw new Error(`unsupported value (${typeof data})`);
       }
+      return serialized;
+    } catch (error) {
       // JSON serialization error (circular reference, etc.)
-      throw new Error(
-        `Job data cannot be serialized to JSON: ${error instanceof Error ? error.message : 'Unknown error'}`
+      throw new JobValidationError(
+        `Job data cannot be serialized to JSON: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'not_serializable'
       );
     }
   }
 
+  /**
+   * Persist a newly enqueued job, with the trace context of the queue.add() call
+   * Callers apply limits first (see applyLimits) so that rejected jobs never reach Redis
+   * and pass the job options with the queue defaults applied (see resolveJobOptions)
+   */
   protected async handleJobCreated(
     jobId: string,
     jobName: string | undefined,
     data: unknown,
-    maxAttempts?: number
+    opts: Record<string, unknown> = {},
+    parentKey?: string
   ): Promise<void> {
     try {
-      // Validate before persisting
-      this.validateJobData(jobName, data);
-
-      await this.repository.createJob(
-        this.queueName,
-        this.queueType,
+      await this.persist({
+        op: 'create',
+        queueName: this.queueName,
+        queueType: this.queueType,
         jobId,
         jobName,
         data,
-        maxAttempts || 3 // Use provided attempts or default to 3
-      );
+        maxAttempts: this.getMaxAttempts(opts),
+        traceContext: captureTraceContext(),
+        parentKey,
+        opts,
+        runAt: this.getRunAt(opts)?.toISOString(),
+      });
     } catch (error) {
-      this.logger.error(`Failed to persist job ${jobId}:`, error);
+      this.logger.error('Failed to persist job', { jobId, err: error });
       // Don't throw - let the job continue in Redis
     }
   }
 
+  /**
+   * Persist jobs enqueued together (e.g. with addBulk) with one multi-row INSERT
+   * If the INSERT fails, the jobs are written one by one so that a single bad job
+   * or a PostgreSQL outage is handled (and spooled) like it is for handleJobCreated
+   */
+  protected async handleJobsCreated(jobs: NewJob[]): Promise<void> {
+    if (jobs.length === 0) return;
+
+    const traceContext = captureTraceContext();
+    const jobsToCreate = jobs.map((job) => ({
+      ...job,
+      runAt: job.runAt ?? this.getRunAt(job.opts ?? {}),
+    }));
+
+    // While the spool holds writes, new writes queue behind them to keep their order
+    if (!this.spool || this.spool.isEmpty()) {
+      try {
+        await this.repository.createJobs(
+          this.queueName,
+          this.queueType,
+          jobsToCreate,
+          traceContext
+        );
+        return;
+      } catch (error) {
+        this.logger.warn('Failed to persist jobs in one batch, writing them one by one', {
+          jobCount: jobs.length,
+          err: error,
+        });
+      }
+    }
+
+    for (const job of jobsToCreate) {
+      try {
+        await this.persist({
+          op: 'create',
+          queueName: this.queueName,
+          queueType: this.queueType,
+          jobId: job.jobId,
+          jobName: job.jobName,
+          data: job.data,
+          maxAttempts: job.maxAttempts || 1,
+          traceContext,
+          parentKey: job.parentKey,
+          opts: job.opts,
+          runAt: job.runAt?.toISOString(),
+        });
+      } catch (error) {
+        this.logger.error('Failed to persist job', { jobId: job.jobId, err: error });
+      }
+    }
+  }
+
   protected async handleJobStarted(jobId: string): Promise<void> {
     try {
-      await this.repository.updateJobStatus(
-        this.queueName,
-        this.queueType,
+      await this.persist({
+        op: 'status',
+        queueName: this.queueName,
+        queueType: this.queueType,
         jobId,
-        JobStatus.PROCESSING
-      );
+        status: JobStatus.PROCESSING,
+      });
     } catch (error) {
-      this.logger.error(`Failed to update job status ${jobId}:`, error);
+      this.logger.error('Failed to update job status', { jobId, err: error });
     }
   }
 
   protected async handleJobCompleted(jobId: string): Promise<void> {
     try {
-      await this.repository.updateJobStatus(
-        this.queueName,
-        this.queueType,
+      await this.persist({
+        op: 'status',
+        queueName: this.queueName,
+        queueType: this.queueType,
         jobId,
-        JobStatus.COMPLETED
-      );
+        status: JobStatus.COMPLETED,
+      });
     } catch (error) {
-      this.logger.error(`Failed to mark job completed ${jobId}:`, error);
+      this.logger.error('Failed to mark job completed', { jobId, err: error });
     }
   }
 
@@ -142,15 +599,84 @@ export abstract class BaseAdapter implements QueueAdapter {
       const sanitizedMessage = this.sanitizeErrorMessage(error.message);
 
       // SQL will atomically calculate status based on max_attempts in database
-      await this.repository.updateJobError(
-        this.queueName,
-        this.queueType,
+      const job = await this.persist({
+        op: 'error',
+        queueName: this.queueName,
+        queueType: this.queueType,
         jobId,
-        sanitizedMessage
-      );
+        errorMessage: sanitizedMessage,
+      });
+
+      if (job?.status === JobStatus.DEAD) {
+        this.events?.emit('job:dead', job);
+      }
     } catch (err) {
-      this.logger.error(`Failed to mark job failed ${jobId}:`, err);
+      this.logger.error('Failed to mark job failed', { jobId, err });
+    }
+  }
+
+  /**
+   * Write a job lifecycle change to PostgreSQL, falling back to the spool if enabled
+   * While the spool holds writes, new writes queue behind them to keep their order
+   * @returns The written job, or null if it was spooled or no tracked job matched
+   */
+  private async persist(write: JobWrite): Promise<JobRecord | null> {
+    if (this.spool && !this.spool.isEmpty()) {
+      await this.spool.append(write);
+      return null;
+    }
+
+    try {
+      return await applyJobWrite(this.repository, write);
+    } catch (error) {
+      this.writeFailures[write.op]++;
+
+      // Retrying a write PostgreSQL rejected outright would never succeed
+      if (!this.spool || isPermanentWriteFailure(error)) {
+        throw error;
+      }
+
+      this.logger.warn('PostgreSQL write failed, spooling it', {
+        jobId: write.jobId,
+        op: write.op,
+        err: error,
+      });
+      await this.spool.append(write);
+      return null;
+    }
+  }
+
+  /**
+   * Trace a re-enqueue, linked to the trace that originally enqueued the job
+   */
+  protected traceReEnqueue(jobRecord: JobRecord, fn: () => Promise<void>): Promise<void> {
+    return withSpan('jobguard.adapter.reEnqueueJob', jobAttributes(jobRecord), fn, [
+      jobRecord.trace_context,
+    ]);
+  }
+
+  /**
+   * Trace an outbox dispatch, linked to the trace that enqueued the job
+   */
+  protected traceDispatch(jobRecord: JobRecord, fn: () => Promise<void>): Promise<void> {
+    return withSpan('jobguard.adapter.dispatchJob', jobAttributes(jobRecord), fn, [
+      jobRecord.trace_context,
+    ]);
+  }
+
+  getMetrics(): AdapterMetrics {
+    return { writeFailures: { ...this.writeFailures } };
+  }
+
+  /**
+   * Listener health from the status of an ioredis client
+   */
+  protected getRedisClientHealth(client: unknown): ListenerHealth {
+    const state = (client as { status?: unknown } | null | undefined)?.status;
+    if (typeof state !== 'string') {
+      return { connected: false, state: 'unknown' };
     }
+    return { connected: state === 'ready', state };
   }
 
   /**
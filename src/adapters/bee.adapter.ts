@@ -1,16 +1,26 @@
-import { BaseAdapter } from './base.adapter';
-import { JobRecord, JobStatus } from '../types/job';
-import { JobRepository } from '../persistence/repository';
+import { AdapterOptions, BaseAdapter, RedisJob, RemoveOutcome } from './base.adapter';
+import { BackfillState, ReEnqueueOptions } from '../types/adapter';
+import { ListenerHealth } from '../types/health';
+import { JobRecord } from '../types/job';
+import { JobRepository, NewJob } from '../persistence/repository';
 import { Logger } from '../utils/logger';
+import { jobAttributes, withSpan } from '../utils/tracing';
 import { BeeQueue, BeeJob } from '../types/queue-types';
 
 export class BeeAdapter extends BaseAdapter {
   declare protected queue: BeeQueue;
   readonly queueType = 'bee' as const;
   private eventHandlers: Map<string, Function> = new Map();
+  private originalCreateJob?: (data: unknown) => BeeJob;
+  private originalSaveAll?: (jobs: BeeJob[]) => Promise<Map<BeeJob, Error>>;
 
-  constructor(queue: BeeQueue, repository: JobRepository, logger: Logger) {
-    super(queue, repository, logger);
+  constructor(
+    queue: BeeQueue,
+    repository: JobRepository,
+    logger: Logger,
+    options: AdapterOptions = {}
+  ) {
+    super(queue, repository, logger, options);
     this.queue = queue;
   }
 
@@ -23,8 +33,9 @@ export class BeeAdapter extends BaseAdapter {
     // Fallback with warning - this should never happen in practice
     const fallback = `bee-queue-${this.queue.settings?.redis?.db || 'default'}`;
     this.logger.warn(
-      `Bee-Queue instance has no name property. Using fallback: ${fallback}. ` +
-        `This may cause queue collisions. Please create queue with explicit name.`
+      'Bee-Queue instance has no name property, using a fallback name. ' +
+        'This may cause queue collisions. Please create queue with explicit name.',
+      { queue: fallback }
     );
     return fallback;
   }
@@ -32,6 +43,7 @@ export class BeeAdapter extends BaseAdapter {
   wrapAddMethod(): void {
     // Bee-Queue uses createJob() instead of add()
     const originalCreateJob = this.queue.createJob.bind(this.queue);
+    this.originalCreateJob = originalCreateJob;
 
     this.queue.createJob = (data: unknown): BeeJob => {
       const job = originalCreateJob(data);
@@ -39,14 +51,21 @@ export class BeeAdapter extends BaseAdapter {
       // Wrap the save method
       const originalSave = job.save.bind(job);
       job.save = async (): Promise<unknown> => {
+        // Apply limits before saving so rejected jobs never reach Redis
+        // Bee-Queue doesn't have job names
+        const persistable = this.applyLimits(undefined, data);
+
         const result = await originalSave();
 
         // Persist to PostgreSQL after successful save
-        await this.handleJobCreated(
-          this.getJobIdAsString(job.id),
-          undefined, // Bee-Queue doesn't have job names
-          data
-        );
+        if (persistable) {
+          await this.handleJobCreated(
+            this.getJobIdAsString(job.id),
+            persistable.jobName,
+            persistable.data,
+            this.getJobOptions(job)
+          );
+        }
 
         return result;
       };
@@ -54,7 +73,39 @@ export class BeeAdapter extends BaseAdapter {
       return job;
     };
 
-    this.logger.debug(`Wrapped createJob method for Bee queue: ${this.queueName}`);
+    // saveAll() saves jobs in one batch without calling their save()
+    if (typeof this.queue.saveAll === 'function') {
+      const originalSaveAll = this.queue.saveAll.bind(this.queue);
+      this.originalSaveAll = originalSaveAll;
+
+      this.queue.saveAll = async (jobs: BeeJob[]): Promise<Map<BeeJob, Error>> => {
+        // A rejected job aborts the whole batch, before any job reaches Redis
+        const persistables = jobs.map((job) => this.applyLimits(undefined, job.data));
+
+        // Jobs that failed to save are returned with their error
+        const errors = await originalSaveAll(jobs);
+
+        const newJobs: NewJob[] = [];
+        jobs.forEach((job, index) => {
+          const persistable = persistables[index];
+          if (persistable && job.id != null && !errors.has(job)) {
+            const opts = this.getJobOptions(job);
+            newJobs.push({
+              jobId: this.getJobIdAsString(job.id),
+              jobName: persistable.jobName,
+              data: persistable.data,
+              maxAttempts: this.getMaxAttempts(opts),
+              opts,
+            });
+          }
+        });
+        await this.handleJobsCreated(newJobs);
+
+        return errors;
+      };
+    }
+
+    this.logger.debug('Wrapped createJob method');
   }
 
   attachEventListeners(): void {
@@ -83,53 +134,201 @@ export class BeeAdapter extends BaseAdapter {
     this.queue.on('job succeeded', succeededHandler);
     this.queue.on('job failed', failedHandler);
 
-    this.logger.debug(`Attached event listeners for Bee queue: ${this.queueName}`);
+    this.logger.debug('Attached event listeners');
   }
 
-  async reEnqueueJob(jobRecord: JobRecord): Promise<void> {
+  /**
+   * Remove a job from Redis so that it can be saved again under the same ID
+   * Bee-Queue skips saving a job whose ID it still holds
+   */
+  private async removeJob(
+    jobId: string,
+    replaceFinished = false
+  ): Promise<RemoveOutcome> {
+    const job: BeeJob | null = await this.queue.getJob(jobId);
+    if (!job) {
+      return 'missing';
+    }
+
+    // Already processed, unless it is being replaced on purpose (manual retry)
+    if ((job.status === 'succeeded' || job.status === 'failed') && !replaceFinished) {
+      return 'skipped';
+    }
+
     try {
-      this.logger.info(`Re-enqueueing stuck job: ${jobRecord.job_id}`);
-
-      // Re-verify job status from PostgreSQL to prevent race conditions
-      // Job could have completed between marking as stuck and now
-      const currentJob = await this.repository.getJob(
-        this.queueName,
-        this.queueType,
-        jobRecord.job_id
-      );
-
-      if (!currentJob || currentJob.status !== 'stuck') {
-        this.logger.info(
-          `Job ${jobRecord.job_id} status changed (${currentJob?.status || 'not found'}), ` +
-            `skipping re-enqueue`
+      await this.queue.removeJob(jobId);
+      return 'removed';
+    } catch (error) {
+      this.logger.warn('Failed to remove job from Redis', { jobId, err: error });
+      return 'skipped';
+    }
+  }
+
+  async reEnqueueJob(
+    jobRecord: JobRecord,
+    options: ReEnqueueOptions = {}
+  ): Promise<void> {
+    return this.traceReEnqueue(jobRecord, async () => {
+      try {
+        this.logger.info('Re-enqueueing stuck job', { jobId: jobRecord.job_id });
+
+        // Re-verify job status from PostgreSQL to prevent race conditions
+        // Job could have completed between marking as stuck and now
+        const currentJob = await this.repository.getJob(
+          this.queueName,
+          this.queueType,
+          jobRecord.job_id
+        );
+
+        if (!currentJob || currentJob.status !== 'stuck') {
+          this.logger.info('Job status changed, skipping re-enqueue', {
+            jobId: jobRecord.job_id,
+            status: currentJob?.status ?? null,
+          });
+          return;
+        }
+
+        const outcome = await withSpan(
+          'jobguard.adapter.removeJob',
+          jobAttributes(jobRecord),
+          async (span) => {
+            const removed = await this.removeJob(
+              jobRecord.job_id,
+              options.replaceFinished
+            );
+            span?.setAttribute('jobguard.remove_outcome', removed);
+            return removed;
+          }
+        );
+
+        if (
+          outcome === 'skipped' ||
+          (outcome === 'missing' && !options.requeueIfMissing)
+        ) {
+          this.logger.info(
+            'Job already processed or missing from Redis, skipping re-enqueue',
+            {
+              jobId: jobRecord.job_id,
+            }
+          );
+          return;
+        }
+
+        // The job is already tracked, so it bypasses the wrapped createJob method and
+        // keeps its job ID - Bee-Queue counts retries after the first attempt
+        if (!this.originalCreateJob) {
+          throw new Error('Original createJob method not found');
+        }
+
+        const attempts = this.getReEnqueueAttempts(jobRecord, options);
+        const job = this.originalCreateJob(jobRecord.data).setId(jobRecord.job_id);
+        this.applyJobOptions(job, jobRecord.opts || {});
+        await job.retries(Math.max(attempts - 1, 0)).save();
+
+        // Update status to pending and record the re-enqueue in the job history
+        await this.repository.markJobReEnqueued(
+          this.queueName,
+          this.queueType,
+          jobRecord.job_id
         );
-        return;
+
+        this.logger.info('Re-enqueued job', { jobId: jobRecord.job_id });
+      } catch (error) {
+        this.logger.error('Failed to re-enqueue job', {
+          jobId: jobRecord.job_id,
+          err: error,
+        });
+        throw error;
       }
+    });
+  }
 
-      // Bee-Queue doesn't support jobId parameter, so we can't prevent duplicates
-      // the same way. Instead, we mark the old job as failed to prevent double-processing
-      // from PostgreSQL perspective.
+  async dispatchJob(jobRecord: JobRecord): Promise<void> {
+    return this.traceDispatch(jobRecord, async () => {
+      // The job is already tracked, so it bypasses the wrapped createJob method
+      if (!this.originalCreateJob) {
+        throw new Error('Original createJob method not found');
+      }
+
+      const job = this.originalCreateJob(jobRecord.data).setId(jobRecord.job_id);
+      this.applyJobOptions(job, jobRecord.opts || {});
 
-      // Create new job with original data
-      const job = this.queue.createJob(jobRecord.data);
       await job.save();
+    });
+  }
 
-      // Mark old job as failed in PostgreSQL (new job gets new ID)
-      // This is correct for Bee-Queue since it generates new IDs
-      await this.repository.updateJobStatus(
-        this.queueName,
-        this.queueType,
-        jobRecord.job_id,
-        JobStatus.FAILED
-      );
-
-      this.logger.info(
-        `Successfully re-enqueued job: ${jobRecord.job_id} as new job ${job.id}`
-      );
-    } catch (error) {
-      this.logger.error(`Failed to re-enqueue job ${jobRecord.job_id}:`, error);
-      throw error;
+  /**
+   * Options a job was saved with, in the shape applyJobOptions() takes them
+   */
+  private getJobOptions(job: BeeJob): Record<string, unknown> {
+    const { retries, timeout, delay, backoff } = job.options ?? {};
+    return {
+      ...(typeof retries === 'number' && { retries }),
+      ...(typeof timeout === 'number' && { timeout }),
+      ...(typeof delay === 'number' && { delayUntil: delay }),
+      ...(backoff && { backoff }),
+    };
+  }
+
+  /**
+   * Bee-Queue takes job options through setters rather than an options object
+   */
+  private applyJobOptions(job: BeeJob, opts: Record<string, unknown>): void {
+    if (typeof opts.retries === 'number') job.retries(opts.retries);
+    if (typeof opts.timeout === 'number') job.timeout(opts.timeout);
+    // A delay that has run out (e.g. before a re-enqueue) no longer applies
+    if (opts.delayUntil !== undefined) {
+      const delayUntil = new Date(opts.delayUntil as string | number);
+      if (delayUntil.getTime() > Date.now()) job.delayUntil(delayUntil);
     }
+    if (opts.backoff) {
+      const { strategy, delay } = opts.backoff as { strategy: string; delay?: number };
+      job.backoff(strategy, delay);
+    }
+  }
+
+  /**
+   * Bee-Queue jobs are delayed until a timestamp (stored as delayUntil)
+   */
+  protected getRunAt(opts: Record<string, unknown>): Date | undefined {
+    return typeof opts.delayUntil === 'number' ? new Date(opts.delayUntil) : undefined;
+  }
+
+  /**
+   * Bee-Queue counts retries after the first attempt, and doesn't retry by default
+   */
+  protected getMaxAttempts(opts: Record<string, unknown>): number {
+    return typeof opts.retries === 'number' ? opts.retries + 1 : 1;
+  }
+
+  async getJobState(jobId: string): Promise<string | null> {
+    const job = await this.queue.getJob(jobId);
+    return job ? (job.status as string) : null;
+  }
+
+  async getListenerHealth(): Promise<ListenerHealth> {
+    // Job events from other processes arrive on the pub/sub client (getEvents: true)
+    return this.getRedisClientHealth(this.queue.eclient ?? this.queue.client);
+  }
+
+  protected async fetchJobsFromRedis(
+    state: BackfillState,
+    start: number,
+    end: number
+  ): Promise<RedisJob[]> {
+    const jobs: BeeJob[] = await this.queue.getJobs(state, { start, end });
+
+    // Bee-Queue doesn't have job names
+    return jobs.map((job) => {
+      const opts = this.getJobOptions(job);
+      return {
+        id: this.getJobIdAsString(job.id),
+        data: job.data,
+        attemptsMade: 0,
+        maxAttempts: this.getMaxAttempts(opts),
+        runAt: this.getRunAt(opts),
+      };
+    });
   }
 
   dispose(): void {
@@ -139,6 +338,10 @@ export class BeeAdapter extends BaseAdapter {
     }
     this.eventHandlers.clear();
 
+    if (this.originalSaveAll) {
+      this.queue.saveAll = this.originalSaveAll;
+    }
+
     super.dispose();
   }
 }
@@ -1,7 +1,10 @@
-import { BaseAdapter } from './base.adapter';
-import { JobRecord, JobStatus } from '../types/job';
+import { AdapterOptions, BaseAdapter, RedisJob, RemoveOutcome } from './base.adapter';
+import { JobRecord } from '../types/job';
+import { BackfillState, ReEnqueueOptions } from '../types/adapter';
+import { ListenerHealth } from '../types/health';
 import { JobRepository } from '../persistence/repository';
 import { Logger } from '../utils/logger';
+import { jobAttributes, withSpan } from '../utils/tracing';
 import { BullQueue, BullJob } from '../types/queue-types';
 
 export class BullAdapter extends BaseAdapter {
@@ -10,8 +13,13 @@ export class BullAdapter extends BaseAdapter {
   private eventHandlers: Map<string, (...args: any[]) => void> = new Map();
   declare protected originalAdd?: BullQueue['add'];
 
-  constructor(queue: BullQueue, repository: JobRepository, logger: Logger) {
-    super(queue, repository, logger);
+  constructor(
+    queue: BullQueue,
+    repository: JobRepository,
+    logger: Logger,
+    options: AdapterOptions = {}
+  ) {
+    super(queue, repository, logger, options);
     this.queue = queue;
   }
 
@@ -46,27 +54,31 @@ export class BullAdapter extends BaseAdapter {
           | undefined;
       }
 
+      // Apply limits before enqueueing so rejected jobs never reach Redis
+      const persistable = this.applyLimits(jobName, jobData);
+
       // Call original add method (type assertion since overloading is complex)
       if (!this.originalAdd) {
         throw new Error('Original add method not found');
       }
       const job = await (this.originalAdd as any)(nameOrData, dataOrOpts, opts); // eslint-disable-line @typescript-eslint/no-explicit-any
 
-      // Extract max attempts from options (Bull uses 'attempts' field)
-      const maxAttempts = jobOpts?.attempts;
-
       // Persist to PostgreSQL
-      await this.handleJobCreated(
-        this.getJobIdAsString(job.id),
-        jobName,
-        jobData,
-        maxAttempts
-      );
+      if (persistable) {
+        await this.handleJobCreated(
+          this.getJobIdAsString(job.id),
+          persistable.jobName,
+          persistable.data,
+          this.resolveJobOptions(jobOpts)
+        );
+      }
 
       return job;
     };
 
-    this.logger.debug(`Wrapped add method for Bull queue: ${this.queueName}`);
+    this.wrapAddBulkMethod();
+
+    this.logger.debug('Wrapped add method');
   }
 
   attachEventListeners(): void {
@@ -95,14 +107,17 @@ export class BullAdapter extends BaseAdapter {
     this.queue.on('completed', completedHandler);
     this.queue.on('failed', failedHandler);
 
-    this.logger.debug(`Attached event listeners for Bull queue: ${this.queueName}`);
+    this.logger.debug('Attached event listeners');
   }
 
   /**
    * Atomically check if job is processed and remove it from Redis
    * Uses Lua script to prevent race conditions
    */
-  private async atomicRemoveJob(jobId: string): Promise<boolean> {
+  private async atomicRemoveJob(
+    jobId: string,
+    replaceFinished = false
+  ): Promise<RemoveOutcome> {
     const client = this.queue.client as any; // Redis client doesn't have full types
     const jobKey = `bull:${this.queueName}:${jobId}`;
 
@@ -111,15 +126,16 @@ export class BullAdapter extends BaseAdapter {
       local jobKey = KEYS[1]
       local queueName = ARGV[1]
       local jobId = ARGV[2]
+      local replaceFinished = ARGV[3] == '1'
 
       local success, jobData = pcall(redis.call, 'HGETALL', jobKey)
       if not success then
         return -1  -- Error occurred
       end
 
-      -- If job doesn't exist, return 0 (already removed)
+      -- If job doesn't exist, return 2 (already removed or lost from Redis)
       if #jobData == 0 then
-        return 0
+        return 2
       end
 
       -- Parse job data to check if processed
@@ -140,7 +156,8 @@ export class BullAdapter extends BaseAdapter {
       end
 
       -- If job is completed or failed, don't remove (already processed)
-      if finishedOn or failedReason then
+      -- unless it is being replaced on purpose (manual retry)
+      if (finishedOn or failedReason) and not replaceFinished then
         return 0
       end
 
@@ -157,98 +174,185 @@ export class BullAdapter extends BaseAdapter {
       pcall(redis.call, 'LREM', prefix .. ':wait', 0, jobId)
       pcall(redis.call, 'LREM', prefix .. ':active', 0, jobId)
       pcall(redis.call, 'LREM', prefix .. ':paused', 0, jobId)
+      pcall(redis.call, 'ZREM', prefix .. ':completed', jobId)
+      pcall(redis.call, 'ZREM', prefix .. ':failed', jobId)
 
       return 1
     `;
 
     try {
-      const result = await client.eval(script, 1, jobKey, this.queueName, jobId);
-      return result === 1;
-    } catch (error) {
-      this.logger.warn(
-        `Lua script failed for job ${jobId}, falling back to non-atomic:`,
-        error
+      const result = await client.eval(
+        script,
+        1,
+        jobKey,
+        this.queueName,
+        jobId,
+        replaceFinished ? '1' : '0'
       );
+      if (result === 1) return 'removed';
+      if (result === 2) return 'missing';
+      return 'skipped';
+    } catch (error) {
+      this.logger.warn('Lua script failed, falling back to non-atomic removal', {
+        jobId,
+        err: error,
+      });
       // Fallback to non-atomic removal
       try {
         const job = await this.queue.getJob(jobId);
-        if (job) {
-          const state = await job.getState();
-          if (state !== 'completed' && state !== 'failed') {
-            await job.remove();
-            return true;
-          }
+        if (!job) {
+          return 'missing';
+        }
+        const state = await job.getState();
+        if (replaceFinished || (state !== 'completed' && state !== 'failed')) {
+          await job.remove();
+          return 'removed';
         }
       } catch (_fallbackError) {
         // Job doesn't exist, which is fine
       }
-      return false;
+      return 'skipped';
     }
   }
 
-  async reEnqueueJob(jobRecord: JobRecord): Promise<void> {
-    try {
-      this.logger.info(`Re-enqueueing stuck job: ${jobRecord.job_id}`);
+  async reEnqueueJob(
+    jobRecord: JobRecord,
+    options: ReEnqueueOptions = {}
+  ): Promise<void> {
+    return this.traceReEnqueue(jobRecord, async () => {
+      try {
+        this.logger.info('Re-enqueueing stuck job', { jobId: jobRecord.job_id });
+
+        // Re-verify job status from PostgreSQL to prevent race conditions
+        // Job could have completed between marking as stuck and now
+        const currentJob = await this.repository.getJob(
+          this.queueName,
+          this.queueType,
+          jobRecord.job_id
+        );
 
-      // Re-verify job status from PostgreSQL to prevent race conditions
-      // Job could have completed between marking as stuck and now
-      const currentJob = await this.repository.getJob(
-        this.queueName,
-        this.queueType,
-        jobRecord.job_id
-      );
+        if (!currentJob || currentJob.status !== 'stuck') {
+          this.logger.info('Job status changed, skipping re-enqueue', {
+            jobId: jobRecord.job_id,
+            status: currentJob?.status ?? null,
+          });
+          return;
+        }
 
-      if (!currentJob || currentJob.status !== 'stuck') {
-        this.logger.info(
-          `Job ${jobRecord.job_id} status changed (${currentJob?.status || 'not found'}), ` +
-            `skipping re-enqueue`
+        // Atomically check and remove job from Redis if not processed
+        const outcome = await withSpan(
+          'jobguard.adapter.removeJob',
+          jobAttributes(jobRecord),
+          async (span) => {
+            const removed = await this.atomicRemoveJob(
+              jobRecord.job_id,
+              options.replaceFinished
+            );
+            span?.setAttribute('jobguard.remove_outcome', removed);
+            return removed;
+          }
         );
-        return;
-      }
 
-      // Atomically check and remove job from Redis if not processed
-      const removed = await this.atomicRemoveJob(jobRecord.job_id);
+        if (
+          outcome === 'skipped' ||
+          (outcome === 'missing' && !options.requeueIfMissing)
+        ) {
+          this.logger.info(
+            'Job already processed or missing from Redis, skipping re-enqueue',
+            {
+              jobId: jobRecord.job_id,
+            }
+          );
+          return;
+        }
 
-      if (!removed) {
-        this.logger.info(
-          `Job ${jobRecord.job_id} already processed or doesn't exist, skipping re-enqueue`
+        // Safe to re-enqueue now - job was removed atomically (or is gone from Redis)
+        if (!this.originalAdd) {
+          throw new Error('Original add method not found');
+        }
+
+        // Call with job name if present, otherwise just data
+        const opts = this.getReEnqueueOptions(jobRecord, options);
+        if (jobRecord.job_name) {
+          await this.originalAdd(jobRecord.job_name, jobRecord.data, opts);
+        } else {
+          await this.originalAdd(jobRecord.data, opts);
+        }
+
+        // Update status to pending and record the re-enqueue in the job history
+        await this.repository.markJobReEnqueued(
+          this.queueName,
+          this.queueType,
+          jobRecord.job_id
         );
-        return;
+
+        this.logger.info('Re-enqueued job', { jobId: jobRecord.job_id });
+      } catch (error) {
+        this.logger.error('Failed to re-enqueue job', {
+          jobId: jobRecord.job_id,
+          err: error,
+        });
+        throw error;
       }
+    });
+  }
 
-      // Safe to re-enqueue now - job was removed atomically
+  async dispatchJob(jobRecord: JobRecord): Promise<void> {
+    return this.traceDispatch(jobRecord, async () => {
+      // The job is already tracked, so it bypasses the wrapped add method
       if (!this.originalAdd) {
         throw new Error('Original add method not found');
       }
 
+      const opts = { ...jobRecord.opts, jobId: jobRecord.job_id };
+
       // Call with job name if present, otherwise just data
       if (jobRecord.job_name) {
-        await (this.originalAdd as any)(jobRecord.job_name, jobRecord.data, {
-          // eslint-disable-line @typescript-eslint/no-explicit-any
-          jobId: jobRecord.job_id,
-          attempts: jobRecord.attempts + 1,
-        });
+        await this.originalAdd(jobRecord.job_name, jobRecord.data, opts);
       } else {
-        await (this.originalAdd as any)(jobRecord.data, {
-          // eslint-disable-line @typescript-eslint/no-explicit-any
-          jobId: jobRecord.job_id,
-          attempts: jobRecord.attempts + 1,
-        });
+        await this.originalAdd(jobRecord.data, opts);
       }
+    });
+  }
 
-      // Update status to pending
-      await this.repository.updateJobStatus(
-        this.queueName,
-        this.queueType,
-        jobRecord.job_id,
-        JobStatus.PENDING
-      );
-
-      this.logger.info(`Successfully re-enqueued job: ${jobRecord.job_id}`);
-    } catch (error) {
-      this.logger.error(`Failed to re-enqueue job ${jobRecord.job_id}:`, error);
-      throw error;
+  async getJobState(jobId: string): Promise<string | null> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) {
+      return null;
     }
+    return job.getState();
+  }
+
+  async getListenerHealth(): Promise<ListenerHealth> {
+    // Bull emits lifecycle events locally on the queue's main client
+    // (eclient is created lazily on first access, so it isn't touched here)
+    return this.getRedisClientHealth(this.queue.client);
+  }
+
+  protected async fetchJobsFromRedis(
+    state: BackfillState,
+    start: number,
+    end: number
+  ): Promise<RedisJob[]> {
+    const jobs: Array<BullJob | null> = await this.queue.getJobs(
+      [state],
+      start,
+      end,
+      true
+    );
+
+    // Jobs removed while paging come back as null
+    return jobs
+      .filter((job): job is BullJob => !!job)
+      .map((job) => ({
+        id: this.getJobIdAsString(job.id),
+        // Bull names jobs added without a name '__default__'
+        name: job.name === '__default__' ? undefined : job.name,
+        data: job.data,
+        attemptsMade: job.attemptsMade || 0,
+        maxAttempts: this.getMaxAttempts(job.opts ?? {}),
+        runAt: this.getRunAt({ ...job.opts, timestamp: job.timestamp }),
+      }));
   }
 
   dispose(): void {
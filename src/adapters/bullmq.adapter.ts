@@ -1,19 +1,58 @@
-import { BaseAdapter } from './base.adapter';
-import { JobRecord, JobStatus } from '../types/job';
-import { JobRepository } from '../persistence/repository';
+import { AdapterOptions, BaseAdapter, RedisJob, RemoveOutcome } from './base.adapter';
+import { JobRecord } from '../types/job';
+import { BackfillState, ReEnqueueOptions } from '../types/adapter';
+import { ListenerHealth } from '../types/health';
+import { JobRepository, NewJob } from '../persistence/repository';
 import { Logger } from '../utils/logger';
-import { BullMQQueue, BullJob } from '../types/queue-types';
+import { jobAttributes, withSpan } from '../utils/tracing';
+import { BullMQFlowProducer, BullMQQueue, BullJob } from '../types/queue-types';
 import { QueueEvents } from 'bullmq';
 
+/**
+ * Node of a flow as passed to FlowProducer.add()
+ */
+interface FlowJob {
+  name: string;
+  queueName: string;
+  data?: unknown;
+  prefix?: string;
+  children?: FlowJob[];
+}
+
+/**
+ * Node of a flow as returned by FlowProducer.add(), once its jobs are in Redis
+ */
+interface JobNode {
+  job: BullJob;
+  children?: JobNode[];
+}
+
+/**
+ * FlowProducer methods replaced by attachFlowProducer(), restored on dispose
+ */
+interface AttachedFlowProducer {
+  flowProducer: BullMQFlowProducer;
+  originalAdd: Function;
+  originalAddBulk: Function;
+  add: Function;
+  addBulk: Function;
+}
+
 export class BullMQAdapter extends BaseAdapter {
   declare protected queue: BullMQQueue;
   readonly queueType = 'bullmq' as const;
   private eventHandlers: Map<string, (...args: any[]) => void> = new Map();
   declare protected originalAdd?: BullMQQueue['add'];
+  private flowProducers: AttachedFlowProducer[] = [];
   private queueEvents?: QueueEvents;
 
-  constructor(queue: BullMQQueue, repository: JobRepository, logger: Logger) {
-    super(queue, repository, logger);
+  constructor(
+    queue: BullMQQueue,
+    repository: JobRepository,
+    logger: Logger,
+    options: AdapterOptions = {}
+  ) {
+    super(queue, repository, logger, options);
     this.queue = queue;
   }
 
@@ -29,22 +68,127 @@ export class BullMQAdapter extends BaseAdapter {
       data: unknown,
       opts?: { attempts?: number; jobId?: string; [key: string]: unknown }
     ): Promise<BullJob> => {
+      // Apply limits before enqueueing so rejected jobs never reach Redis
+      const persistable = this.applyLimits(name, data);
+
       // Call original add method
       if (!this.originalAdd) {
         throw new Error('Original add method not found');
       }
       const job = await this.originalAdd(name, data, opts);
 
-      // Extract max attempts from options (BullMQ uses 'attempts' field)
-      const maxAttempts = opts?.attempts;
-
       // Persist to PostgreSQL
-      await this.handleJobCreated(this.getJobIdAsString(job.id), name, data, maxAttempts);
+      if (persistable) {
+        await this.handleJobCreated(
+          this.getJobIdAsString(job.id),
+          persistable.jobName,
+          persistable.data,
+          this.resolveJobOptions(opts),
+          job.parentKey
+        );
+      }
 
       return job;
     };
 
-    this.logger.debug(`Wrapped add method for BullMQ queue: ${this.queueName}`);
+    this.wrapAddBulkMethod();
+
+    this.logger.debug('Wrapped add method');
+  }
+
+  /**
+   * Track the jobs a FlowProducer adds to this queue, with the key of their parent job
+   * Nodes of other queues are left to the adapters of those queues, so a FlowProducer
+   * can be attached to several adapters.
+   */
+  attachFlowProducer(flowProducer: BullMQFlowProducer): void {
+    if (this.flowProducers.some((attached) => attached.flowProducer === flowProducer)) {
+      return;
+    }
+
+    const originalAdd = flowProducer.add.bind(flowProducer);
+    const originalAddBulk = flowProducer.addBulk.bind(flowProducer);
+
+    // Once disposed, a wrapper that another adapter wrapped in turn only passes through
+    const add = async (flow: FlowJob, opts?: unknown): Promise<JobNode> => {
+      if (this.isDisposed) return originalAdd(flow, opts);
+
+      this.validateFlows([flow], flowProducer);
+      const node: JobNode = await originalAdd(flow, opts);
+      await this.handleFlowsCreated([node]);
+      return node;
+    };
+
+    const addBulk = async (flows: FlowJob[]): Promise<JobNode[]> => {
+      if (this.isDisposed) return originalAddBulk(flows);
+
+      this.validateFlows(flows, flowProducer);
+      const nodes: JobNode[] = await originalAddBulk(flows);
+      await this.handleFlowsCreated(nodes);
+      return nodes;
+    };
+
+    flowProducer.add = add;
+    flowProducer.addBulk = addBulk;
+    this.flowProducers.push({ flowProducer, originalAdd, originalAddBulk, add, addBulk });
+
+    this.logger.debug('Attached FlowProducer');
+  }
+
+  /**
+   * Reject a flow before it reaches Redis if one of this queue's jobs exceeds the limits
+   * and the policy is 'reject'; other policies are applied once the flow is added
+   */
+  private validateFlows(flows: FlowJob[], flowProducer: BullMQFlowProducer): void {
+    if (this.limits.oversizedJobPolicy !== 'reject') return;
+
+    const queuePrefix = this.queue.opts?.prefix ?? 'bull';
+    const pending = [...flows];
+    for (let flow = pending.pop(); flow; flow = pending.pop()) {
+      const prefix = flow.prefix ?? flowProducer.opts?.prefix ?? 'bull';
+      if (flow.queueName === this.queueName && prefix === queuePrefix) {
+        this.validateJobData(flow.name, flow.data);
+      }
+      pending.push(...(flow.children ?? []));
+    }
+  }
+
+  /**
+   * Persist the jobs of added flows that belong to this queue, parents and children alike
+   */
+  private async handleFlowsCreated(nodes: JobNode[]): Promise<void> {
+    const newJobs: NewJob[] = [];
+    const pending = [...nodes];
+    for (let node = pending.pop(); node; node = pending.pop()) {
+      pending.push(...(node.children ?? []));
+      if (!this.isOwnJob(node.job)) continue;
+
+      const persistable = this.applyLimits(node.job.name, node.job.data);
+      if (persistable) {
+        // Flows don't apply queue defaults, so the job's own options are the full set
+        const { jobId: _jobId, ...opts } = node.job.opts ?? {};
+        newJobs.push({
+          jobId: this.getJobIdAsString(node.job.id),
+          jobName: persistable.jobName,
+          data: persistable.data,
+          maxAttempts: this.getMaxAttempts(opts),
+          parentKey: node.job.parentKey,
+          opts,
+        });
+      }
+    }
+
+    await this.handleJobsCreated(newJobs);
+  }
+
+  /**
+   * Whether a job added by a FlowProducer was added to this queue (same name and prefix)
+   */
+  private isOwnJob(job: BullJob): boolean {
+    if (job.queueQualifiedName && this.queue.qualifiedName) {
+      return job.queueQualifiedName === this.queue.qualifiedName;
+    }
+    return job.queueName === this.queueName;
   }
 
   attachEventListeners(): void {
@@ -96,19 +240,20 @@ export class BullMQAdapter extends BaseAdapter {
 
     // Add error handler to catch any QueueEvents errors
     this.queueEvents.on('error', (error: Error) => {
-      this.logger.error(`QueueEvents error for queue ${this.queueName}:`, error);
+      this.logger.error('QueueEvents error', { err: error });
     });
 
-    this.logger.debug(
-      `Attached event listeners for BullMQ queue: ${this.queueName} via QueueEvents`
-    );
+    this.logger.debug('Attached event listeners via QueueEvents');
   }
 
   /**
    * Atomically check if job is processed and remove it from Redis
    * Uses Lua script to prevent race conditions
    */
-  private async atomicRemoveJob(jobId: string): Promise<boolean> {
+  private async atomicRemoveJob(
+    jobId: string,
+    replaceFinished = false
+  ): Promise<RemoveOutcome> {
     const client = this.queue.client as any; // Redis client doesn't have full types
     const jobKey = `bull:${this.queueName}:${jobId}`;
 
@@ -117,15 +262,16 @@ export class BullMQAdapter extends BaseAdapter {
       local jobKey = KEYS[1]
       local queueName = ARGV[1]
       local jobId = ARGV[2]
+      local replaceFinished = ARGV[3] == '1'
 
       local success, jobData = pcall(redis.call, 'HGETALL', jobKey)
       if not success then
         return -1  -- Error occurred
       end
 
-      -- If job doesn't exist, return 0 (already removed)
+      -- If job doesn't exist, return 2 (already removed or lost from Redis)
       if #jobData == 0 then
-        return 0
+        return 2
       end
 
       -- Parse job data to check if processed
@@ -146,7 +292,8 @@ export class BullMQAdapter extends BaseAdapter {
       end
 
       -- If job is completed or failed, don't remove (already processed)
-      if finishedOn or failedReason then
+      -- unless it is being replaced on purpose (manual retry)
+      if (finishedOn or failedReason) and not replaceFinished then
         return 0
       end
 
@@ -164,88 +311,177 @@ export class BullMQAdapter extends BaseAdapter {
       pcall(redis.call, 'ZREM', prefix .. ':active', jobId)
       pcall(redis.call, 'ZREM', prefix .. ':prioritized', jobId)
       pcall(redis.call, 'LREM', prefix .. ':wait', 0, jobId)
+      pcall(redis.call, 'ZREM', prefix .. ':completed', jobId)
+      pcall(redis.call, 'ZREM', prefix .. ':failed', jobId)
 
       return 1
     `;
 
     try {
-      const result = await client.eval(script, 1, jobKey, this.queueName, jobId);
-      return result === 1;
-    } catch (error) {
-      this.logger.warn(
-        `Lua script failed for job ${jobId}, falling back to non-atomic:`,
-        error
+      const result = await client.eval(
+        script,
+        1,
+        jobKey,
+        this.queueName,
+        jobId,
+        replaceFinished ? '1' : '0'
       );
+      if (result === 1) return 'removed';
+      if (result === 2) return 'missing';
+      return 'skipped';
+    } catch (error) {
+      this.logger.warn('Lua script failed, falling back to non-atomic removal', {
+        jobId,
+        err: error,
+      });
       // Fallback to non-atomic removal
       try {
         const job = await this.queue.getJob(jobId);
-        if (job) {
-          const state = await job.getState();
-          if (state !== 'completed' && state !== 'failed') {
-            await job.remove();
-            return true;
-          }
+        if (!job) {
+          return 'missing';
+        }
+        const state = await job.getState();
+        if (replaceFinished || (state !== 'completed' && state !== 'failed')) {
+          await job.remove();
+          return 'removed';
         }
       } catch (_fallbackError) {
         // Job doesn't exist, which is fine
       }
-      return false;
+      return 'skipped';
     }
   }
 
-  async reEnqueueJob(jobRecord: JobRecord): Promise<void> {
-    try {
-      this.logger.info(`Re-enqueueing stuck job: ${jobRecord.job_id}`);
+  async reEnqueueJob(
+    jobRecord: JobRecord,
+    options: ReEnqueueOptions = {}
+  ): Promise<void> {
+    return this.traceReEnqueue(jobRecord, async () => {
+      try {
+        this.logger.info('Re-enqueueing stuck job', { jobId: jobRecord.job_id });
+
+        // Re-verify job status from PostgreSQL to prevent race conditions
+        // Job could have completed between marking as stuck and now
+        const currentJob = await this.repository.getJob(
+          this.queueName,
+          this.queueType,
+          jobRecord.job_id
+        );
 
-      // Re-verify job status from PostgreSQL to prevent race conditions
-      // Job could have completed between marking as stuck and now
-      const currentJob = await this.repository.getJob(
-        this.queueName,
-        this.queueType,
-        jobRecord.job_id
-      );
+        if (!currentJob || currentJob.status !== 'stuck') {
+          this.logger.info('Job status changed, skipping re-enqueue', {
+            jobId: jobRecord.job_id,
+            status: currentJob?.status ?? null,
+          });
+          return;
+        }
 
-      if (!currentJob || currentJob.status !== 'stuck') {
-        this.logger.info(
-          `Job ${jobRecord.job_id} status changed (${currentJob?.status || 'not found'}), ` +
-            `skipping re-enqueue`
+        // Atomically check and remove job from Redis if not processed
+        const outcome = await withSpan(
+          'jobguard.adapter.removeJob',
+          jobAttributes(jobRecord),
+          async (span) => {
+            const removed = await this.atomicRemoveJob(
+              jobRecord.job_id,
+              options.replaceFinished
+            );
+            span?.setAttribute('jobguard.remove_outcome', removed);
+            return removed;
+          }
         );
-        return;
-      }
 
-      // Atomically check and remove job from Redis if not processed
-      const removed = await this.atomicRemoveJob(jobRecord.job_id);
+        if (
+          outcome === 'skipped' ||
+          (outcome === 'missing' && !options.requeueIfMissing)
+        ) {
+          this.logger.info(
+            'Job already processed or missing from Redis, skipping re-enqueue',
+            {
+              jobId: jobRecord.job_id,
+            }
+          );
+          return;
+        }
+
+        // Safe to re-enqueue now - job was removed atomically (or is gone from Redis)
+        if (!this.originalAdd) {
+          throw new Error('Original add method not found');
+        }
+
+        await this.originalAdd(
+          jobRecord.job_name || 'default',
+          jobRecord.data,
+          this.getReEnqueueOptions(jobRecord, options)
+        );
 
-      if (!removed) {
-        this.logger.info(
-          `Job ${jobRecord.job_id} already processed or doesn't exist, skipping re-enqueue`
+        // Update status to pending and record the re-enqueue in the job history
+        await this.repository.markJobReEnqueued(
+          this.queueName,
+          this.queueType,
+          jobRecord.job_id
         );
-        return;
+
+        this.logger.info('Re-enqueued job', { jobId: jobRecord.job_id });
+      } catch (error) {
+        this.logger.error('Failed to re-enqueue job', {
+          jobId: jobRecord.job_id,
+          err: error,
+        });
+        throw error;
       }
+    });
+  }
 
-      // Safe to re-enqueue now - job was removed atomically with incremented attempts
+  async dispatchJob(jobRecord: JobRecord): Promise<void> {
+    return this.traceDispatch(jobRecord, async () => {
+      // The job is already tracked, so it bypasses the wrapped add method
       if (!this.originalAdd) {
         throw new Error('Original add method not found');
       }
 
       await this.originalAdd(jobRecord.job_name || 'default', jobRecord.data, {
+        ...jobRecord.opts,
         jobId: jobRecord.job_id,
-        attempts: jobRecord.attempts + 1,
       });
+    });
+  }
 
-      // Update status to pending
-      await this.repository.updateJobStatus(
-        this.queueName,
-        this.queueType,
-        jobRecord.job_id,
-        JobStatus.PENDING
-      );
+  async getJobState(jobId: string): Promise<string | null> {
+    // BullMQ reports 'unknown' for jobs that don't exist
+    const state = await this.queue.getJobState(jobId);
+    return state === 'unknown' ? null : state;
+  }
 
-      this.logger.info(`Successfully re-enqueued job: ${jobRecord.job_id}`);
-    } catch (error) {
-      this.logger.error(`Failed to re-enqueue job ${jobRecord.job_id}:`, error);
-      throw error;
+  async getListenerHealth(): Promise<ListenerHealth> {
+    if (!this.queueEvents) {
+      return { connected: false, state: 'not_started' };
     }
+    return this.getRedisClientHealth(await this.queueEvents.client);
+  }
+
+  protected async fetchJobsFromRedis(
+    state: BackfillState,
+    start: number,
+    end: number
+  ): Promise<RedisJob[]> {
+    const jobs: Array<BullJob | undefined> = await this.queue.getJobs(
+      [state],
+      start,
+      end,
+      true
+    );
+
+    // Jobs removed while paging are left out of the page
+    return jobs
+      .filter((job): job is BullJob => !!job)
+      .map((job) => ({
+        id: this.getJobIdAsString(job.id),
+        name: job.name,
+        data: job.data,
+        attemptsMade: job.attemptsMade || 0,
+        maxAttempts: this.getMaxAttempts(job.opts ?? {}),
+        runAt: this.getRunAt({ ...job.opts, timestamp: job.timestamp }),
+      }));
   }
 
   async dispose(): Promise<void> {
@@ -261,6 +497,17 @@ export class BullMQAdapter extends BaseAdapter {
     }
     this.eventHandlers.clear();
 
+    // A FlowProducer wrapped again by another adapter keeps that adapter's wrapper
+    for (const attached of this.flowProducers) {
+      if (attached.flowProducer.add === attached.add) {
+        attached.flowProducer.add = attached.originalAdd;
+      }
+      if (attached.flowProducer.addBulk === attached.addBulk) {
+        attached.flowProducer.addBulk = attached.originalAddBulk;
+      }
+    }
+    this.flowProducers = [];
+
     super.dispose();
   }
 }
@@ -3,6 +3,7 @@ import { JobRepository } from '../persistence/repository';
 import { Logger } from '../utils/logger';
 import { UnsupportedQueueError } from '../errors/errors';
 import { AnyQueue, isBullQueue, isBullMQQueue, isBeeQueue } from '../types/queue-types';
+import { AdapterOptions } from './base.adapter';
 
 export class QueueDetector {
   detectQueueType(queue: AnyQueue): 'bull' | 'bullmq' | 'bee' | 'unknown' {
@@ -25,7 +26,8 @@ export class QueueDetector {
   createAdapter(
     queue: AnyQueue,
     repository: JobRepository,
-    logger: Logger
+    logger: Logger,
+    options: AdapterOptions = {}
   ): QueueAdapter {
     const type = this.detectQueueType(queue);
 
@@ -34,17 +36,17 @@ export class QueueDetector {
         // Lazy load to avoid requiring all dependencies
         // eslint-disable-next-line @typescript-eslint/no-var-requires
         const { BullAdapter } = require('./bull.adapter');
-        return new BullAdapter(queue, repository, logger) as QueueAdapter;
+        return new BullAdapter(queue, repository, logger, options) as QueueAdapter;
       }
       case 'bullmq': {
         // eslint-disable-next-line @typescript-eslint/no-var-requires
         const { BullMQAdapter } = require('./bullmq.adapter');
-        return new BullMQAdapter(queue, repository, logger) as QueueAdapter;
+        return new BullMQAdapter(queue, repository, logger, options) as QueueAdapter;
       }
       case 'bee': {
         // eslint-disable-next-line @typescript-eslint/no-var-requires
         const { BeeAdapter } = require('./bee.adapter');
-        return new BeeAdapter(queue, repository, logger) as QueueAdapter;
+        return new BeeAdapter(queue, repository, logger, options) as QueueAdapter;
       }
       default:
         throw new UnsupportedQueueError(type);
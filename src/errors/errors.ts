@@ -39,3 +39,68 @@ export class ReconciliationError extends JobGuardError {
     this.name = 'ReconciliationError';
   }
 }
+
+export class JobNotFoundError extends JobGuardError {
+  constructor(
+    public readonly jobId: string,
+    public readonly queueName: string
+  ) {
+    super(`Job not found: ${queueName}/${jobId}`);
+    this.name = 'JobNotFoundError';
+  }
+}
+
+export class JobValidationError extends JobGuardError {
+  constructor(
+    message: string,
+    public readonly reason: 'name_too_long' | 'data_too_large' | 'not_serializable'
+  ) {
+    super(message);
+    this.name = 'JobValidationError';
+  }
+}
+
+export class SpoolLockedError extends JobGuardError {
+  constructor(
+    public readonly filePath: string,
+    public readonly owner: string
+  ) {
+    super(
+      `Spool file ${filePath} is in use by ${owner}. Give each process that guards ` +
+        `the queue its own spool.directory.`
+    );
+    this.name = 'SpoolLockedError';
+  }
+}
+
+export class MigrationError extends JobGuardError {
+  constructor(
+    message: string,
+    public readonly cause?: Error
+  ) {
+    super(`Migration error: ${message}`);
+    this.name = 'MigrationError';
+  }
+}
+
+/**
+ * databaseVersion is 0 for a database without recorded migrations (e.g. set up by hand)
+ */
+export class SchemaVersionError extends JobGuardError {
+  constructor(
+    public readonly databaseVersion: number,
+    public readonly expectedVersion: number
+  ) {
+    super(
+      databaseVersion > expectedVersion
+        ? `Database schema version ${databaseVersion} is newer than this version of ` +
+            `JobGuard supports (${expectedVersion}). Upgrade JobGuard before starting.`
+        : databaseVersion === 0
+          ? `Database schema version unknown (no JobGuard migrations recorded), expected ` +
+            `version ${expectedVersion}. Run JobGuard.migrate() or enable autoMigrate.`
+          : `Database schema version ${databaseVersion} is behind the expected version ` +
+            `${expectedVersion}. Run JobGuard.migrate() or enable autoMigrate.`
+    );
+    this.name = 'SchemaVersionError';
+  }
+}
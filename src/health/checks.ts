@@ -0,0 +1,118 @@
+import { CircuitBreakerMetrics } from '../utils/circuit-breaker';
+import { ReconcilerStatus } from '../reconciliation/reconciler';
+import { SpoolMetrics } from '../persistence/spool';
+import { PoolStats } from '../types/events';
+import {
+  HealthReport,
+  HealthStatus,
+  ListenerHealth,
+  PostgresHealth,
+} from '../types/health';
+import { worstStatus } from './handler';
+
+/**
+ * Everything a health report is derived from
+ */
+export interface HealthSnapshot {
+  queueName: string;
+  queueType: string;
+  postgres: PostgresHealth;
+  circuitBreaker: CircuitBreakerMetrics;
+  pool: PoolStats;
+  poolExhausted: boolean;
+  reconciler?: ReconcilerStatus; // Undefined when reconciliation is disabled
+  cleanup: { enabled: boolean; consecutiveFailures: number; maxFailures: number };
+  listener: ListenerHealth;
+  spool?: SpoolMetrics; // Undefined when the spool is disabled
+}
+
+/**
+ * Run a probe with a time limit
+ * @throws Error if the probe doesn't settle within timeoutMs
+ */
+export async function withTimeout<T>(
+  probe: Promise<T>,
+  timeoutMs: number,
+  what: string
+): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timer = setTimeout(
+      () => reject(new Error(`${what} timed out after ${timeoutMs}ms`)),
+      timeoutMs
+    );
+  });
+
+  try {
+    return await Promise.race([probe, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function breakerStatus(state: string): HealthStatus {
+  if (state === 'open') return 'down';
+  if (state === 'half_open') return 'degraded';
+  return 'ok';
+}
+
+/**
+ * Grade each component and the instance as a whole
+ *
+ * down: PostgreSQL is unreachable, the breaker is open or the pool rejects operations.
+ * degraded: reconciliation or cleanup stopped after repeated failures, the event
+ * connection is not ready, connections are being waited for, or writes are spooled.
+ */
+export function evaluateHealth(snapshot: HealthSnapshot): HealthReport {
+  const { circuitBreaker, pool, reconciler, cleanup, listener, spool } = snapshot;
+  const cleanupDisabled = cleanup.consecutiveFailures >= cleanup.maxFailures;
+
+  const checks: HealthReport['checks'] = {
+    postgres: snapshot.postgres,
+    circuitBreaker: {
+      status: breakerStatus(circuitBreaker.state),
+      state: circuitBreaker.state,
+      consecutiveFailures: circuitBreaker.failureCount,
+    },
+    pool: {
+      status: snapshot.poolExhausted ? 'down' : pool.waiting > 0 ? 'degraded' : 'ok',
+      ...pool,
+      exhausted: snapshot.poolExhausted,
+    },
+    reconciler: {
+      status: reconciler?.paused ? 'degraded' : 'ok',
+      enabled: reconciler?.running ?? false,
+      paused: reconciler?.paused ?? false,
+      leader: reconciler?.leader ?? false,
+      consecutiveFailures: reconciler?.consecutiveFailures ?? 0,
+      lastRunAt: reconciler?.lastRunAt,
+      lastSuccessAt: reconciler?.lastSuccessAt,
+    },
+    cleanup: {
+      status: cleanup.enabled && cleanupDisabled ? 'degraded' : 'ok',
+      enabled: cleanup.enabled,
+      disabled: cleanup.enabled && cleanupDisabled,
+      consecutiveFailures: cleanup.consecutiveFailures,
+    },
+    adapter: {
+      status: listener.connected ? 'ok' : 'degraded',
+      ...listener,
+    },
+  };
+
+  if (spool) {
+    checks.spool = {
+      status: spool.depth > 0 ? 'degraded' : 'ok',
+      depth: spool.depth,
+      oldestEntryAgeMs: spool.oldestEntryAgeMs,
+    };
+  }
+
+  return {
+    status: worstStatus(Object.values(checks).map((check) => check.status)),
+    queueName: snapshot.queueName,
+    queueType: snapshot.queueType,
+    checkedAt: new Date(),
+    checks,
+  };
+}
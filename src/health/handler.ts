@@ -0,0 +1,87 @@
+import { ServerResponse } from 'http';
+import { HealthReport, HealthStatus } from '../types/health';
+
+export interface HealthHandlerOptions {
+  /**
+   * Lowest status answered with 503 instead of 200
+   * Use 'down' for liveness probes and 'degraded' for stricter readiness probes
+   */
+  failOn?: Exclude<HealthStatus, 'ok'>; // Default: 'down'
+}
+
+/**
+ * Fastify reply, or anything else with the same chainable API
+ */
+interface ReplyLike {
+  code(statusCode: number): ReplyLike;
+  header(name: string, value: string): ReplyLike;
+  send(body: string): unknown;
+}
+
+/**
+ * Request handler for Express, Fastify and the plain http module
+ * The request is not read, so any request object can be passed
+ */
+export type HealthHandler = (
+  req: unknown,
+  res: ServerResponse | ReplyLike
+) => Promise<unknown>;
+
+const SEVERITY: Record<HealthStatus, number> = { ok: 0, degraded: 1, down: 2 };
+
+/**
+ * The worse of the given statuses
+ */
+export function worstStatus(statuses: HealthStatus[]): HealthStatus {
+  return statuses.reduce<HealthStatus>(
+    (worst, status) => (SEVERITY[status] > SEVERITY[worst] ? status : worst),
+    'ok'
+  );
+}
+
+function isReply(res: ServerResponse | ReplyLike): res is ReplyLike {
+  return typeof (res as ReplyLike).code === 'function';
+}
+
+/**
+ * Serve a health report as JSON with 200, or 503 once it reaches options.failOn
+ */
+export function createHealthHandler(
+  check: () => Promise<HealthReport>,
+  options: HealthHandlerOptions = {}
+): HealthHandler {
+  const failOn = options.failOn ?? 'down';
+
+  return async (_req, res) => {
+    let statusCode: number;
+    let body: string;
+
+    try {
+      const report = await check();
+      statusCode = SEVERITY[report.status] >= SEVERITY[failOn] ? 503 : 200;
+      body = JSON.stringify(report);
+    } catch (error) {
+      // Not initialized or shut down
+      statusCode = 503;
+      body = JSON.stringify({
+        status: 'down',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    if (isReply(res)) {
+      return res
+        .code(statusCode)
+        .header('Content-Type', 'application/json')
+        .header('Cache-Control', 'no-store')
+        .send(body);
+    }
+
+    res.writeHead(statusCode, {
+      'Content-Type': 'application/json',
+      'Cache-Control': 'no-store',
+    });
+    res.end(body);
+    return undefined;
+  };
+}
@@ -1,5 +1,6 @@
 // Main exports
 export { JobGuard } from './jobguard';
+export { JobGuardManager } from './manager';
 
 // Type exports
 export type {
@@ -7,13 +8,58 @@ export type {
   PostgresConfig,
   ReconciliationConfig,
   LoggingConfig,
+  JobGuardLogger,
+  LogContext,
   PersistenceConfig,
+  LimitsConfig,
+  OversizedJobPolicy,
+  SpoolConfig,
+  MetricsConfig,
+  OutboxConfig,
+  PartitioningConfig,
+  RetentionConfig,
+  ArchiveConfig,
 } from './types/config';
 
-export type { JobRecord, JobStats } from './types/job';
+export type {
+  JobRecord,
+  JobStats,
+  AggregatedJobStats,
+  JobEvent,
+  JobEventType,
+  JobFilter,
+  JobPage,
+  RecordJobInput,
+  EnqueueOptions,
+  RetryOptions,
+  RetryResult,
+} from './types/job';
 export { JobStatus } from './types/job';
 
-export type { QueueAdapter } from './types/adapter';
+export type {
+  QueueAdapter,
+  BackfillOptions,
+  BackfillResult,
+  BackfillState,
+  AdapterMetrics,
+} from './types/adapter';
+
+export type {
+  HealthStatus,
+  HealthReport,
+  PostgresHealth,
+  CircuitBreakerHealth,
+  PoolHealth,
+  ReconcilerHealth,
+  CleanupHealth,
+  AdapterHealth,
+  ListenerHealth,
+  SpoolHealth,
+} from './types/health';
+export type { HealthHandler, HealthHandlerOptions } from './health/handler';
+export type { JobGuardEvents, ReconcileSummary, PoolStats } from './types/events';
+export type { Migration, MigrationResult } from './persistence/migrator';
+export type { SpoolMetrics } from './persistence/spool';
 
 // Error exports
 export {
@@ -22,4 +68,9 @@ export {
   PostgresConnectionError,
   CircuitBreakerOpenError,
   ReconciliationError,
+  MigrationError,
+  SchemaVersionError,
+  JobValidationError,
+  JobNotFoundError,
+  SpoolLockedError,
 } from './errors/errors';
@@ -1,21 +1,88 @@
-import { Pool } from 'pg';
-import { JobGuardConfig } from './types/config';
-import { JobStats } from './types/job';
-import { QueueAdapter } from './types/adapter';
+import { ClientBase, Pool } from 'pg';
+import {
+  ArchiveConfig,
+  JobGuardConfig,
+  LoggingConfig,
+  PersistenceConfig,
+  PostgresConfig,
+} from './types/config';
+import {
+  EnqueueOptions,
+  JobEvent,
+  JobFilter,
+  JobPage,
+  JobRecord,
+  JobStats,
+  JobStatus,
+  RecordJobInput,
+  RetryOptions,
+  RetryResult,
+} from './types/job';
+import { BackfillOptions, BackfillResult, QueueAdapter } from './types/adapter';
 import { QueueDetector } from './adapters/detector';
+import { BullMQAdapter } from './adapters/bullmq.adapter';
 import { JobRepository } from './persistence/repository';
 import { ConnectionManager } from './persistence/connection';
+import {
+  loadMigrations,
+  Migration,
+  Migrator,
+  MigrationResult,
+} from './persistence/migrator';
+import { resolveSchemaNames, SchemaNames } from './persistence/schema-names';
+import { PartitionManager } from './persistence/partitions';
+import {
+  appendToArchiveFile,
+  resolveRetention,
+  RetentionDays,
+  validateArchiveConfig,
+} from './persistence/retention';
+import { JobSpool, SpoolMetrics } from './persistence/spool';
 import { Reconciler } from './reconciliation/reconciler';
+import { LeaderElection } from './reconciliation/leader-election';
+import { OutboxDispatcher } from './reconciliation/outbox-dispatcher';
 import { Logger } from './utils/logger';
 import { CircuitBreaker } from './utils/circuit-breaker';
-import { AnyQueue } from './types/queue-types';
+import { isJobDataStub } from './utils/job-limits';
+import { AnyQueue, BullMQFlowProducer } from './types/queue-types';
+import { JobGuardError, JobNotFoundError } from './errors/errors';
+import { collectMetrics } from './metrics/collector';
+import { MetricFamily, renderPrometheus } from './metrics/prometheus';
+import { MetricsServer } from './metrics/server';
+import { JobGuardEvents } from './types/events';
+import { HealthReport, ListenerHealth, PostgresHealth } from './types/health';
+import { evaluateHealth, withTimeout } from './health/checks';
+import {
+  createHealthHandler,
+  HealthHandler,
+  HealthHandlerOptions,
+} from './health/handler';
+import { TypedEventEmitter } from './utils/typed-event-emitter';
+
+/**
+ * Components a JobGuardManager shares between the JobGuards of its queues
+ * @internal
+ */
+export interface SharedResources {
+  connectionManager: ConnectionManager;
+  circuitBreaker: CircuitBreaker;
+  repository: JobRepository;
+  logger: Logger;
+  reconciler?: Reconciler; // Undefined when reconciliation is disabled
+  runCleanup: boolean; // Cleanup covers every queue, so only one JobGuard runs it
+  queueNames: Set<string>; // Queues already managed - names must be unique per manager
+}
 
-export class JobGuard {
+export class JobGuard extends TypedEventEmitter<JobGuardEvents> {
   private connectionManager: ConnectionManager;
   private pool: Pool;
   private adapter: QueueAdapter;
   private repository: JobRepository;
   private reconciler?: Reconciler;
+  private outboxDispatcher?: OutboxDispatcher;
+  private partitions?: PartitionManager;
+  private spool?: JobSpool;
+  private metricsServer?: MetricsServer;
   private logger: Logger;
   private circuitBreaker: CircuitBreaker;
   private cleanupInterval?: NodeJS.Timeout;
@@ -23,9 +90,16 @@ export class JobGuard {
   private config: JobGuardConfig;
   private cleanupFailures = 0;
   private readonly MAX_CONSECUTIVE_FAILURES = 3;
+  private readonly HEALTH_PROBE_TIMEOUT_MS = 3000;
+  private readonly ARCHIVE_BATCH_SIZE = 1000; // Jobs written to an archive file per transaction
   private initializationPromise?: Promise<void>;
+  private shared?: SharedResources;
+  private names: SchemaNames;
+  private retention: RetentionDays;
+
+  private constructor(queue: AnyQueue, config: JobGuardConfig, shared?: SharedResources) {
+    super();
 
-  private constructor(queue: AnyQueue, config: JobGuardConfig) {
     // Validate inputs
     if (!queue) {
       throw new Error('Queue instance is required');
@@ -36,32 +110,81 @@ export class JobGuard {
     }
 
     this.config = config;
+    this.shared = shared;
+    this.names = resolveSchemaNames(config.persistence);
+    this.retention = resolveRetention(config.persistence);
+    validateArchiveConfig(config.persistence?.archive);
+
+    if (shared) {
+      this.logger = shared.logger;
+      this.connectionManager = shared.connectionManager;
+      this.pool = this.connectionManager.getPool();
+      this.circuitBreaker = shared.circuitBreaker;
+      this.repository = shared.repository;
+    } else {
+      // Initialize logger first
+      this.logger = new Logger(config.logging);
+
+      // Setup PostgreSQL connection
+      this.connectionManager = new ConnectionManager(config.postgres, this.logger, this);
+      this.pool = this.connectionManager.getPool();
+
+      // Initialize circuit breaker
+      this.circuitBreaker = new CircuitBreaker({
+        threshold: 5,
+        timeout: 60000,
+        name: 'jobguard-postgres',
+        events: this,
+      });
+
+      // Create repository with connection manager for health checks
+      this.repository = new JobRepository(
+        this.pool,
+        this.circuitBreaker,
+        this.logger,
+        this.connectionManager,
+        this.names,
+        config.persistence?.partitioning?.enabled
+      );
+    }
 
-    // Initialize logger first
-    this.logger = new Logger(config.logging);
-
-    // Setup PostgreSQL connection
-    this.connectionManager = new ConnectionManager(config.postgres, this.logger);
-    this.pool = this.connectionManager.getPool();
+    if (config.persistence?.partitioning?.enabled) {
+      this.partitions = new PartitionManager(
+        this.pool,
+        this.logger,
+        this.names,
+        config.persistence.partitioning,
+        config.persistence.archive
+      );
+    }
 
-    // Initialize circuit breaker
-    this.circuitBreaker = new CircuitBreaker({
-      threshold: 5,
-      timeout: 60000,
-      name: 'jobguard-postgres',
-    });
+    // Optional local spool for writes made while PostgreSQL is unavailable
+    if (config.spool?.enabled) {
+      this.spool = new JobSpool(this.repository, this.logger, config.spool);
+    }
 
-    // Create repository with connection manager for health checks
-    this.repository = new JobRepository(
-      this.pool,
-      this.circuitBreaker,
-      this.logger,
-      this.connectionManager
-    );
+    // A manager serves the metrics of all its queues itself
+    if (config.metrics?.enabled && !shared) {
+      this.metricsServer = new MetricsServer(
+        () => this.metrics(),
+        this.logger,
+        config.metrics
+      );
+    }
 
     // Detect and create adapter
     const detector = new QueueDetector();
-    this.adapter = detector.createAdapter(queue, this.repository, this.logger);
+    this.adapter = detector.createAdapter(queue, this.repository, this.logger, {
+      limits: config.limits,
+      spool: this.spool,
+      events: this,
+    });
+
+    // Tag JobGuard's own entries with the queue they belong to
+    this.logger = this.logger.child({
+      queue: this.adapter.queueName,
+      queueType: this.adapter.queueType,
+    });
   }
 
   /**
@@ -76,6 +199,74 @@ export class JobGuard {
     return instance;
   }
 
+  /**
+   * Create and initialize a JobGuard that uses a JobGuardManager's shared components
+   * The manager connects, migrates and starts reconciliation; see JobGuardManager.create
+   * @throws JobGuardError if the manager already has a queue with the same name
+   * @internal
+   */
+  static async createShared(
+    queue: AnyQueue,
+    config: JobGuardConfig,
+    shared: SharedResources
+  ): Promise<JobGuard> {
+    const instance = new JobGuard(queue, config, shared);
+    const queueName = instance.getQueueName();
+
+    if (shared.queueNames.has(queueName)) {
+      throw new JobGuardError(`Queue ${queueName} is already managed`);
+    }
+
+    shared.queueNames.add(queueName);
+    try {
+      await instance.initialize();
+    } catch (error) {
+      shared.queueNames.delete(queueName);
+      throw error;
+    }
+    return instance;
+  }
+
+  /**
+   * Apply pending schema migrations without starting JobGuard
+   * Safe to run from several processes at once - runners are serialized with an advisory lock
+   * @param postgres - PostgreSQL connection configuration
+   * @param logging - Optional logging configuration
+   * @param persistence - Schema and table name, if not the defaults, and partitioning
+   * @returns Versions applied and the resulting schema version
+   */
+  static async migrate(
+    postgres: PostgresConfig | string | Pool,
+    logging?: LoggingConfig,
+    persistence?: Pick<PersistenceConfig, 'schema' | 'tableName' | 'partitioning'>
+  ): Promise<MigrationResult> {
+    const names = resolveSchemaNames(persistence);
+    const logger = new Logger(logging);
+    const connectionManager = new ConnectionManager(postgres, logger);
+
+    try {
+      const migrator = new Migrator(
+        connectionManager.getPool(),
+        logger,
+        names,
+        persistence?.partitioning
+      );
+      return await migrator.migrate();
+    } finally {
+      await connectionManager.close();
+    }
+  }
+
+  /**
+   * SQL of every migration, for applying with psql or another migration tool
+   * @param persistence - Schema and table name, if not the defaults
+   */
+  static getMigrations(
+    persistence?: Pick<PersistenceConfig, 'schema' | 'tableName'>
+  ): Migration[] {
+    return loadMigrations(resolveSchemaNames(persistence));
+  }
+
   private async initialize(): Promise<void> {
     // Prevent multiple initializations
     if (this.initializationPromise) {
@@ -84,32 +275,81 @@ export class JobGuard {
 
     this.initializationPromise = (async () => {
       try {
-        // Test PostgreSQL connection before proceeding
-        await this.connectionManager.testConnection();
+        if (!this.shared) {
+          // Test PostgreSQL connection before proceeding
+          await this.connectionManager.testConnection();
+
+          // Bring the schema up to date, or refuse to start on a version mismatch
+          const migrator = new Migrator(
+            this.pool,
+            this.logger,
+            this.names,
+            this.config.persistence?.partitioning
+          );
+          if (this.config.autoMigrate) {
+            await migrator.migrate();
+          } else {
+            await migrator.verify();
+          }
+        }
+
+        // Partitions are maintained for every queue, like cleanup, by a single JobGuard
+        if (this.partitions && (this.shared?.runCleanup ?? true)) {
+          await this.partitions.createPartitions();
+          this.partitions.start();
+        }
+
+        // Recover writes spooled by a previous run before tracking new ones
+        if (this.spool) {
+          await this.spool.open(`${this.adapter.queueType}-${this.adapter.queueName}`);
+        }
 
         // Initialize adapter
         this.adapter.initialize();
 
         // Setup reconciliation
-        if (this.config.reconciliation?.enabled !== false) {
+        if (this.shared) {
+          this.reconciler = this.shared.reconciler;
+          this.reconciler?.addQueue(this.adapter);
+        } else if (this.config.reconciliation?.enabled !== false) {
           this.reconciler = new Reconciler(
             this.repository,
             this.adapter,
             this.config.reconciliation || {},
-            this.logger
+            this.logger,
+            new LeaderElection(this.pool, this.logger, this.names),
+            this
           );
           this.reconciler.start();
         }
 
+        // Add committed outbox jobs to the queue
+        if (this.config.outbox?.enabled) {
+          this.outboxDispatcher = new OutboxDispatcher(
+            this.repository,
+            this.adapter,
+            this.logger,
+            this.config.outbox
+          );
+          this.outboxDispatcher.start();
+        }
+
         // Setup cleanup
-        if (this.config.persistence?.cleanupEnabled !== false) {
+        if (
+          this.config.persistence?.cleanupEnabled !== false &&
+          (this.shared?.runCleanup ?? true)
+        ) {
           this.setupCleanup(this.config.persistence);
         }
 
+        if (this.metricsServer) {
+          await this.metricsServer.start();
+        }
+
         this.initialized = true;
         this.logger.info('JobGuard initialized successfully');
       } catch (error) {
-        this.logger.error('JobGuard initialization failed:', error);
+        this.logger.error('JobGuard initialization failed', { err: error });
         throw error;
       }
     })();
@@ -131,36 +371,32 @@ export class JobGuard {
     }
   }
 
-  private setupCleanup(
-    config: { retentionDays?: number; cleanupIntervalMs?: number } = {}
-  ): void {
+  private setupCleanup(config: PersistenceConfig = {}): void {
     const intervalMs = config.cleanupIntervalMs || 3600000; // 1 hour
-    const retentionDays = config.retentionDays || 7;
+    const retention = this.retention;
 
     this.cleanupInterval = setInterval(() => {
       void (async () => {
         // Check if cleanup has been disabled due to consecutive failures
         if (this.cleanupFailures >= this.MAX_CONSECUTIVE_FAILURES) {
           this.logger.error(
-            `Cleanup disabled after ${this.MAX_CONSECUTIVE_FAILURES} consecutive failures. ` +
-              `Manual intervention required.`
+            'Cleanup disabled after consecutive failures. Manual intervention required.',
+            { failures: this.cleanupFailures }
           );
           return;
         }
 
         try {
-          const deleted = await this.repository.deleteOldJobs(retentionDays);
-          if (deleted > 0) {
-            this.logger.info(`Cleaned up ${deleted} old jobs`);
-          }
+          await this.removeExpiredJobs(config.archive);
           // Reset failure counter on success
           this.cleanupFailures = 0;
         } catch (error) {
           this.cleanupFailures++;
-          this.logger.error(
-            `Cleanup failed (${this.cleanupFailures}/${this.MAX_CONSECUTIVE_FAILURES}):`,
-            error
-          );
+          this.logger.error('Cleanup failed', {
+            failures: this.cleanupFailures,
+            maxFailures: this.MAX_CONSECUTIVE_FAILURES,
+            err: error,
+          });
 
           if (this.cleanupFailures >= this.MAX_CONSECUTIVE_FAILURES) {
             this.logger.error(
@@ -174,9 +410,47 @@ export class JobGuard {
     // Don't prevent process from exiting
     this.cleanupInterval.unref();
 
-    this.logger.debug(
-      `Cleanup scheduled: ${intervalMs}ms interval, ${retentionDays} days retention`
-    );
+    this.logger.debug('Cleanup scheduled', { intervalMs, retention });
+  }
+
+  /**
+   * Delete or archive the jobs past the retention of their status
+   */
+  private async removeExpiredJobs(archive: ArchiveConfig = {}): Promise<void> {
+    const target = archive.enabled ? (archive.target ?? 'table') : undefined;
+
+    if (this.partitions) {
+      const dropped = await this.partitions.dropExpiredPartitions(this.retention);
+      if (dropped.length > 0) {
+        this.logger.info('Dropped expired partitions', { partitions: dropped });
+      }
+    } else if (target === 'table') {
+      const archived = await this.repository.archiveOldJobs(this.retention);
+      if (archived > 0) {
+        this.logger.info('Archived old jobs', { archived });
+      }
+    } else if (target === 'file') {
+      const archived = await this.repository.exportOldJobs(
+        this.retention,
+        this.ARCHIVE_BATCH_SIZE,
+        (lines) => appendToArchiveFile(archive.filePath as string, lines)
+      );
+      if (archived > 0) {
+        this.logger.info('Archived old jobs', { archived, filePath: archive.filePath });
+      }
+    } else {
+      const deleted = await this.repository.deleteOldJobs(this.retention);
+      if (deleted > 0) {
+        this.logger.info('Cleaned up old jobs', { deleted });
+      }
+    }
+
+    if (target === 'table' && archive.retentionDays) {
+      const deleted = await this.repository.deleteArchivedJobs(archive.retentionDays);
+      if (deleted > 0) {
+        this.logger.info('Cleaned up archived jobs', { deleted });
+      }
+    }
   }
 
   async shutdown(): Promise<void> {
@@ -187,21 +461,41 @@ export class JobGuard {
 
     this.logger.info('Shutting down JobGuard');
 
-    // Stop reconciliation
-    if (this.reconciler) {
-      this.reconciler.stop();
+    if (this.metricsServer) {
+      await this.metricsServer.stop();
+    }
+
+    // Stop reconciliation (releases leadership before the pool closes)
+    if (this.shared) {
+      await this.reconciler?.removeQueue(this.adapter.queueName);
+      this.shared.queueNames.delete(this.adapter.queueName);
+    } else if (this.reconciler) {
+      await this.reconciler.stop();
     }
 
     // Stop cleanup
     if (this.cleanupInterval) {
       clearInterval(this.cleanupInterval);
     }
+    this.partitions?.stop();
+
+    // Finish dispatching before the adapter restores the queue's add method
+    if (this.outboxDispatcher) {
+      await this.outboxDispatcher.stop();
+    }
 
     // Dispose adapter
     await this.adapter.dispose();
 
-    // Close PostgreSQL connection
-    await this.connectionManager.close();
+    // Finish spool writes; anything not replayed yet is replayed on next startup
+    if (this.spool) {
+      await this.spool.close();
+    }
+
+    // Close PostgreSQL connection, unless the manager's other queues still use it
+    if (!this.shared) {
+      await this.connectionManager.close();
+    }
 
     this.initialized = false;
     this.logger.info('JobGuard shutdown complete');
@@ -215,6 +509,41 @@ export class JobGuard {
     return this.repository.getStatistics(this.adapter.queueName);
   }
 
+  /**
+   * Get a tracked job by its queue job ID
+   * Runs moved to the archive table are found too, with archived_at set.
+   * @returns The latest run of the job, or null if the job is not tracked
+   */
+  async getJob(jobId: string): Promise<JobRecord | null> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    return this.repository.getJob(
+      this.adapter.queueName,
+      this.adapter.queueType,
+      jobId,
+      true
+    );
+  }
+
+  /**
+   * List tracked jobs, newest first
+   * @param filter - Status, name, creation time, error text and data filters, plus paging
+   * @returns One page of jobs; pass nextCursor back as filter.cursor for the next page
+   */
+  async listJobs(filter?: JobFilter): Promise<JobPage> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    return this.repository.listJobs(
+      this.adapter.queueName,
+      this.adapter.queueType,
+      filter
+    );
+  }
+
   async forceReconciliation(): Promise<void> {
     if (!this.initialized) {
       throw new Error('JobGuard is not initialized');
@@ -224,7 +553,272 @@ export class JobGuard {
       throw new Error('Reconciliation is not enabled');
     }
 
-    await this.reconciler.forceRun();
+    await this.reconciler.forceRun(this.adapter.queueName);
+  }
+
+  /**
+   * Lifecycle history of a job, oldest first
+   * Each attempt, failure (with its error message), stuck detection and re-enqueue is
+   * recorded as a separate event. Events of a reused job ID are told apart by job_uuid.
+   * The history of archived runs is included.
+   * @param jobId - The queue's job ID
+   */
+  async getJobHistory(jobId: string): Promise<JobEvent[]> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    return this.repository.getJobEvents(
+      this.adapter.queueName,
+      this.adapter.queueType,
+      jobId,
+      true
+    );
+  }
+
+  /**
+   * Re-enqueue a failed or dead job
+   * The job goes through the same re-enqueue path as stuck jobs, replacing any finished
+   * copy still in Redis. Jobs whose data was stubbed can't be retried.
+   * @param jobId - The queue's job ID
+   * @param options - Attempt reset, new attempt limit, and who triggered the retry
+   * @returns The job after the retry was enqueued
+   */
+  async retryJob(jobId: string, options: RetryOptions = {}): Promise<JobRecord> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    this.validateRetryOptions(options);
+
+    const job = await this.repository.getJob(
+      this.adapter.queueName,
+      this.adapter.queueType,
+      jobId
+    );
+
+    if (!job) {
+      throw new JobNotFoundError(jobId, this.adapter.queueName);
+    }
+
+    if (job.status !== JobStatus.FAILED && job.status !== JobStatus.DEAD) {
+      throw new JobGuardError(
+        `Job ${jobId} is ${job.status}; only failed or dead jobs can be retried`
+      );
+    }
+
+    return this.retryTrackedJob(job, options);
+  }
+
+  /**
+   * Re-enqueue every failed or dead job matching the filter, one at a time
+   * @param filter - Same filters as listJobs; status defaults to dead
+   * @param options - Applied to every retried job
+   * @returns How many jobs were retried and how many could not be (including stubbed jobs)
+   */
+  async retryJobs(
+    filter: JobFilter = {},
+    options: RetryOptions = {}
+  ): Promise<RetryResult> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    this.validateRetryOptions(options);
+
+    const status = filter.status ?? JobStatus.DEAD;
+    const statuses = Array.isArray(status) ? status : [status];
+    if (statuses.some((s) => s !== JobStatus.FAILED && s !== JobStatus.DEAD)) {
+      throw new JobGuardError('retryJobs only accepts the failed and dead statuses');
+    }
+
+    const result: RetryResult = { retried: 0, failed: 0 };
+    let cursor = filter.cursor;
+
+    do {
+      const page = await this.repository.listJobs(
+        this.adapter.queueName,
+        this.adapter.queueType,
+        {
+          ...filter,
+          status: statuses,
+          limit: filter.limit ?? 100,
+          cursor,
+          includeArchived: false, // Archived jobs can't be retried
+        }
+      );
+
+      for (const job of page.jobs) {
+        try {
+          await this.retryTrackedJob(job, options);
+          result.retried++;
+        } catch (error) {
+          result.failed++;
+          this.logger.warn('Failed to retry job', { jobId: job.job_id, err: error });
+        }
+      }
+
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    this.logger.info('Retried jobs', { ...result });
+    return result;
+  }
+
+  private validateRetryOptions(options: RetryOptions): void {
+    if (
+      options.maxAttempts !== undefined &&
+      (!Number.isInteger(options.maxAttempts) || options.maxAttempts < 1)
+    ) {
+      throw new JobGuardError('maxAttempts must be a positive integer');
+    }
+  }
+
+  private async retryTrackedJob(
+    job: JobRecord,
+    options: RetryOptions
+  ): Promise<JobRecord> {
+    if (isJobDataStub(job.data)) {
+      throw new JobGuardError(
+        `Job ${job.job_id} can't be retried: its data was replaced by a stub ` +
+          `(oversizedJobPolicy: 'stub')`
+      );
+    }
+
+    const resetAttempts = options.resetAttempts ?? true;
+    const claimed = await this.repository.claimJobForRetry(
+      job.id,
+      resetAttempts,
+      options.maxAttempts,
+      {
+        triggeredBy: options.triggeredBy ?? 'manual',
+        resetAttempts,
+        maxAttempts: options.maxAttempts ?? null,
+      }
+    );
+
+    if (!claimed) {
+      throw new JobGuardError(`Job ${job.job_id} is no longer failed or dead`);
+    }
+
+    let current: JobRecord | null;
+    try {
+      await this.adapter.reEnqueueJob(claimed, {
+        requeueIfMissing: true,
+        replaceFinished: true,
+        attempts: Math.max(claimed.max_attempts - claimed.attempts, 1),
+      });
+
+      current = await this.repository.getJob(
+        this.adapter.queueName,
+        this.adapter.queueType,
+        job.job_id
+      );
+    } catch (error) {
+      await this.releaseRetryClaim(job);
+      throw error;
+    }
+
+    // The adapter skips jobs it cannot safely replace (e.g. an older run of a reused ID)
+    if (!current || current.id !== claimed.id || current.status === JobStatus.STUCK) {
+      await this.releaseRetryClaim(job);
+      throw new JobGuardError(`Job ${job.job_id} could not be re-enqueued`);
+    }
+
+    this.logger.info('Retried job', { jobId: job.job_id });
+    this.emit('job:reenqueued', current);
+    return current;
+  }
+
+  protected handleListenerError(event: string, error: unknown): void {
+    this.logger.error('Event listener threw', { event, err: error });
+  }
+
+  private async releaseRetryClaim(job: JobRecord): Promise<void> {
+    try {
+      await this.repository.releaseRetryClaim(job);
+    } catch (error) {
+      this.logger.error('Failed to restore job after a failed retry', {
+        jobId: job.job_id,
+        err: error,
+      });
+    }
+  }
+
+  /**
+   * Track jobs that are already in Redis but missing from PostgreSQL
+   * Use after attaching JobGuard to a queue with a backlog, or after a PostgreSQL outage
+   * @param options - Redis states to scan (default: waiting, delayed, active) and page size
+   * @returns How many jobs were added, already present, or skipped by the configured limits
+   */
+  async backfillFromRedis(options?: BackfillOptions): Promise<BackfillResult> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    return this.adapter.backfillFromRedis(options);
+  }
+
+  /**
+   * Track a job inside the caller's transaction, before adding it to the queue
+   * Commit, then add the job with the same ID. If the process dies in between, orphan
+   * detection finds the pending job missing from Redis and enqueues it.
+   * @param client - Client of the caller's transaction (from their own pool or ours)
+   * @param job - Job ID the job will be added with, name, data and attempt limit
+   * @returns The tracked job, or null if the limits policy skips it
+   * @throws JobValidationError if the job exceeds the limits and the policy is 'reject'
+   */
+  async recordJob(client: ClientBase, job: RecordJobInput): Promise<JobRecord | null> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    return this.adapter.recordJob(client, job);
+  }
+
+  /**
+   * Enqueue a job inside the caller's transaction (transactional outbox)
+   * The job is stored as pending_dispatch and added to the queue once the transaction
+   * commits; if it rolls back, the job never reaches Redis. Requires outbox.enabled.
+   * @param client - Client of the caller's transaction (from their own pool or ours)
+   * @param name - Job name (ignored by Bee-Queue)
+   * @param opts - Job ID and queue options the job is added with
+   * @returns The stored job, or null if a job with this ID is already tracked
+   * @throws JobValidationError if the job exceeds the limits, whatever the policy
+   */
+  async enqueue(
+    client: ClientBase,
+    name: string | undefined,
+    data: unknown,
+    opts?: EnqueueOptions
+  ): Promise<JobRecord | null> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    if (!this.outboxDispatcher) {
+      throw new JobGuardError('The outbox is not enabled (set outbox.enabled)');
+    }
+
+    return this.adapter.enqueueJob(client, name, data, opts);
+  }
+
+  /**
+   * Track the jobs a BullMQ FlowProducer adds to this queue, with the key of their
+   * parent job (parent_key). Nodes of other queues are tracked by attaching the
+   * FlowProducer to their JobGuard too (JobGuardManager.attachFlowProducer does both).
+   * @throws JobGuardError if the queue is not a BullMQ queue
+   */
+  attachFlowProducer(flowProducer: BullMQFlowProducer): void {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    if (!(this.adapter instanceof BullMQAdapter)) {
+      throw new JobGuardError('A FlowProducer can only be attached to a BullMQ queue');
+    }
+
+    this.adapter.attachFlowProducer(flowProducer);
   }
 
   /**
@@ -240,6 +834,129 @@ export class JobGuard {
     await this.adapter.updateHeartbeat(jobId);
   }
 
+  /**
+   * Render metrics in the Prometheus text format
+   * Job counts are omitted (and jobguard_postgres_up is 0) if PostgreSQL can't be queried
+   */
+  async metrics(): Promise<string> {
+    return renderPrometheus(await this.collectMetricFamilies());
+  }
+
+  /**
+   * Metric families rendered by metrics()
+   * @internal
+   */
+  async collectMetricFamilies(): Promise<MetricFamily[]> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    let stats: JobStats | undefined;
+    try {
+      stats = await this.repository.getStatistics(this.adapter.queueName);
+    } catch (error) {
+      this.logger.debug('Job counts unavailable for metrics', { err: error });
+    }
+
+    return collectMetrics({
+      queueName: this.adapter.queueName,
+      queueType: this.adapter.queueType,
+      stats,
+      reconciler: this.reconciler?.getMetrics(this.adapter.queueName),
+      circuitBreaker: this.circuitBreaker.getMetrics(),
+      pool: this.connectionManager.getPoolStats(),
+      adapter: this.adapter.getMetrics(),
+      spool: this.spool?.getMetrics(),
+    });
+  }
+
+  /**
+   * Check PostgreSQL, the circuit breaker, the pool, reconciliation, cleanup and the
+   * connection the adapter receives job events on
+   * @returns Report whose status is the worst status of the individual checks
+   */
+  async health(): Promise<HealthReport> {
+    if (!this.initialized) {
+      throw new Error('JobGuard is not initialized');
+    }
+
+    const [postgres, listener] = await Promise.all([
+      this.checkPostgres(),
+      this.checkListener(),
+    ]);
+
+    return evaluateHealth({
+      queueName: this.adapter.queueName,
+      queueType: this.adapter.queueType,
+      postgres,
+      circuitBreaker: this.circuitBreaker.getMetrics(),
+      pool: this.connectionManager.getPoolStats(),
+      poolExhausted: this.connectionManager.isPoolExhausted(),
+      reconciler: this.reconciler?.getStatus(this.adapter.queueName),
+      cleanup: {
+        enabled: this.cleanupInterval !== undefined,
+        consecutiveFailures: this.cleanupFailures,
+        maxFailures: this.MAX_CONSECUTIVE_FAILURES,
+      },
+      listener,
+      spool: this.spool?.getMetrics(),
+    });
+  }
+
+  /**
+   * Request handler serving health() as JSON for Express, Fastify or plain http
+   * Answers 503 once the status reaches options.failOn (default: down), or when
+   * JobGuard is not initialized
+   */
+  healthHandler(options?: HealthHandlerOptions): HealthHandler {
+    return createHealthHandler(() => this.health(), options);
+  }
+
+  private async checkPostgres(): Promise<PostgresHealth> {
+    try {
+      const latencyMs = await withTimeout(
+        this.connectionManager.ping(),
+        this.HEALTH_PROBE_TIMEOUT_MS,
+        'PostgreSQL probe'
+      );
+      return { status: 'ok', latencyMs };
+    } catch (error) {
+      return {
+        status: 'down',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private async checkListener(): Promise<ListenerHealth> {
+    try {
+      return await withTimeout(
+        this.adapter.getListenerHealth(),
+        this.HEALTH_PROBE_TIMEOUT_MS,
+        'Event connection probe'
+      );
+    } catch (error) {
+      this.logger.debug('Event connection probe failed', { err: error });
+      return { connected: false, state: 'unknown' };
+    }
+  }
+
+  /**
+   * Depth and replay lag of the local write spool
+   * @returns null if the spool is not enabled
+   */
+  getSpoolMetrics(): SpoolMetrics | null {
+    return this.spool?.getMetrics() ?? null;
+  }
+
+  /**
+   * Whether this instance is currently the reconciliation leader for its queue
+   * Useful for health checks when several instances run with reconciliation enabled
+   */
+  isLeader(): boolean {
+    return this.reconciler?.isLeader(this.adapter.queueName) ?? false;
+  }
+
   getQueueName(): string {
     return this.adapter.queueName;
   }
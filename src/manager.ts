@@ -0,0 +1,307 @@
+import { JobGuard, SharedResources } from './jobguard';
+import { JobGuardConfig } from './types/config';
+import { AggregatedJobStats, JobStats } from './types/job';
+import { AnyQueue, BullMQFlowProducer } from './types/queue-types';
+import { JobGuardEvents } from './types/events';
+import { JobRepository } from './persistence/repository';
+import { ConnectionManager } from './persistence/connection';
+import { Migrator } from './persistence/migrator';
+import { resolveSchemaNames, SchemaNames } from './persistence/schema-names';
+import { Reconciler } from './reconciliation/reconciler';
+import { LeaderElection } from './reconciliation/leader-election';
+import { Logger } from './utils/logger';
+import { CircuitBreaker } from './utils/circuit-breaker';
+import { JobGuardError } from './errors/errors';
+import { mergeMetricFamilies, renderPrometheus } from './metrics/prometheus';
+import { MetricsServer } from './metrics/server';
+import { TypedEventEmitter } from './utils/typed-event-emitter';
+
+/**
+ * Tracks several queues, of any supported type, with one PostgreSQL pool, one circuit
+ * breaker and one reconciliation loop
+ *
+ * Each queue gets a JobGuard for per-queue operations (see get()). Events of all queues
+ * are emitted by the manager.
+ */
+export class JobGuardManager extends TypedEventEmitter<JobGuardEvents> {
+  private connectionManager: ConnectionManager;
+  private repository: JobRepository;
+  private circuitBreaker: CircuitBreaker;
+  private reconciler?: Reconciler;
+  private metricsServer?: MetricsServer;
+  private logger: Logger;
+  private config: JobGuardConfig;
+  private names: SchemaNames;
+  private guards: JobGuard[] = [];
+  private readonly queueNames = new Set<string>();
+  private initialized = false;
+
+  private constructor(config: JobGuardConfig) {
+    super();
+
+    if (!config.postgres) {
+      throw new Error('PostgreSQL configuration is required');
+    }
+
+    this.config = config;
+    this.names = resolveSchemaNames(config.persistence);
+    this.logger = new Logger(config.logging);
+    this.connectionManager = new ConnectionManager(config.postgres, this.logger, this);
+
+    this.circuitBreaker = new CircuitBreaker({
+      threshold: 5,
+      timeout: 60000,
+      name: 'jobguard-postgres',
+      events: this,
+    });
+
+    this.repository = new JobRepository(
+      this.connectionManager.getPool(),
+      this.circuitBreaker,
+      this.logger,
+      this.connectionManager,
+      this.names,
+      config.persistence?.partitioning?.enabled
+    );
+
+    // One loop reconciles every queue; queues are added as their JobGuards initialize
+    if (config.reconciliation?.enabled !== false) {
+      this.reconciler = new Reconciler(
+        this.repository,
+        [],
+        config.reconciliation || {},
+        this.logger,
+        new LeaderElection(this.connectionManager.getPool(), this.logger, this.names),
+        this
+      );
+    }
+
+    if (config.metrics?.enabled) {
+      this.metricsServer = new MetricsServer(
+        () => this.metrics(),
+        this.logger,
+        config.metrics
+      );
+    }
+  }
+
+  /**
+   * Create a manager and start tracking the queues
+   * @param queues - Queue instances to monitor; names must be unique
+   * @param config - JobGuard configuration applied to every queue
+   * @returns Promise that resolves to an initialized manager
+   */
+  static async create(
+    queues: AnyQueue[],
+    config: JobGuardConfig
+  ): Promise<JobGuardManager> {
+    if (!Array.isArray(queues) || queues.length === 0) {
+      throw new Error('At least one queue instance is required');
+    }
+
+    const manager = new JobGuardManager(config);
+    await manager.initialize(queues);
+    return manager;
+  }
+
+  private async initialize(queues: AnyQueue[]): Promise<void> {
+    try {
+      await this.connectionManager.testConnection();
+
+      // Bring the schema up to date, or refuse to start on a version mismatch
+      const migrator = new Migrator(
+        this.connectionManager.getPool(),
+        this.logger,
+        this.names,
+        this.config.persistence?.partitioning
+      );
+      if (this.config.autoMigrate) {
+        await migrator.migrate();
+      } else {
+        await migrator.verify();
+      }
+
+      for (const queue of queues) {
+        const guard = await JobGuard.createShared(queue, this.config, this.shared());
+        this.forwardEvents(guard);
+        this.guards.push(guard);
+      }
+
+      this.reconciler?.start();
+
+      if (this.metricsServer) {
+        await this.metricsServer.start();
+      }
+
+      this.initialized = true;
+      this.logger.info('JobGuardManager initialized successfully', {
+        queues: this.getQueueNames(),
+      });
+    } catch (error) {
+      this.logger.error('JobGuardManager initialization failed', { err: error });
+      await this.close();
+      throw error;
+    }
+  }
+
+  private shared(): SharedResources {
+    return {
+      connectionManager: this.connectionManager,
+      circuitBreaker: this.circuitBreaker,
+      repository: this.repository,
+      logger: this.logger,
+      reconciler: this.reconciler,
+      runCleanup: this.guards.length === 0,
+      queueNames: this.queueNames,
+    };
+  }
+
+  /**
+   * Re-emit the events a queue's JobGuard emits itself (dead jobs, manual retries);
+   * reconciliation, circuit breaker and pool events are emitted by the manager directly
+   */
+  private forwardEvents(guard: JobGuard): void {
+    guard.on('job:dead', (job) => this.emit('job:dead', job));
+    guard.on('job:reenqueued', (job) => this.emit('job:reenqueued', job));
+  }
+
+  /**
+   * JobGuard of a managed queue, for per-queue operations such as getJob() or retryJob()
+   * @throws JobGuardError if no queue with that name is managed
+   */
+  get(queueName: string): JobGuard {
+    const guard = this.guards.find((g) => g.getQueueName() === queueName);
+    if (!guard) {
+      throw new JobGuardError(
+        `Queue ${queueName} is not managed by this JobGuardManager`
+      );
+    }
+    return guard;
+  }
+
+  getQueueNames(): string[] {
+    return this.guards.map((guard) => guard.getQueueName());
+  }
+
+  /**
+   * Job counts summed over all queues, and per queue
+   */
+  async getStats(): Promise<AggregatedJobStats> {
+    if (!this.initialized) {
+      throw new Error('JobGuardManager is not initialized');
+    }
+
+    const queues = await Promise.all(
+      this.activeGuards().map((guard) => guard.getStats())
+    );
+
+    const totals: Omit<JobStats, 'queueName'> = {
+      pendingDispatch: 0,
+      pending: 0,
+      delayed: 0,
+      processing: 0,
+      completed: 0,
+      failed: 0,
+      stuck: 0,
+      dead: 0,
+      total: 0,
+    };
+    for (const stats of queues) {
+      for (const key of Object.keys(totals) as Array<keyof typeof totals>) {
+        totals[key] += stats[key];
+      }
+    }
+
+    return { totals, queues };
+  }
+
+  /**
+   * Render metrics of all queues in the Prometheus text format
+   * Pool and circuit breaker series are shared and repeat under each queue's labels
+   */
+  async metrics(): Promise<string> {
+    if (!this.initialized) {
+      throw new Error('JobGuardManager is not initialized');
+    }
+
+    const families = await Promise.all(
+      this.activeGuards().map((guard) => guard.collectMetricFamilies())
+    );
+    return renderPrometheus(mergeMetricFamilies(families.flat()));
+  }
+
+  /**
+   * Track the jobs a BullMQ FlowProducer adds to any managed BullMQ queue, with the key
+   * of their parent job
+   */
+  attachFlowProducer(flowProducer: BullMQFlowProducer): void {
+    if (!this.initialized) {
+      throw new Error('JobGuardManager is not initialized');
+    }
+
+    for (const guard of this.activeGuards()) {
+      if (guard.getQueueType() === 'bullmq') {
+        guard.attachFlowProducer(flowProducer);
+      }
+    }
+  }
+
+  /**
+   * Reconcile every queue right away, resuming queues paused after consecutive failures
+   */
+  async forceReconciliation(): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('JobGuardManager is not initialized');
+    }
+
+    if (!this.reconciler) {
+      throw new Error('Reconciliation is not enabled');
+    }
+
+    await this.reconciler.forceRun();
+  }
+
+  async shutdown(): Promise<void> {
+    if (!this.initialized) {
+      this.logger.warn('JobGuardManager is not initialized, nothing to shutdown');
+      return;
+    }
+
+    this.logger.info('Shutting down JobGuardManager');
+    await this.close();
+    this.initialized = false;
+    this.logger.info('JobGuardManager shutdown complete');
+  }
+
+  /**
+   * Stop everything started so far; also undoes a partial initialization
+   */
+  private async close(): Promise<void> {
+    if (this.metricsServer) {
+      await this.metricsServer.stop();
+    }
+
+    // Stop reconciliation (releases leadership before the pool closes)
+    if (this.reconciler) {
+      await this.reconciler.stop();
+    }
+
+    for (const guard of this.activeGuards()) {
+      await guard.shutdown();
+    }
+
+    await this.connectionManager.close();
+  }
+
+  private activeGuards(): JobGuard[] {
+    return this.guards.filter((guard) => guard.isInitialized());
+  }
+
+  isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  protected handleListenerError(event: string, error: unknown): void {
+    this.logger.error('Event listener threw', { event, err: error });
+  }
+}
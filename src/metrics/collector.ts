@@ -0,0 +1,173 @@
+import { JOB_STATS_KEYS, JobStats, JobStatus } from '../types/job';
+import { AdapterMetrics } from '../types/adapter';
+import { ReconcilerMetrics } from '../reconciliation/reconciler';
+import { CircuitBreakerMetrics } from '../utils/circuit-breaker';
+import { SpoolMetrics } from '../persistence/spool';
+import { MetricFamily, MetricLabels } from './prometheus';
+
+const BREAKER_STATES = ['closed', 'open', 'half_open'];
+
+/**
+ * Point-in-time readings of a JobGuard instance's components
+ */
+export interface MetricsSnapshot {
+  queueName: string;
+  queueType: string;
+  stats?: JobStats; // Undefined if PostgreSQL could not be queried
+  reconciler?: ReconcilerMetrics; // Undefined if reconciliation is disabled
+  circuitBreaker: CircuitBreakerMetrics;
+  pool: { total: number; idle: number; waiting: number };
+  adapter: AdapterMetrics;
+  spool?: SpoolMetrics; // Undefined if the spool is disabled
+}
+
+/**
+ * Map a snapshot to Prometheus metric families
+ * Every sample carries queue and queue_type labels so several instances can share a registry
+ */
+export function collectMetrics(snapshot: MetricsSnapshot): MetricFamily[] {
+  const base: MetricLabels = {
+    queue: snapshot.queueName,
+    queue_type: snapshot.queueType,
+  };
+  const families: MetricFamily[] = [];
+
+  const gauge = (name: string, help: string, value: number): MetricFamily => ({
+    name,
+    help,
+    type: 'gauge',
+    samples: [{ labels: base, value }],
+  });
+
+  families.push(
+    gauge(
+      'jobguard_postgres_up',
+      'Whether the last job count query succeeded',
+      snapshot.stats ? 1 : 0
+    )
+  );
+
+  if (snapshot.stats) {
+    const stats = snapshot.stats;
+    families.push({
+      name: 'jobguard_jobs',
+      help: 'Tracked jobs by status (delayed: pending jobs that are not due yet)',
+      type: 'gauge',
+      samples: [
+        ...Object.values(JobStatus).map((status) => ({
+          labels: { ...base, status },
+          value: stats[JOB_STATS_KEYS[status]],
+        })),
+        { labels: { ...base, status: 'delayed' }, value: stats.delayed },
+      ],
+    });
+  }
+
+  if (snapshot.reconciler) {
+    const { runs, durationSeconds, jobs, currentIntervalMs } = snapshot.reconciler;
+    families.push(
+      {
+        name: 'jobguard_reconciliation_runs_total',
+        help: 'Reconciliation runs by outcome (skipped: another instance is leader)',
+        type: 'counter',
+        samples: Object.entries(runs).map(([outcome, value]) => ({
+          labels: { ...base, outcome },
+          value,
+        })),
+      },
+      {
+        name: 'jobguard_reconciliation_duration_seconds',
+        help: 'Duration of reconciliation runs',
+        type: 'histogram',
+        samples: [{ labels: base, histogram: durationSeconds }],
+      },
+      {
+        name: 'jobguard_reconciliation_jobs_total',
+        help: 'Jobs handled by reconciliation by result',
+        type: 'counter',
+        samples: [
+          { labels: { ...base, result: 'stuck' }, value: jobs.stuck },
+          { labels: { ...base, result: 'orphaned' }, value: jobs.orphaned },
+          { labels: { ...base, result: 're_enqueued' }, value: jobs.reEnqueued },
+          { labels: { ...base, result: 'failed' }, value: jobs.failed },
+          { labels: { ...base, result: 'dead' }, value: jobs.dead },
+        ],
+      },
+      gauge(
+        'jobguard_reconciliation_interval_seconds',
+        'Current reconciliation interval chosen by the adaptive scheduler',
+        currentIntervalMs / 1000
+      )
+    );
+  }
+
+  families.push(
+    {
+      name: 'jobguard_circuit_breaker_state',
+      help: 'PostgreSQL circuit breaker state (1 for the current state)',
+      type: 'gauge',
+      samples: BREAKER_STATES.map((state) => ({
+        labels: { ...base, state },
+        value: snapshot.circuitBreaker.state === state ? 1 : 0,
+      })),
+    },
+    gauge(
+      'jobguard_circuit_breaker_consecutive_failures',
+      'Consecutive PostgreSQL failures counted by the circuit breaker',
+      snapshot.circuitBreaker.failureCount
+    ),
+    gauge(
+      'jobguard_postgres_pool_total',
+      'Connections in the PostgreSQL pool',
+      snapshot.pool.total
+    ),
+    gauge(
+      'jobguard_postgres_pool_idle',
+      'Idle connections in the PostgreSQL pool',
+      snapshot.pool.idle
+    ),
+    gauge(
+      'jobguard_postgres_pool_waiting',
+      'Clients waiting for a PostgreSQL connection',
+      snapshot.pool.waiting
+    ),
+    {
+      name: 'jobguard_persistence_write_failures_total',
+      help: 'Job writes that failed in PostgreSQL, by operation',
+      type: 'counter',
+      samples: Object.entries(snapshot.adapter.writeFailures).map(
+        ([operation, value]) => ({
+          labels: { ...base, operation },
+          value,
+        })
+      ),
+    }
+  );
+
+  if (snapshot.spool) {
+    const spool = snapshot.spool;
+    families.push(
+      gauge('jobguard_spool_depth', 'Job writes waiting in the local spool', spool.depth),
+      gauge('jobguard_spool_bytes', 'Size of the local spool file', spool.bytes),
+      gauge(
+        'jobguard_spool_oldest_entry_age_seconds',
+        'Age of the oldest write waiting in the local spool',
+        spool.oldestEntryAgeMs / 1000
+      ),
+      {
+        name: 'jobguard_spool_replayed_total',
+        help: 'Spooled job writes replayed to PostgreSQL',
+        type: 'counter',
+        samples: [{ labels: base, value: spool.replayedEntries }],
+      },
+      {
+        name: 'jobguard_spool_dropped_total',
+        help: 'Job writes dropped because the spool was full or PostgreSQL rejected them',
+        type: 'counter',
+        samples: [{ labels: base, value: spool.droppedEntries }],
+      }
+    );
+  }
+
+  return families;
+}
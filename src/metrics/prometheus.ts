@@ -0,0 +1,147 @@
+/**
+ * Minimal Prometheus text exposition format (version 0.0.4) without dependencies
+ * https://prometheus.io/docs/instrumenting/exposition_formats/
+ */
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export type MetricLabels = Record<string, string>;
+
+export interface MetricSample {
+  labels?: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSnapshot {
+  buckets: Array<[upperBound: number, cumulativeCount: number]>;
+  sum: number;
+  count: number;
+}
+
+export type MetricFamily =
+  | {
+      name: string;
+      help: string;
+      type: 'counter' | 'gauge';
+      samples: MetricSample[];
+    }
+  | {
+      name: string;
+      help: string;
+      type: 'histogram';
+      samples: Array<{ labels?: MetricLabels; histogram: HistogramSnapshot }>;
+    };
+
+/**
+ * Fixed-bucket histogram of observed values
+ */
+export class Histogram {
+  private readonly upperBounds: number[];
+  private readonly counts: number[];
+  private sum = 0;
+  private count = 0;
+
+  constructor(upperBounds: number[]) {
+    this.upperBounds = [...upperBounds].sort((a, b) => a - b);
+    this.counts = this.upperBounds.map(() => 0);
+  }
+
+  observe(value: number): void {
+    this.sum += value;
+    this.count++;
+
+    const index = this.upperBounds.findIndex((bound) => value <= bound);
+    if (index !== -1) {
+      this.counts[index] = (this.counts[index] ?? 0) + 1;
+    }
+  }
+
+  snapshot(): HistogramSnapshot {
+    let cumulative = 0;
+    const buckets = this.upperBounds.map((bound, index): [number, number] => {
+      cumulative += this.counts[index] ?? 0;
+      return [bound, cumulative];
+    });
+
+    return { buckets, sum: this.sum, count: this.count };
+  }
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: MetricLabels = {}): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+/**
+ * Render metric families in the Prometheus text format
+ */
+export function renderPrometheus(families: MetricFamily[]): string {
+  const lines: string[] = [];
+
+  for (const family of families) {
+    lines.push(
+      `# HELP ${family.name} ${family.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`
+    );
+    lines.push(`# TYPE ${family.name} ${family.type}`);
+
+    if (family.type === 'histogram') {
+      for (const { labels, histogram } of family.samples) {
+        for (const [upperBound, count] of histogram.buckets) {
+          const le = formatLabels({ ...labels, le: formatValue(upperBound) });
+          lines.push(`${family.name}_bucket${le} ${count}`);
+        }
+        lines.push(
+          `${family.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${histogram.count}`
+        );
+        lines.push(
+          `${family.name}_sum${formatLabels(labels)} ${formatValue(histogram.sum)}`
+        );
+        lines.push(`${family.name}_count${formatLabels(labels)} ${histogram.count}`);
+      }
+      continue;
+    }
+
+    for (const sample of family.samples) {
+      lines.push(
+        `${family.name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`
+      );
+    }
+  }
+
+  return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+}
+
+/**
+ * Combine families of the same name, e.g. collected for several queues, so each
+ * name is rendered with a single HELP and TYPE line
+ */
+export function mergeMetricFamilies(families: MetricFamily[]): MetricFamily[] {
+  const merged = new Map<string, MetricFamily>();
+
+  for (const family of families) {
+    const existing = merged.get(family.name);
+    if (existing) {
+      (existing.samples as unknown[]).push(...family.samples);
+    } else {
+      merged.set(family.name, {
+        ...family,
+        samples: [...family.samples],
+      } as MetricFamily);
+    }
+  }
+
+  return Array.from(merged.values());
+}
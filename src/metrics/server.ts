@@ -0,0 +1,83 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { MetricsConfig } from '../types/config';
+import { Logger } from '../utils/logger';
+import { PROMETHEUS_CONTENT_TYPE } from './prometheus';
+
+/**
+ * Minimal HTTP server exposing metrics for Prometheus to scrape
+ */
+export class MetricsServer {
+  private server?: Server;
+  private readonly port: number;
+  private readonly host: string;
+  private readonly path: string;
+
+  constructor(
+    private readonly render: () => Promise<string>,
+    private readonly logger: Logger,
+    config: MetricsConfig = {}
+  ) {
+    this.port = config.port ?? 9464;
+    this.host = config.host || '0.0.0.0';
+    this.path = config.path || '/metrics';
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    const server = createServer((req, res) => {
+      void this.handle(req, res);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    // Scrapes must not keep the process alive
+    server.unref();
+    this.server = server;
+    this.logger.info('Serving metrics', {
+      url: `http://${this.host}:${this.getPort()}${this.path}`,
+    });
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) return;
+
+    this.server = undefined;
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /**
+   * Port the server listens on (useful with port 0)
+   */
+  getPort(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url || '').split('?')[0];
+
+    if (req.method !== 'GET' || path !== this.path) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('Not Found\n');
+      return;
+    }
+
+    try {
+      const body = await this.render();
+      res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+      res.end(body);
+    } catch (error) {
+      this.logger.error('Failed to render metrics', { err: error });
+      res.writeHead(500, { 'Content-Type': 'text/plain' });
+      res.end('Failed to render metrics\n');
+    }
+  }
+}
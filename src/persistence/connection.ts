@@ -1,19 +1,40 @@
 import { Pool, PoolConfig } from 'pg';
 import { PostgresConfig } from '../types/config';
+import { JobGuardEventEmitter, PoolStats } from '../types/events';
 import { PostgresConnectionError } from '../errors/errors';
 import { Logger } from '../utils/logger';
 
+/**
+ * Whether the configuration is an existing pool rather than connection settings
+ * Checked structurally, since the caller's pg may be a different copy than ours
+ */
+function isPool(config: PostgresConfig | string | Pool): config is Pool {
+  return (
+    typeof config === 'object' &&
+    typeof (config as Pool).connect === 'function' &&
+    typeof (config as Pool).query === 'function'
+  );
+}
+
 export class ConnectionManager {
   private pool: Pool;
+  private readonly ownsPool: boolean; // False for a pool passed in by the caller
   private logger: Logger;
   private monitorInterval?: NodeJS.Timeout;
   private consecutiveExhaustionChecks = 0;
   private readonly MAX_EXHAUSTION_CHECKS = 3;
   private poolExhausted = false;
+  private events?: JobGuardEventEmitter;
 
-  constructor(config: PostgresConfig | string, logger: Logger) {
+  constructor(
+    config: PostgresConfig | string | Pool,
+    logger: Logger,
+    events?: JobGuardEventEmitter
+  ) {
     this.logger = logger;
-    this.pool = this.createPool(config);
+    this.events = events;
+    this.ownsPool = !isPool(config);
+    this.pool = isPool(config) ? config : this.createPool(config);
     this.setupEventHandlers();
     this.startPoolMonitoring();
   }
@@ -44,18 +65,22 @@ export class ConnectionManager {
     return new Pool(poolConfig);
   }
 
-  private setupEventHandlers(): void {
-    this.pool.on('error', (err) => {
-      this.logger.error('Unexpected PostgreSQL pool error:', err);
-    });
+  private handlePoolError = (err: Error): void => {
+    this.logger.error('Unexpected PostgreSQL pool error', { err });
+  };
 
-    this.pool.on('connect', () => {
-      this.logger.debug('New PostgreSQL client connected');
-    });
+  private handlePoolConnect = (): void => {
+    this.logger.debug('New PostgreSQL client connected');
+  };
 
-    this.pool.on('remove', () => {
-      this.logger.debug('PostgreSQL client removed from pool');
-    });
+  private handlePoolRemove = (): void => {
+    this.logger.debug('PostgreSQL client removed from pool');
+  };
+
+  private setupEventHandlers(): void {
+    this.pool.on('error', this.handlePoolError);
+    this.pool.on('connect', this.handlePoolConnect);
+    this.pool.on('remove', this.handlePoolRemove);
   }
 
   async testConnection(): Promise<void> {
@@ -65,7 +90,7 @@ export class ConnectionManager {
       client.release();
       this.logger.info('PostgreSQL connection test successful');
     } catch (error) {
-      this.logger.error('PostgreSQL connection test failed:', error);
+      this.logger.error('PostgreSQL connection test failed', { err: error });
       throw new PostgresConnectionError(
         'Failed to connect to PostgreSQL',
         error instanceof Error ? error : undefined
@@ -73,6 +98,16 @@ export class ConnectionManager {
     }
   }
 
+  /**
+   * Round trip of a trivial query, bypassing the circuit breaker
+   * @returns Latency in milliseconds
+   */
+  async ping(): Promise<number> {
+    const startTime = Date.now();
+    await this.pool.query('SELECT 1');
+    return Date.now() - startTime;
+  }
+
   getPool(): Pool {
     return this.pool;
   }
@@ -82,7 +117,7 @@ export class ConnectionManager {
     this.monitorInterval = setInterval(() => {
       // Access pool internals - pg.Pool doesn't expose these types officially
       const pool = this.pool as any; // eslint-disable-line @typescript-eslint/no-explicit-any
-      const stats = {
+      const stats: PoolStats = {
         total: (pool.totalCount as number) || 0,
         idle: (pool.idleCount as number) || 0,
         waiting: (pool.waitingCount as number) || 0,
@@ -90,9 +125,9 @@ export class ConnectionManager {
 
       // Warn if clients are waiting for connections
       if (stats.waiting > 0) {
-        this.logger.warn(
-          `Pool pressure detected: ${stats.waiting} clients waiting for connections`
-        );
+        this.logger.warn('Pool pressure detected: clients waiting for connections', {
+          ...stats,
+        });
       }
 
       // Track pool exhaustion
@@ -106,30 +141,30 @@ export class ConnectionManager {
           if (!this.poolExhausted) {
             this.poolExhausted = true;
             this.logger.error(
-              `Pool critically exhausted! All ${stats.total} connections in use for ` +
-                `${this.MAX_EXHAUSTION_CHECKS} consecutive checks (15 seconds). ` +
-                `New operations will be rejected.`
+              'Pool critically exhausted! All connections in use for 15 seconds. ' +
+                'New operations will be rejected.',
+              { ...stats, checks: this.consecutiveExhaustionChecks }
             );
+            this.events?.emit('pool:exhausted', stats);
           }
         } else {
-          this.logger.error(
-            `Pool exhausted! All ${stats.total} connections in use. ` +
-              `(${this.consecutiveExhaustionChecks}/${this.MAX_EXHAUSTION_CHECKS})`
-          );
+          this.logger.error('Pool exhausted! All connections in use.', {
+            ...stats,
+            checks: this.consecutiveExhaustionChecks,
+            maxChecks: this.MAX_EXHAUSTION_CHECKS,
+          });
         }
       } else {
         // Reset exhaustion tracking when pool recovers
         if (this.consecutiveExhaustionChecks > 0 || this.poolExhausted) {
-          this.logger.info(`Pool recovered. Idle: ${stats.idle}, Total: ${stats.total}`);
+          this.logger.info('Pool recovered', { ...stats });
           this.consecutiveExhaustionChecks = 0;
           this.poolExhausted = false;
         }
       }
 
       // Debug log pool stats periodically
-      this.logger.debug(
-        `Pool stats - Total: ${stats.total}, Idle: ${stats.idle}, Waiting: ${stats.waiting}`
-      );
+      this.logger.debug('Pool stats', { ...stats });
     }, 5000);
 
     // Don't prevent process from exiting
@@ -151,7 +186,14 @@ export class ConnectionManager {
     }
   }
 
-  getPoolStats(): { total: number; idle: number; waiting: number } {
+  /**
+   * Whether the pool has been exhausted long enough to reject new operations
+   */
+  isPoolExhausted(): boolean {
+    return this.poolExhausted;
+  }
+
+  getPoolStats(): PoolStats {
     // Access pool internals - pg.Pool doesn't expose these types officially
     const pool = this.pool as any; // eslint-disable-line @typescript-eslint/no-explicit-any
     return {
@@ -162,13 +204,21 @@ export class ConnectionManager {
   }
 
   async close(): Promise<void> {
-    this.logger.info('Closing PostgreSQL connection pool');
-
     // Stop monitoring
     if (this.monitorInterval) {
       clearInterval(this.monitorInterval);
     }
 
+    // The caller's pool stays open for the caller; only detach from it
+    if (!this.ownsPool) {
+      this.pool.off('error', this.handlePoolError);
+      this.pool.off('connect', this.handlePoolConnect);
+      this.pool.off('remove', this.handlePoolRemove);
+      this.logger.info('Released PostgreSQL connection pool (owned by the caller)');
+      return;
+    }
+
+    this.logger.info('Closing PostgreSQL connection pool');
     await this.pool.end();
   }
 }
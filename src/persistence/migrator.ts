@@ -0,0 +1,396 @@
+import { Pool, PoolClient } from 'pg';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { ADVISORY_LOCK_NAMESPACE, createQueries, Queries } from './queries';
+import {
+  DEFAULT_SCHEMA_NAMES,
+  qualifyName,
+  quoteIdentifier,
+  renderMigrationSql,
+  SchemaNames,
+} from './schema-names';
+import { addRanges, PartitionManager, startOfRange } from './partitions';
+import { PartitioningConfig } from '../types/config';
+import { Logger } from '../utils/logger';
+import { MigrationError, SchemaVersionError } from '../errors/errors';
+
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+export interface MigrationResult {
+  applied: number[]; // Versions applied by this run, in order
+  currentVersion: number;
+}
+
+// Migration files are named like 001_initial.sql
+const MIGRATION_FILE_PATTERN = /^(\d+)_([\w-]+)\.sql$/;
+
+// Objects of the partitioned layout, created when the jobs table is converted
+const PARTITIONED_LAYOUT_FILE = 'partitioned_layout.sql';
+
+/**
+ * Locate the schema directory shipped with the package
+ * Resolves from both the bundled dist/ output and the src/ tree
+ */
+export function resolveSchemaDir(): string {
+  const candidates = [
+    join(__dirname, '..', 'schema'),
+    join(__dirname, '..', '..', 'schema'),
+  ];
+
+  for (const candidate of candidates) {
+    if (existsSync(join(candidate, '001_initial.sql'))) {
+      return candidate;
+    }
+  }
+
+  throw new MigrationError(
+    `Schema directory not found (looked in: ${candidates.join(', ')})`
+  );
+}
+
+/**
+ * Read the migrations from the schema directory, in order, rendered for the given names
+ * @throws MigrationError if version numbers have gaps or duplicates
+ */
+export function loadMigrations(
+  names: SchemaNames = DEFAULT_SCHEMA_NAMES,
+  schemaDir: string = resolveSchemaDir()
+): Migration[] {
+  const migrations: Migration[] = [];
+
+  for (const file of readdirSync(schemaDir)) {
+    const match = MIGRATION_FILE_PATTERN.exec(file);
+    if (!match) continue;
+
+    migrations.push({
+      version: parseInt(match[1] as string, 10),
+      name: match[2] as string,
+      sql: renderMigrationSql(readFileSync(join(schemaDir, file), 'utf8'), names),
+    });
+  }
+
+  migrations.sort((a, b) => a.version - b.version);
+
+  // Guard against gaps or duplicate numbers in the shipped files
+  migrations.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new MigrationError(
+        `Unexpected migration version ${migration.version} (${migration.name}), ` +
+          `expected ${index + 1}`
+      );
+    }
+  });
+
+  return migrations;
+}
+
+/**
+ * Applies numbered SQL migrations from the schema directory
+ *
+ * Applied versions are tracked in jobguard_schema_migrations. Each migration runs in
+ * its own transaction, and a session-level advisory lock serializes concurrent runners
+ * so that several pods starting at once don't race. Migration files use {{name}}
+ * placeholders for table, function and index names (see renderMigrationSql).
+ *
+ * With persistence.partitioning, the jobs table is converted to the partitioned layout
+ * after the migrations, and the layout is checked against the configuration on startup.
+ */
+export class Migrator {
+  private pool: Pool;
+  private logger: Logger;
+  private schemaDir: string;
+  private names: SchemaNames;
+  private partitioning: PartitioningConfig;
+  private queries: Queries;
+  private lockName: string;
+
+  constructor(
+    pool: Pool,
+    logger: Logger,
+    names: SchemaNames = DEFAULT_SCHEMA_NAMES,
+    partitioning: PartitioningConfig = {},
+    schemaDir: string = resolveSchemaDir()
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.names = names;
+    this.partitioning = partitioning;
+    this.queries = createQueries(names);
+    this.lockName = `${names.lockPrefix}:migrations`;
+    this.schemaDir = schemaDir;
+  }
+
+  loadMigrations(): Migration[] {
+    return loadMigrations(this.names, this.schemaDir);
+  }
+
+  /**
+   * Schema version this version of the library expects
+   */
+  getLatestVersion(): number {
+    const migrations = this.loadMigrations();
+    return migrations.length > 0
+      ? (migrations[migrations.length - 1] as Migration).version
+      : 0;
+  }
+
+  /**
+   * Current schema version of the database
+   * @returns null if the database has never been migrated by JobGuard
+   */
+  async getCurrentVersion(): Promise<number | null> {
+    const exists = await this.pool.query(this.queries.MIGRATIONS_TABLE_EXISTS, [
+      this.names.migrations,
+    ]);
+    if (exists.rows[0]?.exists !== true) {
+      return null;
+    }
+
+    const result = await this.pool.query(this.queries.GET_APPLIED_MIGRATIONS);
+    const versions = result.rows.map((row) => Number(row.version));
+    return versions.length > 0 ? Math.max(...versions) : 0;
+  }
+
+  /**
+   * Apply all pending migrations, then convert the jobs table if partitioning is enabled
+   * @throws SchemaVersionError if the database schema is newer than expected
+   * @throws MigrationError if the table is partitioned but partitioning is not enabled
+   */
+  async migrate(): Promise<MigrationResult> {
+    const migrations = this.loadMigrations();
+    const client = await this.pool.connect();
+    let result: MigrationResult;
+
+    try {
+      // Blocks until any other runner has finished
+      await client.query(this.queries.ADVISORY_LOCK, [
+        ADVISORY_LOCK_NAMESPACE,
+        this.lockName,
+      ]);
+
+      try {
+        result = await this.applyPending(client, migrations);
+        await this.matchLayout(client, true);
+      } finally {
+        await client.query(this.queries.ADVISORY_UNLOCK, [
+          ADVISORY_LOCK_NAMESPACE,
+          this.lockName,
+        ]);
+      }
+    } finally {
+      client.release();
+    }
+
+    // A converted or new partitioned table accepts jobs right away
+    if (this.partitioning.enabled) {
+      await new PartitionManager(
+        this.pool,
+        this.logger,
+        this.names,
+        this.partitioning
+      ).createPartitions();
+    }
+
+    return result;
+  }
+
+  /**
+   * Check that the database schema matches what this version of the library expects
+   * A database set up by hand (without the migrations table) may lack the columns and
+   * tables of later migrations, so it is refused like one with pending migrations
+   * @throws SchemaVersionError if the schema is newer, untracked or has pending migrations
+   */
+  async verify(): Promise<void> {
+    const currentVersion = (await this.getCurrentVersion()) ?? 0;
+    const latestVersion = this.getLatestVersion();
+
+    if (currentVersion !== latestVersion) {
+      throw new SchemaVersionError(currentVersion, latestVersion);
+    }
+
+    await this.matchLayout(this.pool, false);
+
+    this.logger.debug('Schema is up to date', { version: currentVersion });
+  }
+
+  /**
+   * Check the jobs table's layout against persistence.partitioning, as the queries of one
+   * layout fail on the other
+   * @param convert - Convert an unpartitioned table if partitioning is enabled
+   * @throws MigrationError if the layouts don't match
+   */
+  private async matchLayout(client: Pool | PoolClient, convert: boolean): Promise<void> {
+    const result = await client.query(this.queries.IS_PARTITIONED, [this.names.jobs]);
+    const partitioned = result.rows[0]?.partitioned === true;
+    const enabled = this.partitioning.enabled === true;
+
+    if (partitioned === enabled) {
+      return;
+    }
+
+    if (enabled && convert) {
+      await this.convertToPartitioned(client as PoolClient);
+      return;
+    }
+
+    throw new MigrationError(
+      enabled
+        ? `${this.names.jobs} is not partitioned. Run JobGuard.migrate() with ` +
+          'persistence.partitioning to convert it.'
+        : `${this.names.jobs} is partitioned. Set persistence.partitioning.enabled to use it.`
+    );
+  }
+
+  /**
+   * Convert the jobs table to the partitioned layout without copying its rows
+   *
+   * The table becomes the partition of every row created before the cutover, the start
+   * of the range after next, and is dropped by retention once all its jobs expired. The
+   * index on id and the check constraint proving the cutover are built first, without
+   * blocking writes, so the switch itself holds its locks only briefly.
+   */
+  private async convertToPartitioned(client: PoolClient): Promise<void> {
+    const interval = this.partitioning.interval || 'day';
+    const now = await client.query(this.queries.CURRENT_TIME);
+    const cutover = addRanges(
+      startOfRange(new Date(now.rows[0].now), interval),
+      interval,
+      2
+    ).toISOString();
+
+    const jobs = this.names.jobs;
+    const legacyName = `${this.names.table}_legacy`;
+    const legacy = qualifyName(this.names, legacyName);
+    const bound = quoteIdentifier(`${legacyName}_bound`);
+
+    this.logger.info('Converting the jobs table to the partitioned layout', { cutover });
+
+    try {
+      await client.query(
+        `CREATE INDEX CONCURRENTLY IF NOT EXISTS ` +
+          `${quoteIdentifier(`${this.names.indexPrefix}_job_id`)} ON ${jobs} (id)`
+      );
+      await client.query(`ALTER TABLE ${jobs} DROP CONSTRAINT IF EXISTS ${bound}`);
+      await client.query(
+        `ALTER TABLE ${jobs} ADD CONSTRAINT ${bound} ` +
+          `CHECK (created_at < '${cutover}'::TIMESTAMPTZ) NOT VALID`
+      );
+      await client.query(`ALTER TABLE ${jobs} VALIDATE CONSTRAINT ${bound}`);
+
+      await client.query('BEGIN');
+      const indexes = await client.query(this.queries.LIST_INDEXES, [jobs]);
+      await client.query(`ALTER TABLE ${jobs} RENAME TO ${quoteIdentifier(legacyName)}`);
+
+      // Frees the index names; attaching matches the indexes by their definition instead
+      for (const [index, row] of indexes.rows.entries()) {
+        await client.query(
+          `ALTER INDEX ${qualifyName(this.names, row.name)} ` +
+            `RENAME TO ${quoteIdentifier(`${legacyName}_idx${index + 1}`)}`
+        );
+      }
+      await client.query(
+        `DROP TRIGGER IF EXISTS ${this.names.placeholders.updated_at_trigger} ON ${legacy}`
+      );
+
+      await client.query(
+        `CREATE TABLE ${jobs} (LIKE ${legacy} INCLUDING DEFAULTS INCLUDING CONSTRAINTS) ` +
+          'PARTITION BY RANGE (created_at)'
+      );
+      await client.query(`ALTER TABLE ${jobs} DROP CONSTRAINT ${bound}`);
+      // Unique indexes can't span partitions (see the dedupe trigger)
+      for (const row of indexes.rows) {
+        if (!row.is_unique) {
+          await client.query(row.definition);
+        }
+      }
+      await client.query(
+        renderMigrationSql(
+          readFileSync(join(this.schemaDir, PARTITIONED_LAYOUT_FILE), 'utf8'),
+          this.names
+        )
+      );
+
+      await client.query(
+        `ALTER TABLE ${jobs} ATTACH PARTITION ${legacy} ` +
+          `FOR VALUES FROM (MINVALUE) TO ('${cutover}')`
+      );
+      await client.query(`ALTER TABLE ${legacy} DROP CONSTRAINT ${bound}`);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      // Left behind, the check would reject new jobs once the cutover has passed
+      await client
+        .query(`ALTER TABLE ${jobs} DROP CONSTRAINT IF EXISTS ${bound}`)
+        .catch(() => undefined);
+      throw new MigrationError(
+        'Failed to convert the jobs table to the partitioned layout',
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    this.logger.info('Converted the jobs table to the partitioned layout', { cutover });
+  }
+
+  private async applyPending(
+    client: PoolClient,
+    migrations: Migration[]
+  ): Promise<MigrationResult> {
+    if (this.names.schema) {
+      await client.query(this.queries.CREATE_SCHEMA);
+    }
+    await client.query(this.queries.CREATE_MIGRATIONS_TABLE);
+
+    const result = await client.query(this.queries.GET_APPLIED_MIGRATIONS);
+    const appliedVersions = new Set(result.rows.map((row) => Number(row.version)));
+    const latestVersion =
+      migrations.length > 0
+        ? (migrations[migrations.length - 1] as Migration).version
+        : 0;
+    const databaseVersion = appliedVersions.size > 0 ? Math.max(...appliedVersions) : 0;
+
+    if (databaseVersion > latestVersion) {
+      throw new SchemaVersionError(databaseVersion, latestVersion);
+    }
+
+    const applied: number[] = [];
+
+    for (const migration of migrations) {
+      if (appliedVersions.has(migration.version)) continue;
+
+      this.logger.info('Applying migration', {
+        version: migration.version,
+        name: migration.name,
+      });
+
+      try {
+        await client.query('BEGIN');
+        await client.query(migration.sql);
+        await client.query(this.queries.INSERT_MIGRATION, [
+          migration.version,
+          migration.name,
+        ]);
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        throw new MigrationError(
+          `Failed to apply migration ${migration.version} (${migration.name})`,
+          error instanceof Error ? error : undefined
+        );
+      }
+
+      applied.push(migration.version);
+    }
+
+    if (applied.length > 0) {
+      this.logger.info('Schema migrated', { version: latestVersion });
+    } else {
+      this.logger.debug('Schema is up to date', { version: latestVersion });
+    }
+
+    return { applied, currentVersion: latestVersion };
+  }
+}
@@ -0,0 +1,328 @@
+import { Pool, PoolClient, QueryResult } from 'pg';
+import { ArchiveConfig, PartitioningConfig } from '../types/config';
+import {
+  ADVISORY_LOCK_NAMESPACE,
+  archiveJobsSql,
+  archiveLinesSql,
+  createQueries,
+  Queries,
+} from './queries';
+import { DEFAULT_SCHEMA_NAMES, qualifyName, SchemaNames } from './schema-names';
+import { appendToArchiveFile, RetentionDays } from './retention';
+import { Logger } from '../utils/logger';
+
+type PartitionInterval = NonNullable<PartitioningConfig['interval']>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Partitions exist well ahead of time, so an hourly check is plenty
+const CREATE_INTERVAL_MS = 3600000;
+// Jobs written to an archive file per query
+const ARCHIVE_BATCH_SIZE = 1000;
+
+/**
+ * Start of the partition range containing the given time: midnight UTC, Monday for weeks
+ */
+export function startOfRange(time: Date, interval: PartitionInterval): Date {
+  const start = new Date(
+    Date.UTC(time.getUTCFullYear(), time.getUTCMonth(), time.getUTCDate())
+  );
+  if (interval === 'week') {
+    // getUTCDay() is 0 on Sundays
+    start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  }
+  return start;
+}
+
+/**
+ * Move a range start by a number of ranges (UTC days have no DST changes)
+ */
+export function addRanges(start: Date, interval: PartitionInterval, count: number): Date {
+  return new Date(start.getTime() + count * (interval === 'week' ? 7 : 1) * DAY_MS);
+}
+
+// 20260105 for 2026-01-05
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+interface Partition {
+  name: string;
+  upperBound: Date | null; // null for ranges without an upper bound
+}
+
+/**
+ * Creates and drops the partitions of a partitioned jobs table (persistence.partitioning)
+ *
+ * Partitions are named after the start of their range (<table>_p20260105). Retention
+ * drops a partition once its range ended before the shortest retention period and all
+ * its jobs are past the retention of their status; a partition that still holds live
+ * jobs is kept until they expire. With an archive, the jobs are archived first.
+ * Instances maintaining the same table take turns through an advisory lock.
+ */
+export class PartitionManager {
+  private pool: Pool;
+  private logger: Logger;
+  private names: SchemaNames;
+  private queries: Queries;
+  private config: Required<Omit<PartitioningConfig, 'enabled'>>;
+  private archive: ArchiveConfig;
+  private lockName: string;
+  private createInterval?: NodeJS.Timeout;
+
+  constructor(
+    pool: Pool,
+    logger: Logger,
+    names: SchemaNames = DEFAULT_SCHEMA_NAMES,
+    config: PartitioningConfig = {},
+    archive: ArchiveConfig = {}
+  ) {
+    this.pool = pool;
+    this.logger = logger;
+    this.names = names;
+    this.queries = createQueries(names, true);
+    this.config = {
+      interval: config.interval || 'day',
+      partitionsAhead: config.partitionsAhead ?? 7,
+    };
+    this.archive = archive;
+    this.lockName = `${names.lockPrefix}:partitions`;
+  }
+
+  /**
+   * Keep creating partitions ahead of time
+   */
+  start(): void {
+    this.createInterval = setInterval(() => {
+      this.createPartitions().catch((error) => {
+        this.logger.error('Failed to create partitions', { err: error });
+      });
+    }, CREATE_INTERVAL_MS);
+
+    // Don't prevent process from exiting
+    this.createInterval.unref();
+  }
+
+  stop(): void {
+    if (this.createInterval) {
+      clearInterval(this.createInterval);
+      this.createInterval = undefined;
+    }
+  }
+
+  /**
+   * Create the partition of the current range and partitionsAhead more
+   * @returns Names of the partitions created
+   */
+  async createPartitions(): Promise<string[]> {
+    const created = await this.withMaintenanceLock(async (client) => {
+      const { interval, partitionsAhead } = this.config;
+      const current = startOfRange(await this.currentTime(client), interval);
+      const until = addRanges(current, interval, partitionsAhead + 1);
+
+      // Ranges continue from the latest one (a converted table's range ends in the future)
+      const latest = (await this.listPartitions(client)).reduce<Date | null>(
+        (max, partition) =>
+          partition.upperBound && (!max || partition.upperBound > max)
+            ? partition.upperBound
+            : max,
+        null
+      );
+
+      const names: string[] = [];
+      let start = latest && latest > current ? latest : current;
+      while (start < until) {
+        const end = addRanges(startOfRange(start, interval), interval, 1);
+        const name = `${this.names.table}_p${formatDate(start)}`;
+
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS ${qualifyName(this.names, name)}
+            PARTITION OF ${this.names.jobs}
+            FOR VALUES FROM ('${start.toISOString()}') TO ('${end.toISOString()}')
+        `);
+        names.push(name);
+        start = end;
+      }
+
+      return names;
+    });
+
+    if (created && created.length > 0) {
+      this.logger.info('Created partitions', { partitions: created });
+    }
+    return created ?? [];
+  }
+
+  /**
+   * Drop the partitions whose jobs are all past the retention of their status, together
+   * with the jobs' history
+   * @returns Names of the partitions dropped
+   */
+  async dropExpiredPartitions(retention: RetentionDays): Promise<string[]> {
+    const dropped = await this.withMaintenanceLock(async (client) => {
+      const now = (await this.currentTime(client)).getTime();
+      const cutoffs = [retention.completed, retention.failed, retention.dead].map(
+        (days) => new Date(now - days * DAY_MS)
+      );
+      // Ranges that ended before the shortest retention period may hold only expired jobs
+      const latestCutoff = new Date(
+        Math.max(...cutoffs.map((cutoff) => cutoff.getTime()))
+      );
+      const expired = (await this.listPartitions(client)).filter(
+        (partition) => partition.upperBound && partition.upperBound <= latestCutoff
+      );
+
+      const names: string[] = [];
+      const kept: string[] = [];
+      for (const partition of expired) {
+        if (await this.dropPartition(client, partition.name, cutoffs)) {
+          names.push(partition.name);
+        } else {
+          kept.push(partition.name);
+        }
+      }
+
+      if (kept.length > 0) {
+        this.logger.warn('Kept expired partitions that still hold live jobs', {
+          partitions: kept,
+        });
+      }
+      return names;
+    });
+
+    return dropped ?? [];
+  }
+
+  /**
+   * Drop one partition in its own transaction, so other queries wait for one drop at most
+   * @param cutoffs - Jobs finished before these times expired: completed, failed, dead
+   * @returns false if the partition still holds live jobs
+   */
+  private async dropPartition(
+    client: PoolClient,
+    name: string,
+    cutoffs: Date[]
+  ): Promise<boolean> {
+    const partition = qualifyName(this.names, name);
+
+    try {
+      await client.query('BEGIN');
+      // Blocks writes (a manual retry could revive a job) but not reads until the drop
+      await client.query(`LOCK TABLE ${partition} IN SHARE ROW EXCLUSIVE MODE`);
+
+      const live = await client.query(
+        `
+          SELECT EXISTS (
+            SELECT 1 FROM ${partition}
+            WHERE status NOT IN ('completed', 'failed', 'dead')
+              OR COALESCE(completed_at, updated_at) >= CASE status
+                WHEN 'completed' THEN $1::TIMESTAMPTZ
+                WHEN 'failed' THEN $2::TIMESTAMPTZ
+                ELSE $3::TIMESTAMPTZ
+              END
+          ) AS live
+        `,
+        cutoffs
+      );
+      if (live.rows[0]?.live === true) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      await this.archivePartition(client, partition);
+
+      await client.query(
+        `DELETE FROM ${this.names.events} WHERE job_uuid IN (SELECT id FROM ${partition})`
+      );
+      await client.query(`DROP TABLE ${partition}`);
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  /**
+   * Archive the jobs of a partition about to be dropped, if an archive is enabled
+   */
+  private async archivePartition(client: PoolClient, partition: string): Promise<void> {
+    if (!this.archive.enabled) {
+      return;
+    }
+
+    if ((this.archive.target ?? 'table') === 'table') {
+      await client.query(archiveJobsSql(this.names, partition));
+      return;
+    }
+
+    // Keyset batches keep memory bounded for large partitions
+    let lastId: string | null = null;
+    for (;;) {
+      const result: QueryResult = await client.query(
+        `
+          ${archiveLinesSql(this.names, partition)}
+          WHERE $1::UUID IS NULL OR jobs.id > $1::UUID
+          ORDER BY jobs.id ASC
+          LIMIT $2
+        `,
+        [lastId, ARCHIVE_BATCH_SIZE]
+      );
+      const lastRow = result.rows[result.rows.length - 1];
+      if (!lastRow) {
+        return;
+      }
+
+      await appendToArchiveFile(
+        this.archive.filePath as string,
+        result.rows.map((row) => row.line)
+      );
+      lastId = lastRow.id;
+    }
+  }
+
+  /**
+   * Run maintenance on a dedicated connection, unless another instance is already at it
+   * @returns undefined if maintenance was skipped
+   */
+  private async withMaintenanceLock<T>(
+    fn: (client: PoolClient) => Promise<T>
+  ): Promise<T | undefined> {
+    const client = await this.pool.connect();
+
+    try {
+      const result = await client.query(this.queries.TRY_ADVISORY_LOCK, [
+        ADVISORY_LOCK_NAMESPACE,
+        this.lockName,
+      ]);
+      if (result.rows[0]?.acquired !== true) {
+        this.logger.debug('Partitions are maintained by another instance');
+        return undefined;
+      }
+
+      try {
+        return await fn(client);
+      } finally {
+        await client.query(this.queries.ADVISORY_UNLOCK, [
+          ADVISORY_LOCK_NAMESPACE,
+          this.lockName,
+        ]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  // Database time, as created_at defaults to it
+  private async currentTime(client: PoolClient): Promise<Date> {
+    const result = await client.query(this.queries.CURRENT_TIME);
+    return new Date(result.rows[0].now);
+  }
+
+  private async listPartitions(client: PoolClient): Promise<Partition[]> {
+    const result = await client.query(this.queries.LIST_PARTITIONS, [this.names.jobs]);
+    return result.rows.map((row) => ({
+      name: row.name as string,
+      upperBound: row.upper_bound ? new Date(row.upper_bound) : null,
+    }));
+  }
+}
@@ -1,108 +1,723 @@
-export const QUERIES = {
-  INSERT_JOB: `
-    INSERT INTO jobguard_jobs (
-      queue_name, queue_type, job_id, job_name, data, status, attempts, max_attempts
-    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-    ON CONFLICT (queue_name, queue_type, job_id)
-      WHERE status NOT IN ('completed', 'failed', 'dead')
-    DO UPDATE SET
-      data = EXCLUDED.data,
-      status = EXCLUDED.status,
-      attempts = EXCLUDED.attempts,
-      updated_at = NOW()
-    WHERE jobguard_jobs.status NOT IN ('completed', 'failed', 'dead')
-    RETURNING *
-  `,
-
-  UPDATE_JOB_STATUS: `
-    UPDATE jobguard_jobs
-    SET status = $1::VARCHAR,
-        updated_at = NOW(),
-        started_at = CASE WHEN $1::VARCHAR = 'processing' THEN NOW() ELSE started_at END,
-        last_heartbeat = CASE WHEN $1::VARCHAR = 'processing' THEN NOW() ELSE last_heartbeat END,
-        completed_at = CASE WHEN $1::VARCHAR IN ('completed', 'failed', 'dead') THEN NOW() ELSE completed_at END
-    WHERE queue_name = $2 AND queue_type = $3 AND job_id = $4
-    RETURNING *
-  `,
-
-  UPDATE_JOB_ERROR: `
-    UPDATE jobguard_jobs
-    SET attempts = attempts + 1,
-        error_message = $1,
-        status = CASE
-          WHEN attempts + 1 >= max_attempts THEN 'dead'::VARCHAR
-          ELSE 'failed'::VARCHAR
-        END,
-        updated_at = NOW(),
-        completed_at = CASE
-          WHEN attempts + 1 >= max_attempts THEN NOW()
-          ELSE completed_at
-        END
-    WHERE queue_name = $2 AND queue_type = $3 AND job_id = $4
-    RETURNING *
-  `,
-
-  GET_STUCK_JOBS: `
-    SELECT * FROM jobguard_jobs
-    WHERE queue_name = $1
-      AND status = 'processing'
-      AND COALESCE(last_heartbeat, updated_at) < NOW() - INTERVAL '1 millisecond' * $2
-    ORDER BY COALESCE(last_heartbeat, updated_at) ASC
-    LIMIT $3
-    FOR UPDATE SKIP LOCKED
-  `,
-
-  MARK_AS_STUCK: `
-    UPDATE jobguard_jobs
-    SET status = 'stuck', updated_at = NOW()
-    WHERE id = ANY($1)
-    RETURNING *
-  `,
-
-  DELETE_OLD_JOBS: `
-    DELETE FROM jobguard_jobs
-    WHERE status IN ('completed', 'failed', 'dead')
-      AND completed_at < NOW() - INTERVAL '1 day' * $1
-  `,
-
-  GET_STATISTICS: `
-    SELECT
-      status,
-      COUNT(*) as count
-    FROM jobguard_jobs
-    WHERE queue_name = $1
-    GROUP BY status
-  `,
-
-  GET_JOB: `
-    SELECT * FROM jobguard_jobs
-    WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
-  `,
-
-  BULK_UPDATE_STATUS: `
-    UPDATE jobguard_jobs
-    SET status = $1::VARCHAR,
-        updated_at = NOW()
-    FROM unnest($2::uuid[]) AS job_ids(id)
-    WHERE jobguard_jobs.id = job_ids.id
-    RETURNING jobguard_jobs.*
-  `,
-
-  BULK_MARK_DEAD: `
-    UPDATE jobguard_jobs
-    SET status = 'dead'::VARCHAR,
-        updated_at = NOW(),
-        completed_at = NOW()
-    FROM unnest($1::uuid[]) AS job_ids(id)
-    WHERE jobguard_jobs.id = job_ids.id
-    RETURNING jobguard_jobs.*
-  `,
-
-  UPDATE_HEARTBEAT: `
-    UPDATE jobguard_jobs
-    SET last_heartbeat = NOW()
-    WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
-      AND status = 'processing'
-    RETURNING *
-  `,
-};
+import { JobFilter } from '../types/job';
+import { DEFAULT_SCHEMA_NAMES, SchemaNames } from './schema-names';
+
+/**
+ * Advisory lock namespace for JobGuard ('JG' in ASCII)
+ * Keeps our locks apart from application locks that use the single-key form
+ */
+export const ADVISORY_LOCK_NAMESPACE = 0x4a47;
+
+/**
+ * Records a lifecycle event for every row returned by the `changed` CTE
+ * Arguments are SQL expressions evaluated against the changed row
+ */
+function recordEventSql(
+  events: string,
+  eventType: string,
+  source: string,
+  metadata = 'NULL::JSONB',
+  errorMessage = 'NULL'
+): string {
+  return `
+    INSERT INTO ${events} (
+      job_uuid, queue_name, queue_type, job_id, event_type, status, attempt,
+      error_message, source, metadata
+    )
+    SELECT id, queue_name, queue_type, job_id, ${eventType}, status, attempts,
+      ${errorMessage}, ${source}, ${metadata}
+    FROM changed
+  `;
+}
+
+/**
+ * Columns of the jobs table that the archive table shares, in the same order
+ */
+const JOB_COLUMNS = `id, queue_name, queue_type, job_id, job_name, data, status, attempts,
+  max_attempts, error_message, created_at, updated_at, started_at, completed_at,
+  last_heartbeat, trace_context, opts, parent_key, run_at`;
+
+/**
+ * History of the job aliased `jobs`, oldest first, as a JSONB array
+ */
+function jobHistorySql(events: string): string {
+  return `COALESCE(
+    (SELECT jsonb_agg(to_jsonb(e) ORDER BY e.id) FROM ${events} e WHERE e.job_uuid = jobs.id),
+    '[]'::JSONB
+  )`;
+}
+
+/**
+ * Copy the jobs selected by `source` (a table or CTE) to the archive table
+ */
+export function archiveJobsSql(names: SchemaNames, source: string): string {
+  return `
+    INSERT INTO ${names.archive} (${JOB_COLUMNS}, events, archived_at)
+    SELECT ${JOB_COLUMNS}, ${jobHistorySql(names.events)}, NOW()
+    FROM ${source} AS jobs
+  `;
+}
+
+/**
+ * Select the jobs of `source` as NDJSON archive lines: the job's columns, its history
+ * (events) and archived_at
+ */
+export function archiveLinesSql(names: SchemaNames, source: string): string {
+  return `
+    SELECT jobs.id, to_jsonb(jobs) || jsonb_build_object(
+      'events', ${jobHistorySql(names.events)},
+      'archived_at', NOW()
+    ) AS line
+    FROM ${source} AS jobs
+  `;
+}
+
+/**
+ * Jobs of the jobs and archive tables, as one relation aliased `jobs`
+ */
+function jobsWithArchiveSql(names: Pick<SchemaNames, 'jobs' | 'archive'>): string {
+  return `(
+    SELECT ${JOB_COLUMNS}, NULL::TIMESTAMPTZ AS archived_at FROM ${names.jobs}
+    UNION ALL
+    SELECT ${JOB_COLUMNS}, archived_at FROM ${names.archive}
+  ) AS jobs`;
+}
+
+/**
+ * SQL for JobGuard's tables under the given names
+ * @param partitioned - Jobs table uses the partitioned layout (persistence.partitioning)
+ */
+export function createQueries(names: SchemaNames, partitioned = false) {
+  const { jobs, events, archive, migrations } = names;
+  const recordEvent = (
+    eventType: string,
+    source: string,
+    metadata?: string,
+    errorMessage?: string
+  ): string => recordEventSql(events, eventType, source, metadata, errorMessage);
+
+  // Finished jobs past the retention of their status: $1, $2 and $3 are the days for
+  // completed, failed and dead jobs (the shortest one lets the cleanup index narrow rows)
+  const expired = `
+    status IN ('completed', 'failed', 'dead')
+    AND completed_at < NOW() - INTERVAL '1 day' * LEAST($1::FLOAT8, $2::FLOAT8, $3::FLOAT8)
+    AND completed_at < NOW() - INTERVAL '1 day' * CASE status
+      WHEN 'completed' THEN $1::FLOAT8
+      WHEN 'failed' THEN $2::FLOAT8
+      ELSE $3::FLOAT8
+    END
+  `;
+
+  // Rows of INSERT_JOBS: job IDs, names, data, attempt limits, parent keys, options and
+  // due times
+  const newJobsSql = `
+    SELECT * FROM unnest(
+      $3::VARCHAR[], $4::VARCHAR[], $5::JSONB[], $6::SMALLINT[], $7::TEXT[], $10::JSONB[],
+      $11::TIMESTAMPTZ[]
+    ) AS new_jobs(job_id, job_name, data, max_attempts, parent_key, opts, run_at)
+  `;
+
+  // Skips a job whose events already hold the writeId of the metadata parameter, i.e. a
+  // spooled write replayed again after a crash (see applyJobWrite)
+  const notYetApplied = (metadata: string): string => `
+    (${metadata}::JSONB -> 'writeId' IS NULL OR NOT EXISTS (
+      SELECT 1 FROM ${events} AS applied
+      WHERE applied.job_uuid = jobs.id
+        AND applied.metadata @> jsonb_build_object('writeId', ${metadata}::JSONB -> 'writeId')
+    ))
+  `;
+
+  // Job data replaced by a stub (see createJobDataStub)
+  const isStub = `data @> '{"__jobguard_stub": true}'::JSONB`;
+
+  // Unique indexes can't span partitions; there the dedupe trigger skips the row instead
+  const skipActiveDuplicate = partitioned
+    ? ''
+    : `ON CONFLICT (queue_name, queue_type, job_id)
+          WHERE status NOT IN ('completed', 'failed', 'dead')
+        DO NOTHING`;
+
+  return {
+    INSERT_JOB: partitioned
+      ? `
+      WITH updated AS (
+        UPDATE ${jobs} AS jobs
+        SET data = $5,
+            status = $6,
+            attempts = $7,
+            trace_context = $10,
+            parent_key = COALESCE($11::TEXT, parent_key),
+            opts = COALESCE($12::JSONB, opts),
+            run_at = $13::TIMESTAMPTZ,
+            updated_at = NOW()
+        WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
+          AND status NOT IN ('completed', 'failed', 'dead')
+        RETURNING *
+      ), inserted AS (
+        INSERT INTO ${jobs} (
+          queue_name, queue_type, job_id, job_name, data, status, attempts, max_attempts,
+          trace_context, parent_key, opts, run_at
+        )
+        SELECT $1, $2, $3, $4::VARCHAR, $5, $6, $7, $8::SMALLINT, $10, $11::TEXT, $12::JSONB,
+          $13::TIMESTAMPTZ
+        WHERE NOT EXISTS (SELECT 1 FROM updated)
+        RETURNING *
+      ), changed AS (
+        SELECT * FROM updated UNION ALL SELECT * FROM inserted
+      ), event AS (${recordEvent("'created'", '$9')})
+      SELECT * FROM changed
+    `
+      : `
+      WITH changed AS (
+        INSERT INTO ${jobs} AS jobs (
+          queue_name, queue_type, job_id, job_name, data, status, attempts, max_attempts,
+          trace_context, parent_key, opts, run_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $10, $11, $12, $13)
+        ON CONFLICT (queue_name, queue_type, job_id)
+          WHERE status NOT IN ('completed', 'failed', 'dead')
+        DO UPDATE SET
+          data = EXCLUDED.data,
+          status = EXCLUDED.status,
+          attempts = EXCLUDED.attempts,
+          trace_context = EXCLUDED.trace_context,
+          parent_key = COALESCE(EXCLUDED.parent_key, jobs.parent_key),
+          opts = COALESCE(EXCLUDED.opts, jobs.opts),
+          run_at = EXCLUDED.run_at,
+          updated_at = NOW()
+        WHERE jobs.status NOT IN ('completed', 'failed', 'dead')
+        RETURNING *
+      ), event AS (${recordEvent("'created'", '$9')})
+      SELECT * FROM changed
+    `,
+
+    // Multi-row INSERT_JOB for jobs added together (addBulk, flows): $3 to $7, $10 and
+    // $11 hold one element per job, with job IDs unique within the batch
+    INSERT_JOBS: partitioned
+      ? `
+      WITH new_jobs AS (${newJobsSql}), updated AS (
+        UPDATE ${jobs} AS jobs
+        SET data = new_jobs.data,
+            status = 'pending',
+            attempts = 0,
+            trace_context = $9,
+            parent_key = COALESCE(new_jobs.parent_key, jobs.parent_key),
+            opts = COALESCE(new_jobs.opts, jobs.opts),
+            run_at = new_jobs.run_at,
+            updated_at = NOW()
+        FROM new_jobs
+        WHERE jobs.queue_name = $1 AND jobs.queue_type = $2
+          AND jobs.job_id = new_jobs.job_id
+          AND jobs.status NOT IN ('completed', 'failed', 'dead')
+        RETURNING jobs.*
+      ), inserted AS (
+        INSERT INTO ${jobs} (
+          queue_name, queue_type, job_id, job_name, data, status, attempts, max_attempts,
+          trace_context, parent_key, opts, run_at
+        )
+        SELECT $1, $2, job_id, job_name, data, 'pending', 0, max_attempts, $9, parent_key,
+          opts, run_at
+        FROM new_jobs
+        WHERE job_id NOT IN (SELECT job_id FROM updated)
+        RETURNING *
+      ), changed AS (
+        SELECT * FROM updated UNION ALL SELECT * FROM inserted
+      ), event AS (${recordEvent("'created'", '$8')})
+      SELECT * FROM changed
+    `
+      : `
+      WITH changed AS (
+        INSERT INTO ${jobs} AS jobs (
+          queue_name, queue_type, job_id, job_name, data, status, attempts, max_attempts,
+          trace_context, parent_key, opts, run_at
+        )
+        SELECT $1, $2, job_id, job_name, data, 'pending', 0, max_attempts, $9, parent_key,
+          opts, run_at
+        FROM (${newJobsSql}) AS new_jobs
+        ON CONFLICT (queue_name, queue_type, job_id)
+          WHERE status NOT IN ('completed', 'failed', 'dead')
+        DO UPDATE SET
+          data = EXCLUDED.data,
+          status = EXCLUDED.status,
+          attempts = EXCLUDED.attempts,
+          trace_context = EXCLUDED.trace_context,
+          parent_key = COALESCE(EXCLUDED.parent_key, jobs.parent_key),
+          opts = COALESCE(EXCLUDED.opts, jobs.opts),
+          run_at = EXCLUDED.run_at,
+          updated_at = NOW()
+        WHERE jobs.status NOT IN ('completed', 'failed', 'dead')
+        RETURNING *
+      ), event AS (${recordEvent("'created'", '$8')})
+      SELECT * FROM changed
+    `,
+
+    // Outbox job inserted in the caller's transaction; returns no row if the job is already tracked
+    INSERT_OUTBOX_JOB: `
+      WITH changed AS (
+        INSERT INTO ${jobs} AS jobs (
+          queue_name, queue_type, job_id, job_name, data, status, attempts, max_attempts,
+          opts, trace_context
+        ) VALUES ($1, $2, $3, $4, $5, 'pending_dispatch', 0, $6, $7, $8)
+        ${skipActiveDuplicate}
+        RETURNING *
+      ), event AS (${recordEvent("'created'", '$9')})
+      SELECT * FROM changed
+    `,
+
+    // Insert-if-missing for jobs found in Redis; returns no row if the job is already tracked
+    BACKFILL_JOB: `
+      WITH changed AS (
+        INSERT INTO ${jobs} AS jobs (
+          queue_name, queue_type, job_id, job_name, data, status, attempts, max_attempts,
+          started_at, last_heartbeat, run_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6::VARCHAR, $7, $8,
+          CASE WHEN $6::VARCHAR = 'processing' THEN NOW() END,
+          CASE WHEN $6::VARCHAR = 'processing' THEN NOW() END,
+          $10
+        )
+        ${skipActiveDuplicate}
+        RETURNING *
+      ), event AS (${recordEvent("'backfilled'", '$9')})
+      SELECT id FROM changed
+    `,
+
+    UPDATE_JOB_STATUS: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = $1::VARCHAR,
+            updated_at = NOW(),
+            started_at = CASE WHEN $1::VARCHAR = 'processing' THEN NOW() ELSE started_at END,
+            last_heartbeat = CASE WHEN $1::VARCHAR = 'processing' THEN NOW() ELSE last_heartbeat END,
+            completed_at = CASE WHEN $1::VARCHAR IN ('completed', 'failed', 'dead') THEN NOW() ELSE completed_at END
+        WHERE queue_name = $2 AND queue_type = $3 AND job_id = $4
+          AND ${notYetApplied('$6')}
+        RETURNING *
+      ), event AS (${recordEvent('status', '$5', '$6::JSONB')})
+      SELECT * FROM changed
+    `,
+
+    // Only a job claimed by the reconciler (stuck) goes back to pending
+    MARK_JOB_RE_ENQUEUED: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = 'pending', updated_at = NOW()
+        WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
+          AND status = 'stuck'
+        RETURNING *
+      ), event AS (${recordEvent("'re_enqueued'", '$4', '$5::JSONB')})
+      SELECT * FROM changed
+    `,
+
+    UPDATE_JOB_ERROR: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET attempts = attempts + 1,
+            error_message = $1,
+            status = CASE
+              WHEN attempts + 1 >= max_attempts THEN 'dead'::VARCHAR
+              ELSE 'failed'::VARCHAR
+            END,
+            updated_at = NOW(),
+            completed_at = CASE
+              WHEN attempts + 1 >= max_attempts THEN NOW()
+              ELSE completed_at
+            END
+        WHERE queue_name = $2 AND queue_type = $3 AND job_id = $4
+          AND ${notYetApplied('$6')}
+        RETURNING *
+      ), event AS (${recordEvent('status', '$5', '$6::JSONB', 'error_message')})
+      SELECT * FROM changed
+    `,
+
+    GET_STUCK_JOBS: `
+      SELECT * FROM ${jobs}
+      WHERE queue_name = $1
+        AND status = 'processing'
+        AND COALESCE(last_heartbeat, updated_at) < NOW() - INTERVAL '1 millisecond' * $2
+      ORDER BY COALESCE(last_heartbeat, updated_at) ASC
+      LIMIT $3
+      FOR UPDATE SKIP LOCKED
+    `,
+
+    // Locked until the dispatching transaction ends; other dispatchers skip these rows
+    GET_JOBS_TO_DISPATCH: `
+      SELECT * FROM ${jobs}
+      WHERE queue_name = $1
+        AND queue_type = $2
+        AND status = 'pending_dispatch'
+      ORDER BY created_at ASC, id ASC
+      LIMIT $3
+      FOR UPDATE SKIP LOCKED
+    `,
+
+    // The delay of an outbox job (opts.delay, or Bee-Queue's delayUntil as a timestamp in
+    // milliseconds) runs from the moment it is dispatched
+    MARK_JOBS_DISPATCHED: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = 'pending',
+            run_at = CASE
+              WHEN jsonb_typeof(jobs.opts -> 'delay') = 'number'
+                THEN NOW() + INTERVAL '1 millisecond' * (jobs.opts ->> 'delay')::FLOAT8
+              WHEN jsonb_typeof(jobs.opts -> 'delayUntil') = 'number'
+                THEN to_timestamp((jobs.opts ->> 'delayUntil')::FLOAT8 / 1000)
+            END,
+            updated_at = NOW()
+        FROM unnest($1::uuid[]) AS job_ids(id)
+        WHERE jobs.id = job_ids.id
+          AND jobs.status = 'pending_dispatch'
+        RETURNING jobs.*
+      ), event AS (${recordEvent("'dispatched'", '$2')})
+      SELECT id FROM changed
+    `,
+
+    // Keyset pagination over (created_at, id) so successive runs cover the whole backlog
+    // The cursor row is looked up by id to compare against its exact (microsecond) timestamp
+    // A delayed job is only late once its run_at has passed by the threshold
+    GET_ORPHAN_CANDIDATES: `
+      SELECT * FROM ${jobs}
+      WHERE queue_name = $1
+        AND queue_type = $2
+        AND status = 'pending'
+        AND COALESCE(run_at, created_at) < NOW() - INTERVAL '1 millisecond' * $3
+        AND (
+          $4::UUID IS NULL OR
+          (created_at, id) > (SELECT c.created_at, c.id FROM ${jobs} c WHERE c.id = $4::UUID)
+        )
+      ORDER BY created_at ASC, id ASC
+      LIMIT $5
+    `,
+
+    // Only claims the job if it is still pending (not picked up in the meantime)
+    // A stubbed payload (oversizedJobPolicy: 'stub') can't be replayed, so the job is dead
+    CLAIM_ORPHANED_JOB: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = CASE WHEN ${isStub} THEN 'dead' ELSE 'stuck' END,
+            completed_at = CASE WHEN ${isStub} THEN NOW() ELSE completed_at END,
+            updated_at = NOW()
+        WHERE id = $1 AND status = 'pending'
+        RETURNING *
+      ), event AS (${recordEvent('status', '$2', `'{"reason": "missing_from_redis"}'::JSONB`)})
+      SELECT * FROM changed
+    `,
+
+    // Manual retry: a failed/dead job is claimed as stuck so the adapter's re-enqueue path
+    // picks it up; completed_at is cleared so retention does not delete the revived job.
+    // Stubbed jobs are left alone since their data can't be replayed
+    CLAIM_JOB_FOR_RETRY: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = 'stuck',
+            attempts = CASE WHEN $2::BOOLEAN THEN 0 ELSE attempts END,
+            max_attempts = COALESCE($3::INTEGER, max_attempts),
+            completed_at = NULL,
+            updated_at = NOW()
+        WHERE id = $1 AND status IN ('failed', 'dead') AND NOT ${isStub}
+        RETURNING *
+      ), event AS (${recordEvent("'retry_requested'", '$4', '$5::JSONB')})
+      SELECT * FROM changed
+    `,
+
+    // Puts a retry claim back when the job could not be re-enqueued
+    RELEASE_RETRY_CLAIM: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = $2::VARCHAR,
+            attempts = $3,
+            max_attempts = $4,
+            completed_at = $5,
+            updated_at = NOW()
+        WHERE id = $1 AND status = 'stuck'
+        RETURNING *
+      ), event AS (${recordEvent('status', '$6', `'{"reason": "retry_failed"}'::JSONB`)})
+      SELECT * FROM changed
+    `,
+
+    MARK_AS_STUCK: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = 'stuck', updated_at = NOW()
+        WHERE id = ANY($1)
+        RETURNING *
+      ), event AS (${recordEvent("'stuck'", '$2', `'{"reason": "stale_heartbeat"}'::JSONB`)})
+      SELECT * FROM changed
+    `,
+
+    // History is deleted together with its job
+    DELETE_OLD_JOBS: `
+      WITH deleted AS (
+        DELETE FROM ${jobs}
+        WHERE ${expired}
+        RETURNING id
+      ), deleted_events AS (
+        DELETE FROM ${events}
+        WHERE job_uuid IN (SELECT id FROM deleted)
+      )
+      SELECT COUNT(*)::INTEGER AS count FROM deleted
+    `,
+
+    // All parts see the same snapshot, so the history is archived before it is deleted
+    ARCHIVE_OLD_JOBS: `
+      WITH moved AS (
+        DELETE FROM ${jobs}
+        WHERE ${expired}
+        RETURNING *
+      ), archived AS (${archiveJobsSql(names, 'moved')}), deleted_events AS (
+        DELETE FROM ${events}
+        WHERE job_uuid IN (SELECT id FROM moved)
+      )
+      SELECT COUNT(*)::INTEGER AS count FROM moved
+    `,
+
+    // Locked until the exporting transaction deletes them
+    GET_EXPIRED_JOB_LINES: `
+      ${archiveLinesSql(names, jobs)}
+      WHERE ${expired}
+      ORDER BY completed_at ASC
+      LIMIT $4
+      FOR UPDATE OF jobs SKIP LOCKED
+    `,
+
+    DELETE_JOBS: `
+      WITH deleted AS (
+        DELETE FROM ${jobs}
+        WHERE id = ANY($1::uuid[])
+        RETURNING id
+      ), deleted_events AS (
+        DELETE FROM ${events}
+        WHERE job_uuid IN (SELECT id FROM deleted)
+      )
+      SELECT COUNT(*)::INTEGER AS count FROM deleted
+    `,
+
+    DELETE_OLD_ARCHIVED_JOBS: `
+      WITH deleted AS (
+        DELETE FROM ${archive}
+        WHERE archived_at < NOW() - INTERVAL '1 day' * $1
+        RETURNING id
+      )
+      SELECT COUNT(*)::INTEGER AS count FROM deleted
+    `,
+
+    // delayed: pending jobs that are not due yet, counted within the pending count
+    GET_STATISTICS: `
+      SELECT
+        status,
+        COUNT(*) as count,
+        COUNT(*) FILTER (WHERE status = 'pending' AND run_at > NOW()) as delayed
+      FROM ${jobs}
+      WHERE queue_name = $1
+      GROUP BY status
+    `,
+
+    // A job ID can be reused once the previous job finished - return the latest run
+    GET_JOB: `
+      SELECT * FROM ${jobs}
+      WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `,
+
+    GET_JOB_INCLUDING_ARCHIVE: `
+      SELECT * FROM ${jobsWithArchiveSql(names)}
+      WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
+      ORDER BY created_at DESC, id DESC
+      LIMIT 1
+    `,
+
+    GET_JOB_EVENTS: `
+      SELECT * FROM ${events}
+      WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
+      ORDER BY id ASC
+    `,
+
+    // Archived events keep their IDs, so both sources sort together
+    GET_JOB_EVENTS_INCLUDING_ARCHIVE: `
+      SELECT * FROM ${events}
+      WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
+      UNION ALL
+      SELECT history.*
+      FROM ${archive} AS archived,
+        jsonb_populate_recordset(NULL::${events}, archived.events) AS history
+      WHERE archived.queue_name = $1 AND archived.queue_type = $2 AND archived.job_id = $3
+      ORDER BY id ASC
+    `,
+
+    BULK_UPDATE_STATUS: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = $1::VARCHAR,
+            updated_at = NOW()
+        FROM unnest($2::uuid[]) AS job_ids(id)
+        WHERE jobs.id = job_ids.id
+        RETURNING jobs.*
+      ), event AS (${recordEvent('status', '$3')})
+      SELECT * FROM changed
+    `,
+
+    BULK_MARK_DEAD: `
+      WITH changed AS (
+        UPDATE ${jobs} AS jobs
+        SET status = 'dead'::VARCHAR,
+            updated_at = NOW(),
+            completed_at = NOW()
+        FROM unnest($1::uuid[]) AS job_ids(id)
+        WHERE jobs.id = job_ids.id
+        RETURNING jobs.*
+      ), event AS (${recordEvent("'dead'", '$2')})
+      SELECT * FROM changed
+    `,
+
+    UPDATE_HEARTBEAT: `
+      UPDATE ${jobs}
+      SET last_heartbeat = NOW()
+      WHERE queue_name = $1 AND queue_type = $2 AND job_id = $3
+        AND status = 'processing'
+      RETURNING *
+    `,
+
+    // Session-level advisory locks, keyed by (namespace, hashtext(name))
+    TRY_ADVISORY_LOCK: `
+      SELECT pg_try_advisory_lock($1::INTEGER, hashtext($2)) AS acquired
+    `,
+
+    ADVISORY_LOCK: `
+      SELECT pg_advisory_lock($1::INTEGER, hashtext($2))
+    `,
+
+    ADVISORY_UNLOCK: `
+      SELECT pg_advisory_unlock($1::INTEGER, hashtext($2)) AS released
+    `,
+
+    IS_PARTITIONED: `
+      SELECT relkind = 'p' AS partitioned FROM pg_class WHERE oid = to_regclass($1)
+    `,
+
+    // Upper bound of each partition's range, parsed back by PostgreSQL from its bound spec
+    LIST_PARTITIONS: `
+      SELECT c.relname AS name,
+        (regexp_match(pg_get_expr(c.relpartbound, c.oid), 'TO \\(''([^'']+)''\\)'))[1]::TIMESTAMPTZ
+          AS upper_bound
+      FROM pg_inherits i
+      JOIN pg_class c ON c.oid = i.inhrelid
+      WHERE i.inhparent = to_regclass($1)
+      ORDER BY upper_bound ASC
+    `,
+
+    LIST_INDEXES: `
+      SELECT c.relname AS name, pg_get_indexdef(i.indexrelid) AS definition,
+        i.indisunique AS is_unique
+      FROM pg_index i
+      JOIN pg_class c ON c.oid = i.indexrelid
+      WHERE i.indrelid = to_regclass($1)
+      ORDER BY c.relname ASC
+    `,
+
+    CURRENT_TIME: `
+      SELECT NOW() AS now
+    `,
+
+    // Only used with a configured schema
+    CREATE_SCHEMA: `
+      CREATE SCHEMA IF NOT EXISTS ${names.schema}
+    `,
+
+    MIGRATIONS_TABLE_EXISTS: `
+      SELECT to_regclass($1) IS NOT NULL AS exists
+    `,
+
+    CREATE_MIGRATIONS_TABLE: `
+      CREATE TABLE IF NOT EXISTS ${migrations} (
+        version INTEGER PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )
+    `,
+
+    GET_APPLIED_MIGRATIONS: `
+      SELECT version FROM ${migrations} ORDER BY version ASC
+    `,
+
+    INSERT_MIGRATION: `
+      INSERT INTO ${migrations} (version, name) VALUES ($1, $2)
+    `,
+  };
+}
+
+export type Queries = ReturnType<typeof createQueries>;
+
+/**
+ * Keyset position in a job listing: created_at (ISO 8601 with microseconds) and id
+ */
+export type JobListCursor = [createdAt: string, id: string];
+
+/**
+ * Build the job listing query for the given filter, newest first
+ * Fetches one row more than the limit to tell whether another page exists
+ */
+export function buildListJobsQuery(
+  queueName: string,
+  queueType: string,
+  filter: Omit<JobFilter, 'cursor'>,
+  limit: number,
+  cursor?: JobListCursor,
+  names: Pick<SchemaNames, 'jobs' | 'archive'> = DEFAULT_SCHEMA_NAMES
+): { text: string; values: unknown[] } {
+  const values: unknown[] = [queueName, queueType];
+  const conditions = ['queue_name = $1', 'queue_type = $2'];
+
+  const addCondition = (condition: (param: string) => string, value: unknown): void => {
+    values.push(value);
+    conditions.push(condition(`$${values.length}`));
+  };
+
+  if (filter.status !== undefined) {
+    const statuses = Array.isArray(filter.status) ? filter.status : [filter.status];
+    addCondition((param) => `status = ANY(${param}::VARCHAR[])`, statuses);
+  }
+  if (filter.jobName !== undefined) {
+    addCondition((param) => `job_name = ${param}`, filter.jobName);
+  }
+  if (filter.createdAfter) {
+    addCondition((param) => `created_at > ${param}`, filter.createdAfter);
+  }
+  if (filter.createdBefore) {
+    addCondition((param) => `created_at < ${param}`, filter.createdBefore);
+  }
+  if (filter.errorContains) {
+    // strpos instead of ILIKE so that % and _ in the search text match literally
+    addCondition(
+      (param) => `strpos(lower(error_message), lower(${param})) > 0`,
+      filter.errorContains
+    );
+  }
+  if (filter.dataMatches) {
+    addCondition(
+      (param) => `data @> ${param}::JSONB`,
+      JSON.stringify(filter.dataMatches)
+    );
+  }
+  if (filter.parentKey !== undefined) {
+    addCondition((param) => `parent_key = ${param}`, filter.parentKey);
+  }
+  if (cursor) {
+    values.push(cursor[0], cursor[1]);
+    conditions.push(
+      `(created_at, id) < ($${values.length - 1}::TIMESTAMPTZ, $${values.length}::UUID)`
+    );
+  }
+
+  values.push(limit + 1);
+
+  return {
+    text: `
+      SELECT *,
+        to_char(created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_created_at
+      FROM ${filter.includeArchived ? jobsWithArchiveSql(names) : names.jobs}
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY created_at DESC, id DESC
+      LIMIT $${values.length}
+    `,
+    values,
+  };
+}
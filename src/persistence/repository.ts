@@ -1,27 +1,65 @@
-import { Pool } from 'pg';
-import { JobRecord, JobStatus, JobStats } from '../types/job';
-import { QUERIES } from './queries';
+import { ClientBase, Pool } from 'pg';
+import { hostname } from 'os';
+import {
+  JOB_STATS_KEYS,
+  JobEvent,
+  JobFilter,
+  JobPage,
+  JobRecord,
+  JobStatus,
+  JobStats,
+} from '../types/job';
+import { buildListJobsQuery, createQueries, JobListCursor, Queries } from './queries';
+import { DEFAULT_SCHEMA_NAMES, SchemaNames } from './schema-names';
+import { RetentionDays } from './retention';
 import { CircuitBreaker } from '../utils/circuit-breaker';
 import { Logger } from '../utils/logger';
+import { isJobDataStub } from '../utils/job-limits';
+import { JobGuardError } from '../errors/errors';
+import { TraceContext, withSpan } from '../utils/tracing';
 
 import { ConnectionManager } from './connection';
 
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 1000;
+
+/**
+ * Job added to a queue, as tracked by createJobs()
+ */
+export interface NewJob {
+  jobId: string;
+  jobName?: string;
+  data: unknown;
+  maxAttempts?: number; // Default: 3
+  parentKey?: string; // BullMQ flows - key of the parent job
+  opts?: Record<string, unknown>; // Options the job was added with, to re-add it with
+  runAt?: Date; // When a delayed job is due
+}
+
 export class JobRepository {
   private pool: Pool;
   private circuitBreaker: CircuitBreaker;
   private logger: Logger;
   private connectionManager?: ConnectionManager;
+  private names: SchemaNames;
+  private queries: Queries;
+  // Recorded with every lifecycle event to tell instances apart
+  private readonly eventSource = `${hostname()}:${process.pid}`;
 
   constructor(
     pool: Pool,
     circuitBreaker: CircuitBreaker,
     logger: Logger,
-    connectionManager?: ConnectionManager
+    connectionManager?: ConnectionManager,
+    names: SchemaNames = DEFAULT_SCHEMA_NAMES,
+    partitioned = false
   ) {
     this.pool = pool;
     this.circuitBreaker = circuitBreaker;
     this.logger = logger;
     this.connectionManager = connectionManager;
+    this.names = names;
+    this.queries = createQueries(names, partitioned);
   }
 
   /**
@@ -34,13 +72,50 @@ export class JobRepository {
     }
   }
 
+  /**
+   * Run an operation through the circuit breaker, traced as jobguard.repository.<operation>
+   */
+  private execute<T>(
+    operation: string,
+    target: { queueName?: string; jobId?: string; jobCount?: number },
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return this.trace(operation, target, () => this.circuitBreaker.execute(fn));
+  }
+
+  private trace<T>(
+    operation: string,
+    target: { queueName?: string; jobId?: string; jobCount?: number },
+    fn: () => Promise<T>
+  ): Promise<T> {
+    return withSpan(
+      `jobguard.repository.${operation}`,
+      {
+        'db.system': 'postgresql',
+        'jobguard.queue': target.queueName,
+        'jobguard.job_id': target.jobId,
+        'jobguard.job_count': target.jobCount,
+      },
+      fn
+    );
+  }
+
   /**
    * Execute operations within a transaction
    * Provides client for transaction-scoped queries
+   * @param operation - Name of the span the transaction is traced as
    */
-  async withTransaction<T>(callback: (client: Pool) => Promise<T>): Promise<T> {
-    return this.circuitBreaker.execute(async () => {
-      const client = await this.pool.connect();
+  async withTransaction<T>(
+    callback: (client: Pool) => Promise<T>,
+    operation = 'withTransaction'
+  ): Promise<T> {
+    return this.execute(operation, {}, async () => {
+      // Traced on its own to tell time waiting for a free connection apart
+      const client = await withSpan(
+        'jobguard.pool.connect',
+        { 'db.system': 'postgresql' },
+        () => this.pool.connect()
+      );
       try {
         await client.query('BEGIN');
         const result = await callback(client as unknown as Pool);
@@ -55,16 +130,28 @@ export class JobRepository {
     });
   }
 
+  /**
+   * Track a new job as pending, or reset a tracked job that is added again
+   * @param client - Insert on the caller's client instead, e.g. inside their transaction
+   * @param parentKey - Key of the parent job, for jobs added as part of a BullMQ flow
+   * @param opts - Options the job was added with, to re-add it with
+   * @param runAt - When the job is due, for delayed jobs
+   */
   async createJob(
     queueName: string,
     queueType: 'bull' | 'bullmq' | 'bee',
     jobId: string,
     jobName: string | undefined,
     data: unknown,
-    maxAttempts = 3
+    maxAttempts = 3,
+    traceContext?: TraceContext,
+    client?: ClientBase,
+    parentKey?: string,
+    opts?: Record<string, unknown>,
+    runAt?: Date
   ): Promise<JobRecord> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.INSERT_JOB, [
+    const insert = async (): Promise<JobRecord> => {
+      const values = [
         queueName,
         queueType,
         jobId,
@@ -73,65 +160,305 @@ export class JobRepository {
         JobStatus.PENDING,
         0,
         maxAttempts,
-      ]);
+        this.eventSource,
+        traceContext ? JSON.stringify(traceContext) : null,
+        parentKey ?? null,
+        opts ? JSON.stringify(opts) : null,
+        runAt ?? null,
+      ];
+      let result = await (client ?? this.pool).query(this.queries.INSERT_JOB, values);
+      if (result.rows.length === 0) {
+        // Partitioned layout: a concurrent insert of the job won, so it can be updated now
+        result = await (client ?? this.pool).query(this.queries.INSERT_JOB, values);
+      }
 
       const job = this.mapRowToJobRecord(result.rows[0]);
-      this.logger.debug(`Created job: ${queueName}/${jobId}`);
+      this.logger.debug('Created job', { queue: queueName, queueType, jobId });
       return job;
+    };
+
+    // Errors in the caller's transaction are the caller's, not a sign PostgreSQL is down
+    return client
+      ? this.trace('createJob', { queueName, jobId }, insert)
+      : this.execute('createJob', { queueName, jobId }, insert);
+  }
+
+  /**
+   * Track jobs added together (e.g. with addBulk) with a single multi-row INSERT
+   * Like createJob, a tracked job that is added again is reset to pending. A job ID that
+   * appears more than once is tracked with its first occurrence.
+   * @returns The tracked jobs - in the partitioned layout, jobs a concurrent insert
+   * tracked first are left out
+   */
+  async createJobs(
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    jobs: NewJob[],
+    traceContext?: TraceContext
+  ): Promise<JobRecord[]> {
+    const unique = new Map<string, NewJob>();
+    for (const job of jobs) {
+      if (!unique.has(job.jobId)) {
+        unique.set(job.jobId, job);
+      }
+    }
+    if (unique.size === 0) {
+      return [];
+    }
+
+    const batch = Array.from(unique.values());
+
+    return this.execute('createJobs', { queueName, jobCount: batch.length }, async () => {
+      const result = await this.pool.query(this.queries.INSERT_JOBS, [
+        queueName,
+        queueType,
+        batch.map((job) => job.jobId),
+        batch.map((job) => job.jobName ?? null),
+        batch.map((job) => JSON.stringify(job.data)),
+        batch.map((job) => job.maxAttempts || 3),
+        batch.map((job) => job.parentKey ?? null),
+        this.eventSource,
+        traceContext ? JSON.stringify(traceContext) : null,
+        batch.map((job) => (job.opts ? JSON.stringify(job.opts) : null)),
+        batch.map((job) => job.runAt ?? null),
+      ]);
+
+      this.logger.debug('Created jobs', {
+        queue: queueName,
+        queueType,
+        jobCount: result.rows.length,
+      });
+      return result.rows.map((row) => this.mapRowToJobRecord(row));
+    });
+  }
+
+  /**
+   * Insert an outbox job on the caller's client, to be dispatched once it is committed
+   * @returns null if a job with this ID is already tracked
+   */
+  async enqueueJob(
+    client: ClientBase,
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    jobId: string,
+    jobName: string | undefined,
+    data: unknown,
+    maxAttempts: number,
+    opts: Record<string, unknown>,
+    traceContext?: TraceContext
+  ): Promise<JobRecord | null> {
+    // Errors in the caller's transaction are the caller's, not a sign PostgreSQL is down
+    return this.trace('enqueueJob', { queueName, jobId }, async () => {
+      const result = await client.query(this.queries.INSERT_OUTBOX_JOB, [
+        queueName,
+        queueType,
+        jobId,
+        jobName,
+        JSON.stringify(data),
+        maxAttempts,
+        JSON.stringify(opts),
+        traceContext ? JSON.stringify(traceContext) : null,
+        this.eventSource,
+      ]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      this.logger.debug('Enqueued job for dispatch', { queue: queueName, jobId });
+      return this.mapRowToJobRecord(result.rows[0]);
+    });
+  }
+
+  /**
+   * Add undispatched outbox jobs to the queue and mark them pending, in one transaction
+   * Rows stay locked (SKIP LOCKED) until the transaction ends, so several instances can
+   * dispatch the same queue without adding a job twice.
+   * @param dispatch - Adds jobs to the queue and returns the ones it added
+   * @returns Jobs found and jobs dispatched
+   */
+  async dispatchJobs(
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    limit: number,
+    dispatch: (jobs: JobRecord[]) => Promise<JobRecord[]>
+  ): Promise<{ found: number; dispatched: number }> {
+    return this.withTransaction(async (client) => {
+      const result = await client.query(this.queries.GET_JOBS_TO_DISPATCH, [
+        queueName,
+        queueType,
+        limit,
+      ]);
+      const jobs = result.rows.map((row) => this.mapRowToJobRecord(row));
+
+      if (jobs.length === 0) {
+        return { found: 0, dispatched: 0 };
+      }
+
+      const dispatched = await dispatch(jobs);
+      if (dispatched.length > 0) {
+        await client.query(this.queries.MARK_JOBS_DISPATCHED, [
+          dispatched.map((job) => job.id),
+          this.eventSource,
+        ]);
+      }
+
+      return { found: jobs.length, dispatched: dispatched.length };
+    }, 'dispatchJobs');
+  }
+
+  /**
+   * Insert a job found in Redis unless it is already tracked
+   * @param runAt - When the job is due, for delayed jobs
+   * @returns true if the job was inserted
+   */
+  async backfillJob(
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    jobId: string,
+    jobName: string | undefined,
+    data: unknown,
+    status: JobStatus.PENDING | JobStatus.PROCESSING,
+    attempts: number,
+    maxAttempts = 3,
+    runAt?: Date
+  ): Promise<boolean> {
+    return this.execute('backfillJob', { queueName, jobId }, async () => {
+      const result = await this.pool.query(this.queries.BACKFILL_JOB, [
+        queueName,
+        queueType,
+        jobId,
+        jobName,
+        JSON.stringify(data),
+        status,
+        attempts,
+        maxAttempts,
+        this.eventSource,
+        runAt ?? null,
+      ]);
+
+      const inserted = result.rows.length > 0;
+      if (inserted) {
+        this.logger.debug('Backfilled job', { queue: queueName, queueType, jobId });
+      }
+      return inserted;
     });
   }
 
+  /**
+   * @param metadata - Optional details recorded with the lifecycle event; with a writeId,
+   * the update is skipped if the job already has an event with it
+   */
   async updateJobStatus(
     queueName: string,
     queueType: 'bull' | 'bullmq' | 'bee',
     jobId: string,
-    status: JobStatus
+    status: JobStatus,
+    metadata?: Record<string, unknown>
   ): Promise<JobRecord | null> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.UPDATE_JOB_STATUS, [
+    return this.execute('updateJobStatus', { queueName, jobId }, async () => {
+      const result = await this.pool.query(this.queries.UPDATE_JOB_STATUS, [
         status,
         queueName,
         queueType,
         jobId,
+        this.eventSource,
+        metadata ? JSON.stringify(metadata) : null,
       ]);
 
       if (result.rows.length === 0) {
-        this.logger.warn(`Job not found for status update: ${queueName}/${jobId}`);
+        this.logger.warn('Job not found for status update', {
+          queue: queueName,
+          queueType,
+          jobId,
+          status,
+        });
         return null;
       }
 
       const job = this.mapRowToJobRecord(result.rows[0]);
-      this.logger.debug(`Updated job status: ${queueName}/${jobId} -> ${status}`);
+      this.logger.debug('Updated job status', {
+        queue: queueName,
+        queueType,
+        jobId,
+        status,
+      });
       return job;
     });
   }
 
+  /**
+   * Move a re-enqueued job from stuck back to pending
+   * @returns null if the job is no longer stuck (e.g. a worker already picked it up)
+   */
+  async markJobReEnqueued(
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    jobId: string,
+    metadata?: Record<string, unknown>
+  ): Promise<JobRecord | null> {
+    return this.execute('markJobReEnqueued', { queueName, jobId }, async () => {
+      const result = await this.pool.query(this.queries.MARK_JOB_RE_ENQUEUED, [
+        queueName,
+        queueType,
+        jobId,
+        this.eventSource,
+        metadata ? JSON.stringify(metadata) : null,
+      ]);
+
+      if (result.rows.length === 0) {
+        this.logger.debug('Job no longer stuck after re-enqueue', {
+          queue: queueName,
+          queueType,
+          jobId,
+        });
+        return null;
+      }
+
+      return this.mapRowToJobRecord(result.rows[0]);
+    });
+  }
+
+  /**
+   * @param metadata - Same as for updateJobStatus
+   */
   async updateJobError(
     queueName: string,
     queueType: 'bull' | 'bullmq' | 'bee',
     jobId: string,
-    error: string
+    error: string,
+    metadata?: Record<string, unknown>
   ): Promise<JobRecord | null> {
-    return this.circuitBreaker.execute(async () => {
+    return this.execute('updateJobError', { queueName, jobId }, async () => {
       // Status is calculated atomically in SQL based on attempts + 1 >= max_attempts
       // No need for maxAttempts parameter - it's already in the database record
-      const result = await this.pool.query(QUERIES.UPDATE_JOB_ERROR, [
+      const result = await this.pool.query(this.queries.UPDATE_JOB_ERROR, [
         error,
         queueName,
         queueType,
         jobId,
+        this.eventSource,
+        metadata ? JSON.stringify(metadata) : null,
       ]);
 
       if (result.rows.length === 0) {
-        this.logger.warn(`Job not found for error update: ${queueName}/${jobId}`);
+        this.logger.warn('Job not found for error update', {
+          queue: queueName,
+          queueType,
+          jobId,
+        });
         return null;
       }
 
       const updatedJob = this.mapRowToJobRecord(result.rows[0]);
-      this.logger.debug(
-        `Updated job error: ${queueName}/${jobId} -> ${updatedJob.status} ` +
-          `(attempts: ${updatedJob.attempts}/${updatedJob.max_attempts})`
-      );
+      this.logger.debug('Updated job error', {
+        queue: queueName,
+        queueType,
+        jobId,
+        status: updatedJob.status,
+        attempts: updatedJob.attempts,
+        maxAttempts: updatedJob.max_attempts,
+      });
       return updatedJob;
     });
   }
@@ -141,8 +468,8 @@ export class JobRepository {
     stuckThresholdMs: number,
     batchSize: number
   ): Promise<JobRecord[]> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.GET_STUCK_JOBS, [
+    return this.execute('getStuckJobs', { queueName }, async () => {
+      const result = await this.pool.query(this.queries.GET_STUCK_JOBS, [
         queueName,
         stuckThresholdMs,
         batchSize,
@@ -152,27 +479,191 @@ export class JobRepository {
     });
   }
 
+  /**
+   * Get pending jobs older than the threshold, to check whether they still exist in Redis
+   * Pass the id of the last returned job to continue where the previous page ended
+   */
+  async getOrphanCandidates(
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    orphanThresholdMs: number,
+    batchSize: number,
+    afterId?: string
+  ): Promise<JobRecord[]> {
+    return this.execute('getOrphanCandidates', { queueName }, async () => {
+      const result = await this.pool.query(this.queries.GET_ORPHAN_CANDIDATES, [
+        queueName,
+        queueType,
+        orphanThresholdMs,
+        afterId ?? null,
+        batchSize,
+      ]);
+
+      return result.rows.map((row) => this.mapRowToJobRecord(row));
+    });
+  }
+
+  /**
+   * Mark a pending job as stuck so it can be re-enqueued
+   * @returns null if the job is no longer pending
+   */
+  async claimOrphanedJob(id: string): Promise<JobRecord | null> {
+    return this.execute('claimOrphanedJob', {}, async () => {
+      const result = await this.pool.query(this.queries.CLAIM_ORPHANED_JOB, [
+        id,
+        this.eventSource,
+      ]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToJobRecord(result.rows[0]);
+    });
+  }
+
+  /**
+   * Mark a failed or dead job as stuck so it can be re-enqueued for a manual retry
+   * @returns null if the job is no longer failed or dead
+   */
+  async claimJobForRetry(
+    id: string,
+    resetAttempts: boolean,
+    maxAttempts: number | undefined,
+    metadata: Record<string, unknown>
+  ): Promise<JobRecord | null> {
+    return this.execute('claimJobForRetry', {}, async () => {
+      const result = await this.pool.query(this.queries.CLAIM_JOB_FOR_RETRY, [
+        id,
+        resetAttempts,
+        maxAttempts ?? null,
+        this.eventSource,
+        JSON.stringify(metadata),
+      ]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return this.mapRowToJobRecord(result.rows[0]);
+    });
+  }
+
+  /**
+   * Restore a job claimed by claimJobForRetry to its state before the claim
+   */
+  async releaseRetryClaim(job: JobRecord): Promise<void> {
+    return this.execute(
+      'releaseRetryClaim',
+      { queueName: job.queue_name, jobId: job.job_id },
+      async () => {
+        await this.pool.query(this.queries.RELEASE_RETRY_CLAIM, [
+          job.id,
+          job.status,
+          job.attempts,
+          job.max_attempts,
+          job.completed_at ?? null,
+          this.eventSource,
+        ]);
+      }
+    );
+  }
+
   async markJobsAsStuck(jobIds: string[]): Promise<JobRecord[]> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.MARK_AS_STUCK, [jobIds]);
+    return this.execute('markJobsAsStuck', { jobCount: jobIds.length }, async () => {
+      const result = await this.pool.query(this.queries.MARK_AS_STUCK, [
+        jobIds,
+        this.eventSource,
+      ]);
       return result.rows.map((row) => this.mapRowToJobRecord(row));
     });
   }
 
-  async deleteOldJobs(retentionDays: number): Promise<number> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.DELETE_OLD_JOBS, [retentionDays]);
-      return result.rowCount || 0;
+  /**
+   * Delete finished jobs past the retention of their status, with their history
+   * @returns Number of jobs deleted
+   */
+  async deleteOldJobs(retention: RetentionDays): Promise<number> {
+    return this.execute('deleteOldJobs', {}, async () => {
+      const result = await this.pool.query(
+        this.queries.DELETE_OLD_JOBS,
+        this.retentionValues(retention)
+      );
+      return Number(result.rows[0]?.count ?? 0);
+    });
+  }
+
+  /**
+   * Move finished jobs past the retention of their status to the archive table
+   * @returns Number of jobs archived
+   */
+  async archiveOldJobs(retention: RetentionDays): Promise<number> {
+    return this.execute('archiveOldJobs', {}, async () => {
+      const result = await this.pool.query(
+        this.queries.ARCHIVE_OLD_JOBS,
+        this.retentionValues(retention)
+      );
+      return Number(result.rows[0]?.count ?? 0);
+    });
+  }
+
+  /**
+   * Hand finished jobs past the retention of their status to `write` as archive lines,
+   * one batch per transaction, and delete them once it resolves
+   * A batch whose transaction fails after `write` is written again by the next run.
+   * @returns Number of jobs exported
+   */
+  async exportOldJobs(
+    retention: RetentionDays,
+    batchSize: number,
+    write: (lines: Array<Record<string, unknown>>) => Promise<void>
+  ): Promise<number> {
+    let exported = 0;
+
+    for (;;) {
+      const count = await this.withTransaction(async (client) => {
+        const result = await client.query(this.queries.GET_EXPIRED_JOB_LINES, [
+          ...this.retentionValues(retention),
+          batchSize,
+        ]);
+        if (result.rows.length === 0) {
+          return 0;
+        }
+
+        await write(result.rows.map((row) => row.line as Record<string, unknown>));
+        await client.query(this.queries.DELETE_JOBS, [result.rows.map((row) => row.id)]);
+        return result.rows.length;
+      }, 'exportOldJobs');
+
+      exported += count;
+      if (count < batchSize) {
+        return exported;
+      }
+    }
+  }
+
+  /**
+   * Delete jobs archived more than retentionDays ago from the archive table
+   * @returns Number of archived jobs deleted
+   */
+  async deleteArchivedJobs(retentionDays: number): Promise<number> {
+    return this.execute('deleteArchivedJobs', {}, async () => {
+      const result = await this.pool.query(this.queries.DELETE_OLD_ARCHIVED_JOBS, [
+        retentionDays,
+      ]);
+      return Number(result.rows[0]?.count ?? 0);
     });
   }
 
   async getStatistics(queueName: string): Promise<JobStats> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.GET_STATISTICS, [queueName]);
+    return this.execute('getStatistics', { queueName }, async () => {
+      const result = await this.pool.query(this.queries.GET_STATISTICS, [queueName]);
 
       const stats: JobStats = {
         queueName,
+        pendingDispatch: 0,
         pending: 0,
+        delayed: 0,
         processing: 0,
         completed: 0,
         failed: 0,
@@ -183,9 +674,11 @@ export class JobRepository {
 
       for (const row of result.rows) {
         const rowData = row as Record<string, unknown>;
-        const status = rowData.status as keyof Omit<JobStats, 'queueName' | 'total'>;
+        const status = rowData.status as JobStatus;
         const count = parseInt(String(rowData.count), 10);
-        stats[status] = count;
+        const delayed = parseInt(String(rowData.delayed ?? 0), 10);
+        stats[JOB_STATS_KEYS[status]] = count - delayed;
+        stats.delayed += delayed;
         stats.total += count;
       }
 
@@ -193,17 +686,22 @@ export class JobRepository {
     });
   }
 
+  /**
+   * Latest run of a job
+   * @param includeArchived - Also look for runs moved to the archive table
+   */
   async getJob(
     queueName: string,
     queueType: 'bull' | 'bullmq' | 'bee',
-    jobId: string
+    jobId: string,
+    includeArchived = false
   ): Promise<JobRecord | null> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.GET_JOB, [
-        queueName,
-        queueType,
-        jobId,
-      ]);
+    const query = includeArchived
+      ? this.queries.GET_JOB_INCLUDING_ARCHIVE
+      : this.queries.GET_JOB;
+
+    return this.execute('getJob', { queueName, jobId }, async () => {
+      const result = await this.pool.query(query, [queueName, queueType, jobId]);
 
       if (result.rows.length === 0) {
         return null;
@@ -214,13 +712,80 @@ export class JobRepository {
     });
   }
 
+  /**
+   * List tracked jobs of a queue, newest first, with keyset pagination
+   * @throws JobGuardError if the limit is out of range or the cursor is invalid
+   */
+  async listJobs(
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    filter: JobFilter = {}
+  ): Promise<JobPage> {
+    const { cursor, limit = DEFAULT_LIST_LIMIT, ...conditions } = filter;
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIST_LIMIT) {
+      throw new JobGuardError(
+        `limit must be an integer between 1 and ${MAX_LIST_LIMIT}, got ${limit}`
+      );
+    }
+
+    const query = buildListJobsQuery(
+      queueName,
+      queueType,
+      conditions,
+      limit,
+      cursor !== undefined ? this.decodeCursor(cursor) : undefined,
+      this.names
+    );
+
+    return this.execute('listJobs', { queueName }, async () => {
+      const result = await this.pool.query(query.text, query.values);
+      const rows = result.rows.slice(0, limit);
+      const lastRow = rows[rows.length - 1];
+
+      return {
+        jobs: rows.map((row) => this.mapRowToJobRecord(row)),
+        nextCursor:
+          result.rows.length > limit && lastRow
+            ? this.encodeCursor([lastRow.cursor_created_at, lastRow.id])
+            : undefined,
+      };
+    });
+  }
+
+  /**
+   * Lifecycle history of a job, oldest first
+   * Includes every run of the job ID if it was reused
+   * @param includeArchived - Also include the history of runs moved to the archive table
+   */
+  async getJobEvents(
+    queueName: string,
+    queueType: 'bull' | 'bullmq' | 'bee',
+    jobId: string,
+    includeArchived = false
+  ): Promise<JobEvent[]> {
+    const query = includeArchived
+      ? this.queries.GET_JOB_EVENTS_INCLUDING_ARCHIVE
+      : this.queries.GET_JOB_EVENTS;
+
+    return this.execute('getJobEvents', { queueName, jobId }, async () => {
+      const result = await this.pool.query(query, [queueName, queueType, jobId]);
+
+      return result.rows.map((row) => this.mapRowToJobEvent(row));
+    });
+  }
+
   async bulkUpdateStatus(jobIds: string[], status: JobStatus): Promise<JobRecord[]> {
     if (jobIds.length === 0) {
       return [];
     }
 
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.BULK_UPDATE_STATUS, [status, jobIds]);
+    return this.execute('bulkUpdateStatus', { jobCount: jobIds.length }, async () => {
+      const result = await this.pool.query(this.queries.BULK_UPDATE_STATUS, [
+        status,
+        jobIds,
+        this.eventSource,
+      ]);
       return result.rows.map((row) => this.mapRowToJobRecord(row));
     });
   }
@@ -230,8 +795,11 @@ export class JobRepository {
       return [];
     }
 
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.BULK_MARK_DEAD, [jobIds]);
+    return this.execute('bulkMarkDead', { jobCount: jobIds.length }, async () => {
+      const result = await this.pool.query(this.queries.BULK_MARK_DEAD, [
+        jobIds,
+        this.eventSource,
+      ]);
       return result.rows.map((row) => this.mapRowToJobRecord(row));
     });
   }
@@ -244,33 +812,40 @@ export class JobRepository {
     queueName: string,
     stuckThresholdMs: number,
     batchSize: number
-  ): Promise<{ toReEnqueue: JobRecord[]; deadJobIds: string[] }> {
+  ): Promise<{ toReEnqueue: JobRecord[]; deadJobs: JobRecord[] }> {
     // Check pool health before critical operation
     this.checkHealth();
 
     return this.withTransaction(async (client) => {
       // Get stuck jobs with row-level locks
-      const stuckResult = await client.query(QUERIES.GET_STUCK_JOBS, [
+      const stuckResult = await client.query(this.queries.GET_STUCK_JOBS, [
         queueName,
         stuckThresholdMs,
         batchSize,
       ]);
 
       if (stuckResult.rows.length === 0) {
-        return { toReEnqueue: [], deadJobIds: [] };
+        return { toReEnqueue: [], deadJobs: [] };
       }
 
-      const stuckJobs = stuckResult.rows.map((row) => this.mapRowToJobRecord(row));
-      const jobIds = stuckJobs.map((job) => job.id);
+      const jobIds = stuckResult.rows.map((row) => (row as { id: string }).id);
 
       // Mark all as stuck first
-      await client.query(QUERIES.MARK_AS_STUCK, [jobIds]);
+      const markResult = await client.query(this.queries.MARK_AS_STUCK, [
+        jobIds,
+        this.eventSource,
+      ]);
+      // Keep the oldest-heartbeat-first order of GET_STUCK_JOBS
+      const stuckJobs = markResult.rows
+        .map((row) => this.mapRowToJobRecord(row))
+        .sort((a, b) => jobIds.indexOf(a.id) - jobIds.indexOf(b.id));
 
       const toReEnqueue: JobRecord[] = [];
       const deadJobIds: string[] = [];
 
       for (const job of stuckJobs) {
-        if (job.attempts < job.max_attempts) {
+        // Stubbed payloads (oversizedJobPolicy: 'stub') can't be replayed into Redis
+        if (job.attempts < job.max_attempts && !isJobDataStub(job.data)) {
           toReEnqueue.push(job);
         } else {
           deadJobIds.push(job.id);
@@ -278,12 +853,17 @@ export class JobRepository {
       }
 
       // Bulk mark dead jobs within same transaction
+      let deadJobs: JobRecord[] = [];
       if (deadJobIds.length > 0) {
-        await client.query(QUERIES.BULK_MARK_DEAD, [deadJobIds]);
+        const deadResult = await client.query(this.queries.BULK_MARK_DEAD, [
+          deadJobIds,
+          this.eventSource,
+        ]);
+        deadJobs = deadResult.rows.map((row) => this.mapRowToJobRecord(row));
       }
 
-      return { toReEnqueue, deadJobIds };
-    });
+      return { toReEnqueue, deadJobs };
+    }, 'getAndMarkStuckJobs');
   }
 
   async updateHeartbeat(
@@ -291,26 +871,73 @@ export class JobRepository {
     queueType: 'bull' | 'bullmq' | 'bee',
     jobId: string
   ): Promise<JobRecord | null> {
-    return this.circuitBreaker.execute(async () => {
-      const result = await this.pool.query(QUERIES.UPDATE_HEARTBEAT, [
+    return this.execute('updateHeartbeat', { queueName, jobId }, async () => {
+      const result = await this.pool.query(this.queries.UPDATE_HEARTBEAT, [
         queueName,
         queueType,
         jobId,
       ]);
 
       if (result.rows.length === 0) {
-        this.logger.warn(
-          `Job not found or not processing for heartbeat update: ${queueName}/${jobId}`
-        );
+        this.logger.warn('Job not found or not processing for heartbeat update', {
+          queue: queueName,
+          queueType,
+          jobId,
+        });
         return null;
       }
 
       const job = this.mapRowToJobRecord(result.rows[0]);
-      this.logger.debug(`Updated heartbeat: ${queueName}/${jobId}`);
+      this.logger.debug('Updated heartbeat', { queue: queueName, queueType, jobId });
       return job;
     });
   }
 
+  // Query parameters of the per-status retention, in the order the queries expect
+  private retentionValues(retention: RetentionDays): number[] {
+    return [retention.completed, retention.failed, retention.dead];
+  }
+
+  private encodeCursor(cursor: JobListCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(cursor: string): JobListCursor {
+    try {
+      const decoded: unknown = JSON.parse(
+        Buffer.from(cursor, 'base64url').toString('utf8')
+      );
+      if (
+        Array.isArray(decoded) &&
+        decoded.length === 2 &&
+        decoded.every((part) => typeof part === 'string')
+      ) {
+        return decoded as JobListCursor;
+      }
+    } catch {
+      // Fall through to the error below
+    }
+
+    throw new JobGuardError('Invalid job list cursor');
+  }
+
+  private mapRowToJobEvent(row: Record<string, unknown>): JobEvent {
+    return {
+      id: String(row.id),
+      job_uuid: row.job_uuid as string,
+      queue_name: row.queue_name as string,
+      queue_type: row.queue_type as 'bull' | 'bullmq' | 'bee',
+      job_id: row.job_id as string,
+      event_type: row.event_type as JobEvent['event_type'],
+      status: row.status as JobStatus,
+      attempt: row.attempt as number,
+      error_message: (row.error_message as string | null) ?? undefined,
+      source: (row.source as string | null) ?? undefined,
+      metadata: (row.metadata as Record<string, unknown> | null) ?? undefined,
+      created_at: new Date(row.created_at as string),
+    };
+  }
+
   private mapRowToJobRecord(row: Record<string, unknown>): JobRecord {
     return {
       id: row.id as string,
@@ -330,6 +957,11 @@ export class JobRepository {
       last_heartbeat: row.last_heartbeat
         ? new Date(row.last_heartbeat as string)
         : undefined,
+      trace_context: (row.trace_context as TraceContext | null) ?? undefined,
+      opts: (row.opts as Record<string, unknown> | null) ?? undefined,
+      archived_at: row.archived_at ? new Date(row.archived_at as string) : undefined,
+      parent_key: (row.parent_key as string | null) ?? undefined,
+      run_at: row.run_at ? new Date(row.run_at as string) : undefined,
     };
   }
 }
@@ -0,0 +1,84 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { ArchiveConfig, PersistenceConfig, RetentionConfig } from '../types/config';
+import { JobGuardError } from '../errors/errors';
+
+/**
+ * Days finished jobs stay in the jobs table, for each status
+ */
+export type RetentionDays = Required<RetentionConfig>;
+
+/**
+ * Retention of each status, falling back to retentionDays
+ * @throws JobGuardError if a retention is not a positive number of days
+ */
+export function resolveRetention(
+  config: Pick<PersistenceConfig, 'retentionDays' | 'retention'> = {}
+): RetentionDays {
+  const fallback = config.retentionDays || 7;
+  const days: RetentionDays = {
+    completed: config.retention?.completed ?? fallback,
+    failed: config.retention?.failed ?? fallback,
+    dead: config.retention?.dead ?? fallback,
+  };
+
+  for (const [status, value] of Object.entries(days)) {
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new JobGuardError(
+        `persistence.retention.${status} must be a positive number of days`
+      );
+    }
+  }
+
+  return days;
+}
+
+/**
+ * Check that an enabled archive can be written to
+ * @throws JobGuardError if the file target has no filePath or the target is unknown
+ */
+export function validateArchiveConfig(config: ArchiveConfig = {}): void {
+  if (!config.enabled) {
+    return;
+  }
+
+  const target = config.target ?? 'table';
+  if (target !== 'table' && target !== 'file') {
+    throw new JobGuardError(`persistence.archive.target must be 'table' or 'file'`);
+  }
+  if (target === 'file' && !config.filePath) {
+    throw new JobGuardError(
+      "persistence.archive.filePath is required with target 'file'"
+    );
+  }
+  if (
+    config.retentionDays !== undefined &&
+    (!Number.isFinite(config.retentionDays) || config.retentionDays <= 0)
+  ) {
+    throw new JobGuardError(
+      'persistence.archive.retentionDays must be a positive number of days'
+    );
+  }
+}
+
+/**
+ * Append archive lines to an NDJSON file, one job per line
+ * The file is synced before returning, so jobs are only deleted once they are on disk.
+ */
+export async function appendToArchiveFile(
+  filePath: string,
+  lines: Array<Record<string, unknown>>
+): Promise<void> {
+  if (lines.length === 0) {
+    return;
+  }
+
+  await fs.mkdir(dirname(filePath), { recursive: true });
+  const file = await fs.open(filePath, 'a');
+  try {
+    await file.write(lines.map((line) => `${JSON.stringify(line)}\n`).join(''));
+    await file.datasync();
+  } finally {
+    await file.close();
+  }
+}
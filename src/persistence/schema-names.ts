@@ -0,0 +1,151 @@
+import { PersistenceConfig } from '../types/config';
+import { JobGuardError, MigrationError } from '../errors/errors';
+
+const DEFAULT_TABLE_NAME = 'jobguard_jobs';
+const MAX_IDENTIFIER_BYTES = 63; // PostgreSQL silently truncates longer identifiers
+
+/**
+ * Names of JobGuard's database objects, quoted for use in SQL
+ */
+export interface SchemaNames {
+  schema?: string; // Quoted schema, if one is configured
+  table: string; // Name of the jobs table, unquoted
+  jobs: string; // Schema-qualified
+  events: string; // Schema-qualified
+  archive: string; // Schema-qualified
+  migrations: string; // Schema-qualified
+  lockPrefix: string; // Prefix of advisory lock names, unquoted
+  indexPrefix: string; // 'idx', or idx_<table> for a custom table - unquoted
+  placeholders: Record<string, string>; // {{name}} values in migration files
+}
+
+/**
+ * Quote an identifier so that any name (mixed case, spaces, quotes) is used verbatim
+ */
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Quote a name and qualify it with the configured schema, if any
+ */
+export function qualifyName(names: Pick<SchemaNames, 'schema'>, name: string): string {
+  return names.schema
+    ? `${names.schema}.${quoteIdentifier(name)}`
+    : quoteIdentifier(name);
+}
+
+function validateIdentifier(name: string, option: string): void {
+  if (name.length === 0 || name.includes('\0')) {
+    throw new JobGuardError(`persistence.${option} must be a non-empty name`);
+  }
+  if (Buffer.byteLength(name, 'utf8') > MAX_IDENTIFIER_BYTES) {
+    throw new JobGuardError(
+      `persistence.${option} '${name}' is longer than ${MAX_IDENTIFIER_BYTES} bytes ` +
+        'once JobGuard derives its other object names from it'
+    );
+  }
+}
+
+/**
+ * Resolve the names of JobGuard's tables, function and indexes
+ *
+ * The default table keeps the historical names (jobguard_job_events, idx_cleanup, ...).
+ * A custom tableName names every other object after it (<table>_events,
+ * idx_<table>_cleanup, ...) so that two deployments can share one schema.
+ * @throws JobGuardError if a name is empty or too long for PostgreSQL
+ */
+export function resolveSchemaNames(
+  config: Pick<PersistenceConfig, 'schema' | 'tableName'> = {}
+): SchemaNames {
+  const tableName = config.tableName ?? DEFAULT_TABLE_NAME;
+  const isDefaultTable = tableName === DEFAULT_TABLE_NAME;
+
+  const objectNames = {
+    events: isDefaultTable ? 'jobguard_job_events' : `${tableName}_events`,
+    archive: `${tableName}_archive`,
+    migrations: isDefaultTable ? 'jobguard_schema_migrations' : `${tableName}_migrations`,
+    setUpdatedAt: isDefaultTable
+      ? 'jobguard_set_updated_at'
+      : `${tableName}_set_updated_at`,
+    // Partitioned layout only (see schema/partitioned_layout.sql)
+    dedupeActive: isDefaultTable
+      ? 'jobguard_dedupe_active'
+      : `${tableName}_dedupe_active`,
+    dedupeTrigger: `dedupe_${tableName}_active`,
+    // Same rules PostgreSQL used for the names created by 001_initial
+    trigger: `update_${tableName}_updated_at`,
+    statusCheck: `${tableName}_status_check`,
+  };
+
+  if (config.schema !== undefined) {
+    validateIdentifier(config.schema, 'schema');
+  }
+  validateIdentifier(tableName, 'tableName');
+  for (const name of Object.values(objectNames)) {
+    validateIdentifier(name, 'tableName');
+  }
+
+  const schema = config.schema !== undefined ? quoteIdentifier(config.schema) : undefined;
+  const qualify = (name: string): string => qualifyName({ schema }, name);
+
+  const names: SchemaNames = {
+    schema,
+    table: tableName,
+    jobs: qualify(tableName),
+    events: qualify(objectNames.events),
+    archive: qualify(objectNames.archive),
+    migrations: qualify(objectNames.migrations),
+    lockPrefix:
+      config.schema === undefined && isDefaultTable
+        ? 'jobguard'
+        : `jobguard:${config.schema ?? ''}.${tableName}`,
+    indexPrefix: isDefaultTable ? 'idx' : `idx_${tableName}`,
+    placeholders: {},
+  };
+
+  names.placeholders = {
+    jobs: names.jobs,
+    events: names.events,
+    archive: names.archive,
+    set_updated_at: qualify(objectNames.setUpdatedAt),
+    updated_at_trigger: quoteIdentifier(objectNames.trigger),
+    dedupe_active: qualify(objectNames.dedupeActive),
+    dedupe_active_trigger: quoteIdentifier(objectNames.dedupeTrigger),
+    status_check: quoteIdentifier(objectNames.statusCheck),
+  };
+
+  return names;
+}
+
+/**
+ * Names used when no schema or table name is configured
+ */
+export const DEFAULT_SCHEMA_NAMES = resolveSchemaNames();
+
+/**
+ * Fill in the {{name}} placeholders of a migration file
+ * {{idx_<name>}} is the index name, prefixed with a custom table name
+ * @throws MigrationError on an unknown placeholder or an index name that is too long
+ */
+export function renderMigrationSql(sql: string, names: SchemaNames): string {
+  return sql.replace(/\{\{(\w+)\}\}/g, (placeholder, key: string) => {
+    const value = names.placeholders[key];
+    if (value !== undefined) {
+      return value;
+    }
+
+    if (key.startsWith('idx_')) {
+      const indexName = `${names.indexPrefix}_${key.slice('idx_'.length)}`;
+      if (Buffer.byteLength(indexName, 'utf8') > MAX_IDENTIFIER_BYTES) {
+        throw new MigrationError(
+          `Index name ${indexName} is longer than ${MAX_IDENTIFIER_BYTES} bytes, ` +
+            'use a shorter persistence.tableName'
+        );
+      }
+      return quoteIdentifier(indexName);
+    }
+
+    throw new MigrationError(`Unknown placeholder ${placeholder} in migration`);
+  });
+}
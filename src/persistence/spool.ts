@@ -0,0 +1,572 @@
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import { hostname } from 'os';
+import { join } from 'path';
+import { JobRepository } from './repository';
+import { JobRecord, JobStatus } from '../types/job';
+import { SpoolConfig } from '../types/config';
+import { Logger } from '../utils/logger';
+import { TraceContext } from '../utils/tracing';
+import { SpoolLockedError } from '../errors/errors';
+
+/**
+ * A job lifecycle write made by an adapter, as stored in the spool
+ */
+export type JobWrite = {
+  queueName: string;
+  queueType: 'bull' | 'bullmq' | 'bee';
+  jobId: string;
+} & (
+  | {
+      op: 'create';
+      jobName?: string;
+      data: unknown;
+      maxAttempts?: number;
+      traceContext?: TraceContext;
+      parentKey?: string;
+      opts?: Record<string, unknown>;
+      runAt?: string; // ISO 8601, as the write may be read back from the spool file
+    }
+  | { op: 'status'; status: JobStatus }
+  | { op: 'error'; errorMessage: string }
+);
+
+// id tells a replayed entry apart from its first application (see applyJobWrite)
+type SpoolEntry = { id: string } & JobWrite & { ts: number };
+
+type SpoolBatch = Array<{ entry: SpoolEntry | null; bytes: number }>;
+
+export interface SpoolMetrics {
+  depth: number; // Entries waiting to be replayed
+  bytes: number; // Size of the entries waiting to be replayed
+  oldestEntryAgeMs: number; // Replay lag - age of the oldest pending entry (0 when empty)
+  replayedEntries: number; // Entries written to PostgreSQL since startup
+  droppedEntries: number; // Entries lost because the spool was full or PostgreSQL rejected them
+}
+
+// Read at least this much per replay batch (grown for entries larger than this)
+const READ_CHUNK_BYTES = 1048576;
+
+// Spool files locked by this process; a lock file alone can't tell two spools of one
+// process apart
+const lockedFiles = new Set<string>();
+
+/**
+ * Apply a job lifecycle write to PostgreSQL
+ * Updates given a writeId record it in their event and are skipped if an event of the
+ * job already has it, so that a spooled write replayed twice is applied once. Creates
+ * are upserts and need no guard.
+ * @returns The written job, or null if no tracked job matched
+ */
+export async function applyJobWrite(
+  repository: JobRepository,
+  write: JobWrite,
+  writeId?: string
+): Promise<JobRecord | null> {
+  const metadata = writeId ? { writeId } : undefined;
+
+  switch (write.op) {
+    case 'create':
+      return repository.createJob(
+        write.queueName,
+        write.queueType,
+        write.jobId,
+        write.jobName,
+        write.data,
+        write.maxAttempts,
+        write.traceContext,
+        undefined,
+        write.parentKey,
+        write.opts,
+        write.runAt ? new Date(write.runAt) : undefined
+      );
+    case 'status':
+      return repository.updateJobStatus(
+        write.queueName,
+        write.queueType,
+        write.jobId,
+        write.status,
+        metadata
+      );
+    case 'error':
+      return repository.updateJobError(
+        write.queueName,
+        write.queueType,
+        write.jobId,
+        write.errorMessage,
+        metadata
+      );
+  }
+}
+
+/**
+ * PostgreSQL rejected the write itself (data exception or integrity constraint
+ * violation) - retrying will never succeed
+ */
+export function isPermanentWriteFailure(error: unknown): boolean {
+  const code = (error as { code?: unknown })?.code;
+  return typeof code === 'string' && /^2[23][0-9A-Z]{3}$/.test(code);
+}
+
+/**
+ * Whether the process named in a spool lock file (hostname:pid) may still be running
+ * Processes of other hosts can't be checked and are assumed to be.
+ */
+function isLockOwnerAlive(owner: string): boolean {
+  const separator = owner.lastIndexOf(':');
+  const host = owner.slice(0, separator);
+  const pid = Number(owner.slice(separator + 1));
+
+  if (separator === -1 || !Number.isInteger(pid)) return false;
+  if (host !== hostname()) return true;
+  // A previous run of this process that got the same PID (e.g. PID 1 in a container)
+  if (pid === process.pid) return false;
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Append-only write-ahead spool on local disk
+ *
+ * Writes that fail while PostgreSQL is down (or the circuit breaker is open) are
+ * appended as NDJSON lines and replayed in order once PostgreSQL accepts writes again.
+ * Replay progress (the ID of the last applied entry) is saved after each batch in a
+ * sidecar file, so entries are replayed at least once across restarts; applyJobWrite
+ * skips those applied before. The file is compacted after each replay run.
+ * A lock file next to the spool file keeps other processes from opening it.
+ */
+export class JobSpool {
+  private repository: JobRepository;
+  private logger: Logger;
+  private config: Required<SpoolConfig>;
+  private filePath?: string;
+  private locked = false;
+  private offset = 0; // Bytes of the file already replayed
+  private lastAppliedId?: string;
+  private savedId?: string; // lastAppliedId as saved in the progress file
+  private size = 0; // Total bytes in the file
+  private depth = 0;
+  private oldestEntryTime?: number;
+  private replayedEntries = 0;
+  private droppedEntries = 0;
+  private replayInterval?: NodeJS.Timeout;
+  private replayPromise?: Promise<void>;
+  // Serializes file access so appends stay in order
+  private fileLock: Promise<unknown> = Promise.resolve();
+
+  constructor(repository: JobRepository, logger: Logger, config: SpoolConfig = {}) {
+    this.repository = repository;
+    this.logger = logger;
+    this.config = {
+      enabled: config.enabled === true,
+      directory: config.directory || join(process.cwd(), '.jobguard-spool'),
+      maxBytes: config.maxBytes || 52428800, // 50MB
+      replayIntervalMs: config.replayIntervalMs || 5000,
+      replayBatchSize: config.replayBatchSize || 100,
+    };
+  }
+
+  /**
+   * Open (or recover) the spool file for a queue and start the replay timer
+   * @param name - Unique name of the queue, used for the file name
+   * @throws SpoolLockedError if another live process holds the spool file
+   */
+  async open(name: string): Promise<void> {
+    const fileName = `${name.replace(/[^\w.-]/g, '_')}.ndjson`;
+    this.filePath = join(this.config.directory, fileName);
+
+    await fs.mkdir(this.config.directory, { recursive: true });
+    await this.lock();
+    await this.recover();
+
+    if (this.depth > 0) {
+      this.logger.warn('Spool holds writes from a previous run, replaying', {
+        file: this.filePath,
+        depth: this.depth,
+      });
+    }
+
+    this.replayInterval = setInterval(() => {
+      void this.replay();
+    }, this.config.replayIntervalMs);
+
+    // Don't prevent process from exiting
+    this.replayInterval.unref();
+  }
+
+  /**
+   * Stop the replay timer and wait for pending file operations
+   */
+  async close(): Promise<void> {
+    if (this.replayInterval) {
+      clearInterval(this.replayInterval);
+      this.replayInterval = undefined;
+    }
+
+    await this.replayPromise;
+    await this.fileLock;
+    await this.unlock();
+  }
+
+  isEmpty(): boolean {
+    return this.depth === 0;
+  }
+
+  /**
+   * Append a write to the spool
+   * @returns false if the write was dropped because the spool is full
+   */
+  async append(write: JobWrite): Promise<boolean> {
+    const entry: SpoolEntry = { id: randomUUID(), ...write, ts: Date.now() };
+    const line = `${JSON.stringify(entry)}\n`;
+    const bytes = Buffer.byteLength(line, 'utf8');
+
+    return this.withFileLock(async () => {
+      if (this.size + bytes > this.config.maxBytes) {
+        this.droppedEntries++;
+        this.logger.error('Spool is full, dropping write', {
+          jobId: write.jobId,
+          op: write.op,
+          maxBytes: this.config.maxBytes,
+        });
+        return false;
+      }
+
+      const handle = await fs.open(this.getFilePath(), 'a');
+      try {
+        await handle.appendFile(line, 'utf8');
+        await handle.datasync();
+      } finally {
+        await handle.close();
+      }
+
+      this.size += bytes;
+      this.depth++;
+      this.oldestEntryTime ??= entry.ts;
+      return true;
+    });
+  }
+
+  /**
+   * Replay spooled writes into PostgreSQL, oldest first
+   * Stops at the first write that fails with a retryable error
+   */
+  async replay(): Promise<void> {
+    if (this.replayPromise || this.depth === 0) {
+      return this.replayPromise;
+    }
+
+    this.replayPromise = this.replayPending().finally(() => {
+      this.replayPromise = undefined;
+    });
+
+    return this.replayPromise;
+  }
+
+  getMetrics(): SpoolMetrics {
+    return {
+      depth: this.depth,
+      bytes: this.size - this.offset,
+      oldestEntryAgeMs:
+        this.oldestEntryTime !== undefined ? Date.now() - this.oldestEntryTime : 0,
+      replayedEntries: this.replayedEntries,
+      droppedEntries: this.droppedEntries,
+    };
+  }
+
+  private async replayPending(): Promise<void> {
+    const replayedBefore = this.replayedEntries;
+
+    try {
+      while (this.depth > 0) {
+        const entries = await this.readBatch();
+        if (entries.length === 0) break;
+
+        for (const { entry, bytes } of entries) {
+          if (entry && !(await this.replayEntry(entry))) {
+            return;
+          }
+          this.advance(bytes, entry?.id);
+        }
+
+        await this.saveProgress();
+      }
+    } catch (error) {
+      this.logger.error('Spool replay failed', { err: error });
+    } finally {
+      // Progress is saved before compaction, so its entry is only ever removed with
+      // the replayed prefix
+      await this.saveProgress().catch((error) => {
+        this.logger.error('Saving spool replay progress failed', { err: error });
+      });
+      await this.compact().catch((error) => {
+        this.logger.error('Spool compaction failed', { err: error });
+      });
+
+      const replayed = this.replayedEntries - replayedBefore;
+      if (replayed > 0) {
+        this.logger.info('Replayed spooled writes', { replayed, depth: this.depth });
+      }
+    }
+  }
+
+  /**
+   * @returns false if replay should pause and retry the entry later
+   */
+  private async replayEntry(entry: SpoolEntry): Promise<boolean> {
+    // The entry being replayed is the oldest pending one
+    this.oldestEntryTime = entry.ts;
+
+    try {
+      await applyJobWrite(this.repository, entry, entry.id);
+      this.replayedEntries++;
+      return true;
+    } catch (error) {
+      if (!isPermanentWriteFailure(error)) {
+        this.logger.warn('Spool replay paused', {
+          depth: this.depth,
+          detail: error instanceof Error ? error.message : String(error),
+        });
+        return false;
+      }
+
+      this.droppedEntries++;
+      this.logger.error('PostgreSQL rejected spooled write, dropping it', {
+        jobId: entry.jobId,
+        op: entry.op,
+        err: error,
+      });
+      return true;
+    }
+  }
+
+  /**
+   * Read up to replayBatchSize complete entries starting at the replay offset
+   */
+  private async readBatch(): Promise<SpoolBatch> {
+    return this.withFileLock(async () => {
+      const available = this.size - this.offset;
+      let length = Math.min(available, READ_CHUNK_BYTES);
+      const handle = await fs.open(this.getFilePath(), 'r');
+
+      try {
+        for (;;) {
+          const buffer = Buffer.alloc(length);
+          const { bytesRead } = await handle.read(buffer, 0, length, this.offset);
+          const chunk = buffer.subarray(0, bytesRead);
+          const lastNewline = chunk.lastIndexOf(0x0a);
+
+          // A single entry can be larger than the chunk - read more
+          if (lastNewline === -1 && length < available) {
+            length = Math.min(available, length * 2);
+            continue;
+          }
+
+          return this.parseLines(chunk.subarray(0, lastNewline + 1));
+        }
+      } finally {
+        await handle.close();
+      }
+    });
+  }
+
+  /**
+   * Split a chunk into entries; corrupt lines are returned as null entries so
+   * that replay skips past them
+   */
+  private parseLines(chunk: Buffer): SpoolBatch {
+    const entries: SpoolBatch = [];
+    let start = 0;
+
+    while (start < chunk.length && entries.length < this.config.replayBatchSize) {
+      const end = chunk.indexOf(0x0a, start);
+      const bytes = end + 1 - start;
+
+      try {
+        entries.push({ entry: JSON.parse(chunk.toString('utf8', start, end)), bytes });
+      } catch (error) {
+        this.droppedEntries++;
+        this.logger.error('Skipping corrupt spool entry', { err: error });
+        entries.push({ entry: null, bytes });
+      }
+
+      start = end + 1;
+    }
+
+    return entries;
+  }
+
+  private advance(bytes: number, id?: string): void {
+    this.offset += bytes;
+    this.depth--;
+    // Corrupt entries have no ID; the last applied one still marks the progress
+    this.lastAppliedId = id ?? this.lastAppliedId;
+
+    if (this.depth === 0) {
+      this.oldestEntryTime = undefined;
+    }
+  }
+
+  private async saveProgress(): Promise<void> {
+    await this.withFileLock(async () => {
+      const id = this.lastAppliedId;
+      if (id === undefined || id === this.savedId) return;
+
+      // Write-then-rename so a crash never leaves a torn file
+      const tempPath = `${this.getProgressPath()}.tmp`;
+      await fs.writeFile(tempPath, id);
+      await fs.rename(tempPath, this.getProgressPath());
+      this.savedId = id;
+    });
+  }
+
+  /**
+   * Drop the replayed prefix of the file
+   * The saved progress needs no reset: once its entry is gone, replay starts at the
+   * beginning of the compacted file, before or after a crash
+   */
+  private async compact(): Promise<void> {
+    await this.withFileLock(async () => {
+      if (this.offset === 0) return;
+
+      if (this.offset >= this.size) {
+        await fs.truncate(this.getFilePath(), 0);
+      } else {
+        const content = await fs.readFile(this.getFilePath());
+        const tempPath = `${this.getFilePath()}.tmp`;
+        await fs.writeFile(tempPath, content.subarray(this.offset));
+        await fs.rename(tempPath, this.getFilePath());
+      }
+
+      this.size -= this.offset;
+      this.offset = 0;
+    });
+  }
+
+  /**
+   * Restore replay progress after a restart
+   * A trailing partial line (crash during append) is discarded
+   */
+  private async recover(): Promise<void> {
+    let content: Buffer;
+    try {
+      content = await fs.readFile(this.getFilePath());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const complete = content.lastIndexOf(0x0a) + 1;
+    if (complete < content.length) {
+      this.logger.warn('Discarding an incomplete spool entry', {
+        bytes: content.length - complete,
+      });
+      await fs.truncate(this.getFilePath(), complete);
+    }
+
+    this.size = complete;
+    this.offset = await this.findReplayOffset(content.subarray(0, complete));
+
+    const pending = content.subarray(this.offset, complete);
+    for (let index = 0; index < pending.length; index++) {
+      if (pending[index] === 0x0a) this.depth++;
+    }
+
+    if (this.depth > 0) {
+      this.oldestEntryTime = this.readEntryTime(pending);
+    }
+  }
+
+  private readEntryTime(pending: Buffer): number | undefined {
+    try {
+      const entry = JSON.parse(pending.toString('utf8', 0, pending.indexOf(0x0a)));
+      return (entry as SpoolEntry).ts;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Offset of the entry after the last applied one, or 0 if the file no longer holds
+   * that entry (it was compacted away)
+   */
+  private async findReplayOffset(content: Buffer): Promise<number> {
+    const id = await fs.readFile(this.getProgressPath(), 'utf8').catch(() => '');
+    this.lastAppliedId = this.savedId = id || undefined;
+    if (!id) return 0;
+
+    // Entries are written with their ID first
+    const start = content.indexOf(`{"id":${JSON.stringify(id)},`);
+    return start === -1 ? 0 : content.indexOf(0x0a, start) + 1;
+  }
+
+  private getFilePath(): string {
+    if (!this.filePath) {
+      throw new Error('Spool is not open');
+    }
+    return this.filePath;
+  }
+
+  private getProgressPath(): string {
+    return `${this.getFilePath()}.applied`;
+  }
+
+  private getLockPath(): string {
+    return `${this.getFilePath()}.lock`;
+  }
+
+  /**
+   * Take the lock file of the spool file, replacing it if its owner is gone
+   */
+  private async lock(): Promise<void> {
+    const filePath = this.getFilePath();
+    if (lockedFiles.has(filePath)) {
+      throw new SpoolLockedError(filePath, `this process (${process.pid})`);
+    }
+
+    for (;;) {
+      try {
+        await fs.writeFile(this.getLockPath(), `${hostname()}:${process.pid}`, {
+          flag: 'wx',
+        });
+        break;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+      }
+
+      const owner = await fs.readFile(this.getLockPath(), 'utf8').catch(() => '');
+      if (isLockOwnerAlive(owner)) {
+        throw new SpoolLockedError(filePath, owner);
+      }
+
+      this.logger.warn('Replacing the stale lock of a spool file', {
+        file: filePath,
+        owner,
+      });
+      await fs.rm(this.getLockPath(), { force: true });
+    }
+
+    lockedFiles.add(filePath);
+    this.locked = true;
+  }
+
+  private async unlock(): Promise<void> {
+    if (!this.locked) return;
+
+    this.locked = false;
+    lockedFiles.delete(this.getFilePath());
+    await fs.rm(this.getLockPath(), { force: true });
+  }
+
+  private withFileLock<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.fileLock.then(fn);
+    // Keep the chain alive after a failed operation
+    this.fileLock = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,150 @@
+import { Pool, PoolClient } from 'pg';
+import { ADVISORY_LOCK_NAMESPACE, createQueries, Queries } from '../persistence/queries';
+import { DEFAULT_SCHEMA_NAMES, SchemaNames } from '../persistence/schema-names';
+import { Logger } from '../utils/logger';
+
+/**
+ * Per-queue leader election using PostgreSQL session-level advisory locks
+ *
+ * All locks are held on a single dedicated connection. If the leader process dies
+ * or its connection drops, PostgreSQL releases the locks and another instance
+ * acquires them on its next reconciliation run (automatic failover).
+ *
+ * Session-level locks need a session of their own: behind a pooler in transaction
+ * pooling mode (e.g. PgBouncer) the lock stays on a server connection this client no
+ * longer owns, and several instances can become leader.
+ */
+export class LeaderElection {
+  private pool: Pool;
+  private logger: Logger;
+  private client?: PoolClient;
+  private heldLocks: Set<string> = new Set();
+  private queries: Queries;
+  private lockPrefix: string;
+
+  /**
+   * @param names - Deployments with different tables elect their leaders separately
+   */
+  constructor(pool: Pool, logger: Logger, names: SchemaNames = DEFAULT_SCHEMA_NAMES) {
+    this.pool = pool;
+    this.logger = logger;
+    this.queries = createQueries(names);
+    this.lockPrefix = names.lockPrefix;
+  }
+
+  /**
+   * Try to become (or confirm we still are) the reconciliation leader for a queue
+   * @returns true if this instance holds the leadership lock for the queue
+   */
+  async acquire(queueName: string): Promise<boolean> {
+    const client = await this.getClient();
+
+    try {
+      if (this.heldLocks.has(queueName)) {
+        // Lock is tied to the session - verify the session is still alive
+        await client.query('SELECT 1');
+        return true;
+      }
+
+      const result = await client.query(this.queries.TRY_ADVISORY_LOCK, [
+        ADVISORY_LOCK_NAMESPACE,
+        this.getLockName(queueName),
+      ]);
+
+      const acquired = result.rows[0]?.acquired === true;
+      if (acquired) {
+        this.heldLocks.add(queueName);
+        this.logger.info('Acquired reconciliation leadership', { queue: queueName });
+      } else if (this.heldLocks.size === 0) {
+        // Followers don't keep a connection checked out between runs
+        this.releaseClient();
+      }
+
+      return acquired;
+    } catch (error) {
+      this.dropSession(error instanceof Error ? error : undefined);
+      throw error;
+    }
+  }
+
+  /**
+   * Give up leadership for a queue, or for all queues if no name is given
+   * The dedicated connection is returned to the pool once no locks are held
+   */
+  async release(queueName?: string): Promise<void> {
+    if (!this.client) return;
+
+    const queueNames = queueName ? [queueName] : Array.from(this.heldLocks);
+
+    try {
+      for (const name of queueNames) {
+        if (!this.heldLocks.has(name)) continue;
+
+        await this.client.query(this.queries.ADVISORY_UNLOCK, [
+          ADVISORY_LOCK_NAMESPACE,
+          this.getLockName(name),
+        ]);
+        this.heldLocks.delete(name);
+        this.logger.info('Released reconciliation leadership', { queue: name });
+      }
+
+      if (this.heldLocks.size === 0) {
+        this.releaseClient();
+      }
+    } catch (error) {
+      this.logger.error('Failed to release reconciliation leadership', { err: error });
+      // Destroying the connection releases its locks server-side
+      this.dropSession(error instanceof Error ? error : undefined);
+    }
+  }
+
+  isLeader(queueName: string): boolean {
+    return this.heldLocks.has(queueName);
+  }
+
+  private async getClient(): Promise<PoolClient> {
+    if (this.client) {
+      return this.client;
+    }
+
+    const client = await this.pool.connect();
+
+    // An idle client emits 'error' if the server terminates the connection
+    client.on('error', this.handleClientError);
+
+    this.client = client;
+    return client;
+  }
+
+  private handleClientError = (error: Error): void => {
+    this.logger.error('Leader election connection error', { err: error });
+    this.dropSession(error);
+  };
+
+  private releaseClient(error?: Error | boolean): void {
+    if (!this.client) return;
+
+    this.client.removeListener('error', this.handleClientError);
+    this.client.release(error);
+    this.client = undefined;
+  }
+
+  /**
+   * Discard the dedicated connection after an error
+   * Any locks it held are released by PostgreSQL when the session ends
+   */
+  private dropSession(error?: Error): void {
+    if (this.heldLocks.size > 0) {
+      this.logger.warn('Lost reconciliation leadership', {
+        queues: Array.from(this.heldLocks),
+      });
+    }
+
+    this.heldLocks.clear();
+    this.releaseClient(error ?? true);
+  }
+
+  private getLockName(queueName: string): string {
+    return `${this.lockPrefix}:reconciler:${queueName}`;
+  }
+}
@@ -0,0 +1,127 @@
+import { JobRepository } from '../persistence/repository';
+import { QueueAdapter } from '../types/adapter';
+import { OutboxConfig } from '../types/config';
+import { JobRecord } from '../types/job';
+import { Logger } from '../utils/logger';
+
+/**
+ * Adds committed outbox jobs (see jobGuard.enqueue) to the queue and marks them pending
+ *
+ * Uncommitted rows are invisible to the dispatcher and rows of a rolled back
+ * transaction never existed, so only committed jobs reach Redis. A job added to Redis
+ * whose row could not be marked is added again with the same job ID on the next run,
+ * which the queue ignores as a duplicate.
+ */
+export class OutboxDispatcher {
+  private repository: JobRepository;
+  private adapter: QueueAdapter;
+  private logger: Logger;
+  private config: Required<Omit<OutboxConfig, 'enabled'>>;
+  private dispatchInterval?: NodeJS.Timeout;
+  private dispatchPromise?: Promise<void>;
+
+  constructor(
+    repository: JobRepository,
+    adapter: QueueAdapter,
+    logger: Logger,
+    config: OutboxConfig = {}
+  ) {
+    this.repository = repository;
+    this.adapter = adapter;
+    this.logger = logger;
+    this.config = {
+      intervalMs: config.intervalMs || 1000,
+      batchSize: config.batchSize || 100,
+    };
+  }
+
+  start(): void {
+    this.dispatchInterval = setInterval(() => {
+      void this.dispatch();
+    }, this.config.intervalMs);
+
+    // Don't prevent process from exiting
+    this.dispatchInterval.unref();
+
+    this.logger.debug('Outbox dispatcher started', {
+      intervalMs: this.config.intervalMs,
+    });
+  }
+
+  /**
+   * Stop the dispatch timer and wait for a running dispatch to finish
+   */
+  async stop(): Promise<void> {
+    if (this.dispatchInterval) {
+      clearInterval(this.dispatchInterval);
+      this.dispatchInterval = undefined;
+    }
+
+    await this.dispatchPromise;
+  }
+
+  /**
+   * Dispatch committed outbox jobs until none are left; runs are never concurrent
+   */
+  async dispatch(): Promise<void> {
+    if (this.dispatchPromise) {
+      return this.dispatchPromise;
+    }
+
+    this.dispatchPromise = this.dispatchPending().finally(() => {
+      this.dispatchPromise = undefined;
+    });
+
+    return this.dispatchPromise;
+  }
+
+  private async dispatchPending(): Promise<void> {
+    let dispatched = 0;
+
+    try {
+      for (;;) {
+        const batch = await this.repository.dispatchJobs(
+          this.adapter.queueName,
+          this.adapter.queueType,
+          this.config.batchSize,
+          (jobs) => this.addToQueue(jobs)
+        );
+        dispatched += batch.dispatched;
+
+        // A short batch is the last one; a failed job stops the run until the next tick
+        if (batch.found < this.config.batchSize || batch.dispatched < batch.found) {
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error('Outbox dispatch failed', { err: error });
+    }
+
+    if (dispatched > 0) {
+      this.logger.info('Dispatched outbox jobs', { dispatched });
+    }
+  }
+
+  /**
+   * Add jobs to the queue in order, stopping at the first failure to keep that order
+   * @returns Jobs added to the queue
+   */
+  private async addToQueue(jobs: JobRecord[]): Promise<JobRecord[]> {
+    const added: JobRecord[] = [];
+
+    for (const job of jobs) {
+      try {
+        await this.adapter.dispatchJob(job);
+        added.push(job);
+      } catch (error) {
+        this.logger.error('Failed to dispatch outbox job', {
+          jobId: job.job_id,
+          err: error,
+        });
+        break;
+      }
+    }
+
+    return added;
+  }
+}
@@ -1,31 +1,101 @@
 import { JobRepository } from '../persistence/repository';
-import { QueueAdapter } from '../types/adapter';
+import { QueueAdapter, ReEnqueueOptions } from '../types/adapter';
+import { JobRecord, JobStatus } from '../types/job';
 import { ReconciliationConfig } from '../types/config';
 import { Logger } from '../utils/logger';
 import { AdaptiveScheduler } from './scheduler';
+import { LeaderElection } from './leader-election';
 import { ReconciliationError } from '../errors/errors';
+import { Histogram, HistogramSnapshot } from '../metrics/prometheus';
+import { JobGuardEventEmitter } from '../types/events';
+import { Span, withSpan } from '../utils/tracing';
+
+/**
+ * Outcome of a single reconciliation pass (stuck or orphaned jobs)
+ */
+interface PassResult {
+  found: number;
+  reEnqueued: number;
+  failed: number;
+  dead: number;
+}
+
+const EMPTY_PASS: PassResult = { found: 0, reEnqueued: 0, failed: 0, dead: 0 };
+
+// Run duration buckets in seconds
+const DURATION_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Counters since the reconciler was created
+ */
+export interface ReconcilerMetrics {
+  runs: { success: number; failure: number; skipped: number }; // skipped: not the leader
+  durationSeconds: HistogramSnapshot;
+  jobs: {
+    stuck: number;
+    orphaned: number;
+    reEnqueued: number;
+    failed: number;
+    dead: number;
+  };
+  currentIntervalMs: number;
+}
+
+/**
+ * Current state of the reconciler, for health checks
+ */
+export interface ReconcilerStatus {
+  running: boolean;
+  paused: boolean; // Runs are skipped after MAX_CONSECUTIVE_FAILURES until forceRun()
+  leader: boolean;
+  consecutiveFailures: number;
+  lastRunAt?: Date;
+  lastSuccessAt?: Date;
+}
+
+/**
+ * Reconciliation state and counters of one queue
+ */
+interface QueueState {
+  adapter: QueueAdapter;
+  consecutiveFailures: number;
+  orphanCursor?: string;
+  runs: ReconcilerMetrics['runs'];
+  jobs: ReconcilerMetrics['jobs'];
+  durations: Histogram;
+  lastRunAt?: Date;
+  lastSuccessAt?: Date;
+}
 
+/**
+ * Periodically re-enqueues stuck and orphaned jobs of one or more queues
+ * All queues share one timer; each queue has its own leadership, failure count and metrics.
+ */
 export class Reconciler {
   private repository: JobRepository;
-  private adapter: QueueAdapter;
+  private queues: QueueState[] = [];
+  private nextQueue = 0;
   private config: Required<ReconciliationConfig>;
   private logger: Logger;
   private scheduler: AdaptiveScheduler;
+  private leaderElection?: LeaderElection;
+  private events?: JobGuardEventEmitter;
   private intervalHandle?: NodeJS.Timeout;
   private isRunning = false;
   private isStopped = false;
-  private consecutiveFailures = 0;
   private readonly MAX_CONSECUTIVE_FAILURES = 3;
 
   constructor(
     repository: JobRepository,
-    adapter: QueueAdapter,
+    adapters: QueueAdapter | QueueAdapter[],
     config: ReconciliationConfig,
-    logger: Logger
+    logger: Logger,
+    leaderElection?: LeaderElection,
+    events?: JobGuardEventEmitter
   ) {
     this.repository = repository;
-    this.adapter = adapter;
     this.logger = logger;
+    this.events = events;
 
     // Apply defaults
     const stuckThresholdMs = config.stuckThresholdMs || 300000;
@@ -39,6 +109,16 @@ export class Reconciler {
       );
     }
 
+    const orphanThresholdMs = config.orphanThresholdMs || 600000;
+
+    // Pending jobs need time to be picked up before they count as lost
+    if (orphanThresholdMs < MIN_STUCK_THRESHOLD) {
+      throw new ReconciliationError(
+        `orphanThresholdMs must be at least ${MIN_STUCK_THRESHOLD}ms (60 seconds), ` +
+          `got ${orphanThresholdMs}ms. This prevents re-enqueueing jobs still in flight.`
+      );
+    }
+
     this.config = {
       enabled: config.enabled !== false,
       intervalMs: config.intervalMs || 30000,
@@ -47,8 +127,16 @@ export class Reconciler {
       adaptiveScheduling: config.adaptiveScheduling !== false,
       rateLimitPerSecond: config.rateLimitPerSecond || 20,
       useHeartbeat: config.useHeartbeat !== false,
+      leaderElection: config.leaderElection !== false,
+      orphanDetection: config.orphanDetection === true,
+      orphanThresholdMs,
+      orphanBatchSize: config.orphanBatchSize || 50,
     };
 
+    if (this.config.leaderElection) {
+      this.leaderElection = leaderElection;
+    }
+
     this.scheduler = new AdaptiveScheduler(
       {
         baseIntervalMs: this.config.intervalMs,
@@ -56,6 +144,39 @@ export class Reconciler {
       },
       logger
     );
+
+    for (const adapter of Array.isArray(adapters) ? adapters : [adapters]) {
+      this.addQueue(adapter);
+    }
+  }
+
+  /**
+   * Include a queue in reconciliation from the next run on
+   * @throws ReconciliationError if a queue with the same name is already reconciled
+   */
+  addQueue(adapter: QueueAdapter): void {
+    if (this.findQueue(adapter.queueName)) {
+      throw new ReconciliationError(`Queue ${adapter.queueName} is already reconciled`);
+    }
+
+    this.queues.push({
+      adapter,
+      consecutiveFailures: 0,
+      runs: { success: 0, failure: 0, skipped: 0 },
+      jobs: { stuck: 0, orphaned: 0, reEnqueued: 0, failed: 0, dead: 0 },
+      durations: new Histogram(DURATION_BUCKETS),
+    });
+  }
+
+  /**
+   * Stop reconciling a queue and hand its leadership over to another instance
+   */
+  async removeQueue(queueName: string): Promise<void> {
+    this.queues = this.queues.filter((state) => state.adapter.queueName !== queueName);
+
+    if (this.leaderElection) {
+      await this.leaderElection.release(queueName);
+    }
   }
 
   start(): void {
@@ -69,23 +190,45 @@ export class Reconciler {
       return;
     }
 
-    this.logger.info(
-      `Starting reconciliation with interval: ${this.config.intervalMs}ms, ` +
-        `stuck threshold: ${this.config.stuckThresholdMs}ms`
-    );
+    this.logger.info('Starting reconciliation', {
+      queues: this.queueNames(),
+      intervalMs: this.config.intervalMs,
+      stuckThresholdMs: this.config.stuckThresholdMs,
+    });
 
     this.isStopped = false;
     this.scheduleNext();
   }
 
-  stop(): void {
+  async stop(): Promise<void> {
     if (this.intervalHandle) {
       clearTimeout(this.intervalHandle);
       this.intervalHandle = undefined;
     }
 
     this.isStopped = true;
-    this.logger.info('Stopped reconciliation');
+
+    // Hand leadership of every queue over to another instance right away
+    if (this.leaderElection) {
+      await this.leaderElection.release();
+    }
+
+    this.logger.info('Stopped reconciliation', { queues: this.queueNames() });
+  }
+
+  /**
+   * Whether this instance currently performs reconciliation for the queue
+   * Always true when leader election is disabled
+   * @param queueName - Defaults to the first queue
+   */
+  isLeader(queueName?: string): boolean {
+    const state = this.getQueue(queueName);
+
+    if (!this.leaderElection) {
+      return !this.isStopped;
+    }
+
+    return this.leaderElection.isLeader(state.adapter.queueName);
   }
 
   private scheduleNext(): void {
@@ -97,112 +240,397 @@ export class Reconciler {
     }, interval);
   }
 
-  private async run(): Promise<void> {
+  /**
+   * Reconcile every queue once, or only the given queues
+   * Each round starts at the next queue, so a slow or failing queue doesn't always
+   * hold up the same queues behind it.
+   * @throws The first error of a queue that failed, after the other queues ran
+   */
+  private async run(only?: QueueState[]): Promise<void> {
     if (this.isRunning || this.isStopped) return;
 
-    // Check if reconciliation has been paused due to consecutive failures
-    if (this.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
-      this.logger.error(
-        `Reconciliation paused after ${this.MAX_CONSECUTIVE_FAILURES} consecutive failures. ` +
-          `Call forceRun() to retry or check database/Redis connectivity.`
-      );
-      // Still schedule next run in case issue resolves
-      this.scheduleNext();
-      return;
-    }
-
     this.isRunning = true;
+    const totals = { found: 0, reEnqueued: 0, failed: 0 };
+    let firstError: unknown;
 
     try {
-      const startTime = Date.now();
+      for (const state of this.nextRound(only)) {
+        if (this.isStopped) break;
+
+        // Check if reconciliation of the queue has been paused due to consecutive failures
+        if (state.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
+          this.logger.error(
+            'Reconciliation paused after consecutive failures. ' +
+              'Call forceRun() to retry or check database/Redis connectivity.',
+            { queue: state.adapter.queueName, failures: state.consecutiveFailures }
+          );
+          // Let a healthy instance take over while this one is paused
+          if (this.leaderElection) {
+            await this.leaderElection.release(state.adapter.queueName);
+          }
+          continue;
+        }
 
-      const { toReEnqueue: jobsToReEnqueue, deadJobIds } =
-        await this.repository.getAndMarkStuckJobs(
-          this.adapter.queueName,
-          this.config.stuckThresholdMs,
-          this.config.batchSize
-        );
+        try {
+          const result = await withSpan(
+            'jobguard.reconcile',
+            {
+              'jobguard.queue': state.adapter.queueName,
+              'jobguard.queue_type': state.adapter.queueType,
+            },
+            (span) => this.reconcile(state, span)
+          );
+          totals.found += result.found;
+          totals.reEnqueued += result.reEnqueued;
+          totals.failed += result.failed;
+        } catch (error) {
+          firstError ??= error;
+        }
+      }
 
-      const totalStuckJobs = jobsToReEnqueue.length + deadJobIds.length;
+      // Update scheduler with success rate
+      const attempted = totals.reEnqueued + totals.failed;
+      const successRate = attempted > 0 ? totals.reEnqueued / attempted : 1.0;
+      this.scheduler.recordResult(totals.found, successRate);
+    } finally {
+      this.isRunning = false;
+      this.scheduleNext();
+    }
 
-      if (totalStuckJobs > 0) {
-        this.logger.info(
-          `Found ${totalStuckJobs} stuck jobs for queue: ${this.adapter.queueName}`
-        );
+    if (firstError !== undefined) {
+      throw firstError;
+    }
+  }
 
-        // Log dead jobs
-        if (deadJobIds.length > 0) {
-          this.logger.warn(
-            `${deadJobIds.length} jobs exceeded max attempts and marked as dead`
-          );
-        }
+  private nextRound(only?: QueueState[]): QueueState[] {
+    const start = this.queues.length > 0 ? this.nextQueue % this.queues.length : 0;
+    this.nextQueue = start + 1;
 
-        // Re-enqueue jobs with configurable rate limiting
-        let reEnqueuedCount = 0;
-        let failedCount = 0;
-        const RATE_LIMIT_MS = Math.floor(1000 / this.config.rateLimitPerSecond);
-
-        for (const job of jobsToReEnqueue) {
-          try {
-            await this.adapter.reEnqueueJob(job);
-            reEnqueuedCount++;
-
-            // Rate limit: wait between operations
-            if (reEnqueuedCount < jobsToReEnqueue.length) {
-              await this.sleep(RATE_LIMIT_MS);
-            }
-          } catch (error) {
-            failedCount++;
-            this.logger.error(`Failed to re-enqueue job ${job.job_id}:`, error);
-          }
-        }
+    const round = [...this.queues.slice(start), ...this.queues.slice(0, start)];
+    return only ? round.filter((state) => only.includes(state)) : round;
+  }
 
-        const duration = Date.now() - startTime;
-        this.logger.info(
-          `Reconciliation completed in ${duration}ms: ` +
-            `${totalStuckJobs} stuck jobs found, ${reEnqueuedCount} re-enqueued, ` +
-            `${failedCount} failed, ${deadJobIds.length} marked dead`
-        );
+  private async reconcile(state: QueueState, span?: Span): Promise<PassResult> {
+    const { adapter } = state;
+    const startTime = Date.now();
 
-        // Update scheduler with success rate
-        const successRate =
-          jobsToReEnqueue.length > 0 ? reEnqueuedCount / jobsToReEnqueue.length : 1.0;
-        this.scheduler.recordResult(totalStuckJobs, successRate);
-      } else {
-        // No stuck jobs found
-        this.scheduler.recordResult(0, 1.0);
+    try {
+      // Only the leader for this queue reconciles; other instances stand by
+      if (
+        this.leaderElection &&
+        !(await this.leaderElection.acquire(adapter.queueName))
+      ) {
+        this.logger.debug('Skipping reconciliation: another instance is leader', {
+          queue: adapter.queueName,
+        });
+        state.runs.skipped++;
+        span?.setAttribute('jobguard.skipped', true);
+        return EMPTY_PASS;
+      }
+
+      const stuck = await this.reconcileStuckJobs(state);
+      const orphaned = this.config.orphanDetection
+        ? await this.reconcileOrphanedJobs(state)
+        : EMPTY_PASS;
+
+      const totalFound = stuck.found + orphaned.found;
+      const reEnqueuedCount = stuck.reEnqueued + orphaned.reEnqueued;
+      const failedCount = stuck.failed + orphaned.failed;
+      const deadCount = stuck.dead + orphaned.dead;
+      this.recordRun(state, stuck, orphaned, startTime);
+      span?.setAttribute('jobguard.stuck', stuck.found);
+      span?.setAttribute('jobguard.orphaned', orphaned.found);
+      span?.setAttribute('jobguard.re_enqueued', reEnqueuedCount);
+      span?.setAttribute('jobguard.failed', failedCount);
+      span?.setAttribute('jobguard.dead', deadCount);
+
+      this.events?.emit('reconcile:complete', {
+        queueName: adapter.queueName,
+        durationMs: Date.now() - startTime,
+        stuck: stuck.found,
+        orphaned: orphaned.found,
+        reEnqueued: reEnqueuedCount,
+        failed: failedCount,
+        dead: deadCount,
+      });
+
+      if (totalFound > 0) {
+        this.logger.info('Reconciliation completed', {
+          queue: adapter.queueName,
+          durationMs: Date.now() - startTime,
+          stuck: stuck.found,
+          orphaned: orphaned.found,
+          reEnqueued: reEnqueuedCount,
+          failed: failedCount,
+          dead: deadCount,
+        });
       }
 
       // Reset failure counter on successful run
-      this.consecutiveFailures = 0;
+      state.consecutiveFailures = 0;
+      state.lastSuccessAt = new Date();
+
+      return {
+        found: totalFound,
+        reEnqueued: reEnqueuedCount,
+        failed: failedCount,
+        dead: deadCount,
+      };
     } catch (error) {
-      this.consecutiveFailures++;
-      this.logger.error(
-        `Reconciliation run failed (${this.consecutiveFailures}/${this.MAX_CONSECUTIVE_FAILURES}):`,
-        error
-      );
-
-      if (this.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
+      state.runs.failure++;
+      state.durations.observe((Date.now() - startTime) / 1000);
+      state.consecutiveFailures++;
+      this.logger.error('Reconciliation run failed', {
+        queue: adapter.queueName,
+        failures: state.consecutiveFailures,
+        maxFailures: this.MAX_CONSECUTIVE_FAILURES,
+        err: error,
+      });
+
+      if (state.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES) {
         this.logger.error(
-          'Reconciliation has been paused. Check database and Redis connectivity.'
+          'Reconciliation has been paused. Check database and Redis connectivity.',
+          { queue: adapter.queueName }
         );
       }
 
-      throw new ReconciliationError(
+      const reconciliationError = new ReconciliationError(
         'Failed to complete reconciliation',
         error instanceof Error ? error : undefined
       );
+      this.events?.emit('reconcile:failed', reconciliationError);
+      throw reconciliationError;
     } finally {
-      this.isRunning = false;
-      this.scheduleNext();
+      state.lastRunAt = new Date();
+    }
+  }
+
+  private recordRun(
+    state: QueueState,
+    stuck: PassResult,
+    orphaned: PassResult,
+    startTime: number
+  ): void {
+    state.runs.success++;
+    state.durations.observe((Date.now() - startTime) / 1000);
+    state.jobs.stuck += stuck.found;
+    state.jobs.orphaned += orphaned.found;
+    state.jobs.reEnqueued += stuck.reEnqueued + orphaned.reEnqueued;
+    state.jobs.failed += stuck.failed + orphaned.failed;
+    state.jobs.dead += stuck.dead + orphaned.dead;
+  }
+
+  /**
+   * @param queueName - Defaults to the first queue
+   */
+  getStatus(queueName?: string): ReconcilerStatus {
+    const state = this.getQueue(queueName);
+
+    return {
+      running: this.config.enabled && !this.isStopped && !!this.intervalHandle,
+      paused: state.consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES,
+      leader: this.isLeader(state.adapter.queueName),
+      consecutiveFailures: state.consecutiveFailures,
+      lastRunAt: state.lastRunAt,
+      lastSuccessAt: state.lastSuccessAt,
+    };
+  }
+
+  /**
+   * @param queueName - Defaults to the first queue
+   */
+  getMetrics(queueName?: string): ReconcilerMetrics {
+    const state = this.getQueue(queueName);
+
+    return {
+      runs: { ...state.runs },
+      durationSeconds: state.durations.snapshot(),
+      jobs: { ...state.jobs },
+      currentIntervalMs: this.scheduler.getCurrentInterval(),
+    };
+  }
+
+  private findQueue(queueName: string): QueueState | undefined {
+    return this.queues.find((state) => state.adapter.queueName === queueName);
+  }
+
+  /**
+   * @throws ReconciliationError if the queue is not reconciled
+   */
+  private getQueue(queueName?: string): QueueState {
+    const state = queueName === undefined ? this.queues[0] : this.findQueue(queueName);
+    if (!state) {
+      throw new ReconciliationError(`Queue ${queueName ?? ''} is not reconciled`.trim());
     }
+    return state;
+  }
+
+  private queueNames(): string[] {
+    return this.queues.map((state) => state.adapter.queueName);
   }
 
-  async forceRun(): Promise<void> {
-    this.logger.info('Forcing immediate reconciliation run');
-    // Reset failure counter to allow retry
-    this.consecutiveFailures = 0;
-    await this.run();
+  /**
+   * Find processing jobs whose heartbeat is stale, mark them stuck and re-enqueue them
+   */
+  private async reconcileStuckJobs({ adapter }: QueueState): Promise<PassResult> {
+    const { toReEnqueue: jobsToReEnqueue, deadJobs } =
+      await this.repository.getAndMarkStuckJobs(
+        adapter.queueName,
+        this.config.stuckThresholdMs,
+        this.config.batchSize
+      );
+
+    const totalStuckJobs = jobsToReEnqueue.length + deadJobs.length;
+
+    if (totalStuckJobs === 0) {
+      return EMPTY_PASS;
+    }
+
+    this.logger.info('Found stuck jobs', {
+      queue: adapter.queueName,
+      count: totalStuckJobs,
+    });
+
+    for (const job of jobsToReEnqueue) {
+      this.events?.emit('job:stuck', job);
+    }
+
+    // Log dead jobs
+    if (deadJobs.length > 0) {
+      this.logger.warn('Jobs exceeded max attempts and were marked dead', {
+        queue: adapter.queueName,
+        count: deadJobs.length,
+      });
+      for (const job of deadJobs) {
+        this.events?.emit('job:dead', job);
+      }
+    }
+
+    const { reEnqueued, failed } = await this.reEnqueueJobs(adapter, jobsToReEnqueue);
+
+    return { found: totalStuckJobs, reEnqueued, failed, dead: deadJobs.length };
+  }
+
+  /**
+   * Find pending jobs that no longer exist in Redis (flush, failover without AOF,
+   * eviction) and re-enqueue them
+   *
+   * Each run checks the next page of old pending jobs, wrapping around to the oldest
+   * once the end is reached, so a large backlog is covered over successive runs.
+   */
+  private async reconcileOrphanedJobs(state: QueueState): Promise<PassResult> {
+    const { adapter } = state;
+    const candidates = await this.repository.getOrphanCandidates(
+      adapter.queueName,
+      adapter.queueType,
+      this.config.orphanThresholdMs,
+      this.config.orphanBatchSize,
+      state.orphanCursor
+    );
+
+    const lastCandidate = candidates[candidates.length - 1];
+    state.orphanCursor =
+      candidates.length < this.config.orphanBatchSize ? undefined : lastCandidate?.id;
+
+    const orphanedJobs: JobRecord[] = [];
+    const deadJobs: JobRecord[] = [];
+
+    for (const candidate of candidates) {
+      const jobState = await adapter.getJobState(candidate.job_id);
+      if (jobState !== null) continue;
+
+      // Claim only if still pending - the job may have been picked up meanwhile
+      // Jobs with a stubbed payload are marked dead by the claim instead
+      const claimed = await this.repository.claimOrphanedJob(candidate.id);
+      if (claimed?.status === JobStatus.DEAD) {
+        deadJobs.push(claimed);
+        this.events?.emit('job:dead', claimed);
+      } else if (claimed) {
+        orphanedJobs.push(claimed);
+        this.events?.emit('job:stuck', claimed);
+      }
+    }
+
+    if (deadJobs.length > 0) {
+      this.logger.warn('Orphaned jobs with a stubbed payload were marked dead', {
+        queue: adapter.queueName,
+        count: deadJobs.length,
+      });
+    }
+
+    if (orphanedJobs.length === 0) {
+      return { ...EMPTY_PASS, found: deadJobs.length, dead: deadJobs.length };
+    }
+
+    this.logger.warn('Found orphaned jobs (pending in PostgreSQL, missing from Redis)', {
+      queue: adapter.queueName,
+      count: orphanedJobs.length,
+    });
+
+    const { reEnqueued, failed } = await this.reEnqueueJobs(adapter, orphanedJobs, {
+      requeueIfMissing: true,
+    });
+
+    return {
+      found: orphanedJobs.length + deadJobs.length,
+      reEnqueued,
+      failed,
+      dead: deadJobs.length,
+    };
+  }
+
+  /**
+   * Re-enqueue jobs with configurable rate limiting
+   */
+  private async reEnqueueJobs(
+    adapter: QueueAdapter,
+    jobs: JobRecord[],
+    options?: ReEnqueueOptions
+  ): Promise<{ reEnqueued: number; failed: number }> {
+    let reEnqueued = 0;
+    let failed = 0;
+    const RATE_LIMIT_MS = Math.floor(1000 / this.config.rateLimitPerSecond);
+
+    for (const job of jobs) {
+      try {
+        await adapter.reEnqueueJob(job, options);
+        reEnqueued++;
+        this.events?.emit('job:reenqueued', job);
+
+        // Rate limit: wait between operations
+        if (reEnqueued < jobs.length) {
+          await withSpan('jobguard.reconcile.rate_limit', {}, () =>
+            this.sleep(RATE_LIMIT_MS)
+          );
+        }
+      } catch (error) {
+        failed++;
+        this.logger.error('Failed to re-enqueue job', {
+          queue: adapter.queueName,
+          jobId: job.job_id,
+          err: error,
+        });
+      }
+    }
+
+    return { reEnqueued, failed };
+  }
+
+  /**
+   * Reconcile right away, resuming queues paused after consecutive failures
+   * @param queueName - Only reconcile this queue (default: every queue)
+   */
+  async forceRun(queueName?: string): Promise<void> {
+    const states = queueName === undefined ? this.queues : [this.getQueue(queueName)];
+
+    this.logger.info('Forcing immediate reconciliation run', {
+      queues: states.map((state) => state.adapter.queueName),
+    });
+    // Reset failure counters to allow retry
+    for (const state of states) {
+      state.consecutiveFailures = 0;
+    }
+    await this.run(states);
   }
 
   private sleep(ms: number): Promise<void> {
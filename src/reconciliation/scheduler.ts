@@ -29,10 +29,10 @@ export class AdaptiveScheduler {
     // If success rate is low, increase interval to back off
     if (successRate < 0.8) {
       this.currentIntervalMs = Math.min(this.currentIntervalMs * 1.5, this.maxIntervalMs);
-      this.logger.warn(
-        `Increased reconciliation interval to ${this.currentIntervalMs}ms ` +
-          `due to low success rate (${(successRate * 100).toFixed(1)}%)`
-      );
+      this.logger.warn('Increased reconciliation interval due to low success rate', {
+        intervalMs: this.getCurrentInterval(),
+        successRate,
+      });
       return;
     }
 
@@ -44,18 +44,19 @@ export class AdaptiveScheduler {
           this.currentIntervalMs * 1.5,
           this.maxIntervalMs
         );
-        this.logger.debug(
-          `Increased reconciliation interval to ${this.currentIntervalMs}ms (no stuck jobs)`
-        );
+        this.logger.debug('Increased reconciliation interval (no stuck jobs)', {
+          intervalMs: this.getCurrentInterval(),
+        });
       }
     } else {
       this.consecutiveEmptyRuns = 0;
       // Decrease interval when stuck jobs are found and success rate is good
       this.currentIntervalMs = Math.max(this.currentIntervalMs * 0.8, this.minIntervalMs);
-      this.logger.debug(
-        `Decreased reconciliation interval to ${this.currentIntervalMs}ms ` +
-          `(${foundStuckJobs} stuck jobs, ${(successRate * 100).toFixed(1)}% success)`
-      );
+      this.logger.debug('Decreased reconciliation interval', {
+        intervalMs: this.getCurrentInterval(),
+        stuck: foundStuckJobs,
+        successRate,
+      });
     }
   }
 
@@ -1,4 +1,33 @@
-import { JobRecord } from './job';
+import type { ClientBase } from 'pg';
+import { EnqueueOptions, JobRecord, RecordJobInput } from './job';
+import { ListenerHealth } from './health';
+
+export interface ReEnqueueOptions {
+  requeueIfMissing?: boolean; // Default: false - Re-enqueue even if the job no longer exists in Redis
+  replaceFinished?: boolean; // Default: false - Replace a job that Redis still holds as completed/failed
+  attempts?: number; // Default: max_attempts - attempts (at least 1) - Attempts option passed to the queue when re-adding
+}
+
+/**
+ * Redis job states that can be backfilled into PostgreSQL
+ * Active jobs are tracked as processing, waiting and delayed jobs as pending
+ */
+export type BackfillState = 'waiting' | 'delayed' | 'active';
+
+export interface BackfillOptions {
+  states?: BackfillState[]; // Default: ['waiting', 'delayed', 'active']
+  batchSize?: number; // Default: 100 - Jobs fetched from Redis per page
+}
+
+export interface BackfillResult {
+  added: number; // Jobs that were not tracked and have been inserted
+  alreadyPresent: number; // Jobs already tracked in PostgreSQL
+  skipped: number; // Jobs that exceed the configured limits
+}
+
+export interface AdapterMetrics {
+  writeFailures: Record<'create' | 'status' | 'error', number>; // Failed PostgreSQL writes, spooled or not
+}
 
 export interface QueueAdapter {
   readonly queueName: string;
@@ -7,7 +36,42 @@ export interface QueueAdapter {
   initialize(): void;
   wrapAddMethod(): void;
   attachEventListeners(): void;
-  reEnqueueJob(jobRecord: JobRecord): Promise<void>;
+  reEnqueueJob(jobRecord: JobRecord, options?: ReEnqueueOptions): Promise<void>;
+  /**
+   * Track a job on the caller's client before it is added to the queue, applying limits
+   * @returns null if the limits policy skips the job
+   */
+  recordJob(client: ClientBase, job: RecordJobInput): Promise<JobRecord | null>;
+  /**
+   * Insert a job on the caller's client for the outbox dispatcher to add to the queue
+   * once the transaction commits
+   * @returns null if a job with this ID is already tracked
+   */
+  enqueueJob(
+    client: ClientBase,
+    name: string | undefined,
+    data: unknown,
+    opts?: EnqueueOptions
+  ): Promise<JobRecord | null>;
+  /**
+   * Add an outbox job to the queue with its job ID and recorded options
+   */
+  dispatchJob(jobRecord: JobRecord): Promise<void>;
+  /**
+   * Current state of a job in Redis as reported by the queue library
+   * @returns null if the job does not exist in Redis
+   */
+  getJobState(jobId: string): Promise<string | null>;
+  /**
+   * Track jobs that exist in Redis but not in PostgreSQL
+   * (e.g. enqueued before JobGuard was attached, or while PostgreSQL was down)
+   */
+  backfillFromRedis(options?: BackfillOptions): Promise<BackfillResult>;
   updateHeartbeat(jobId: string): Promise<void>;
+  getMetrics(): AdapterMetrics;
+  /**
+   * Whether the connection lifecycle events arrive on is up
+   */
+  getListenerHealth(): Promise<ListenerHealth>;
   dispose(): void | Promise<void>;
 }
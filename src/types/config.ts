@@ -1,14 +1,60 @@
+import type { Pool } from 'pg';
+
 export interface JobGuardConfig {
-  postgres: PostgresConfig | string;
+  postgres: PostgresConfig | string | Pool; // An existing Pool is used as is and never ended
   reconciliation?: ReconciliationConfig;
   logging?: LoggingConfig;
   persistence?: PersistenceConfig;
   limits?: LimitsConfig;
+  spool?: SpoolConfig;
+  metrics?: MetricsConfig;
+  outbox?: OutboxConfig;
+  autoMigrate?: boolean; // Default: false - Apply pending schema migrations on startup
 }
 
 export interface LimitsConfig {
   maxJobDataSize?: number; // Default: 1048576 (1MB)
-  maxJobNameLength?: number; // Default: 255
+  maxJobNameLength?: number; // Default: 255 (also the maximum - job_name column size)
+  oversizedJobPolicy?: OversizedJobPolicy; // Default: 'skip'
+}
+
+/**
+ * What to do with a job that exceeds the configured limits
+ * - reject: throw JobValidationError from queue.add() - the job is not enqueued
+ * - stub: enqueue normally, persist a truncated name and a hashed stub instead of the data
+ * - skip: enqueue normally, don't persist the job, log a warning
+ */
+export type OversizedJobPolicy = 'reject' | 'stub' | 'skip';
+
+/**
+ * Local write-ahead spool for job writes that fail while PostgreSQL is unavailable
+ * The directory must not be shared by processes that guard the same queue
+ */
+export interface SpoolConfig {
+  enabled?: boolean; // Default: false
+  directory?: string; // Default: '.jobguard-spool' in the working directory
+  maxBytes?: number; // Default: 52428800 (50MB) - Writes are dropped once the spool is full
+  replayIntervalMs?: number; // Default: 5000
+  replayBatchSize?: number; // Default: 100 - Entries read from disk per replay batch
+}
+
+/**
+ * HTTP endpoint for Prometheus scrapes; jobGuard.metrics() works without it
+ */
+export interface MetricsConfig {
+  enabled?: boolean; // Default: false
+  port?: number; // Default: 9464
+  host?: string; // Default: '0.0.0.0'
+  path?: string; // Default: '/metrics'
+}
+
+/**
+ * Dispatcher for jobs enqueued inside caller transactions (see jobGuard.enqueue)
+ */
+export interface OutboxConfig {
+  enabled?: boolean; // Default: false
+  intervalMs?: number; // Default: 1000 - How often committed jobs are added to the queue
+  batchSize?: number; // Default: 100 - Jobs locked and dispatched per transaction
 }
 
 export interface PostgresConfig {
@@ -33,16 +79,80 @@ export interface ReconciliationConfig {
   adaptiveScheduling?: boolean; // Default: true
   rateLimitPerSecond?: number; // Default: 20 (jobs per second during re-enqueue)
   useHeartbeat?: boolean; // Default: true - Use last_heartbeat for stuck detection instead of updated_at
+  leaderElection?: boolean; // Default: true - Only one instance per queue reconciles at a time (PostgreSQL advisory lock)
+  orphanDetection?: boolean; // Default: false - Re-enqueue pending jobs that are missing from Redis
+  orphanThresholdMs?: number; // Default: 600000 (10 minutes) - Minimum age of a pending job before checking Redis
+  orphanBatchSize?: number; // Default: 50 - Pending jobs checked against Redis per run
 }
 
 export interface LoggingConfig {
   enabled?: boolean; // Default: true
   level?: 'debug' | 'info' | 'warn' | 'error'; // Default: 'info'
-  prefix?: string; // Default: '[JobGuard]'
+  prefix?: string; // Default: '[JobGuard]' - Text format only
+  format?: 'text' | 'json'; // Default: 'text' - Console output format
+  logger?: JobGuardLogger; // Default: console - Receives entries at or above level instead
+}
+
+/**
+ * Structured fields of a log entry
+ */
+export interface LogContext {
+  queue?: string;
+  queueType?: string;
+  jobId?: string;
+  err?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * Logger JobGuard writes to instead of the console, e.g. a wrapper around pino or winston
+ */
+export interface JobGuardLogger {
+  debug(msg: string, context?: LogContext): void;
+  info(msg: string, context?: LogContext): void;
+  warn(msg: string, context?: LogContext): void;
+  error(msg: string, context?: LogContext): void;
 }
 
 export interface PersistenceConfig {
-  retentionDays?: number; // Default: 7
+  schema?: string; // Default: none - Tables go to the first schema of the search_path
+  tableName?: string; // Default: 'jobguard_jobs' - Other objects are named after a custom table
+  retentionDays?: number; // Default: 7 - For statuses without their own retention
+  retention?: RetentionConfig;
+  archive?: ArchiveConfig;
   cleanupEnabled?: boolean; // Default: true
   cleanupIntervalMs?: number; // Default: 3600000 (1 hour)
+  partitioning?: PartitioningConfig;
+}
+
+/**
+ * Days finished jobs stay in the jobs table, by status
+ */
+export interface RetentionConfig {
+  completed?: number; // Default: retentionDays
+  failed?: number; // Default: retentionDays
+  dead?: number; // Default: retentionDays
+}
+
+/**
+ * Keep expired jobs, with their history, instead of deleting them
+ * The archive table is searched by getJob(), getJobHistory() and listJobs() with
+ * includeArchived; an NDJSON file gets one job per line, at least once.
+ */
+export interface ArchiveConfig {
+  enabled?: boolean; // Default: false
+  target?: 'table' | 'file'; // Default: 'table' - <table>_archive, or an NDJSON file
+  filePath?: string; // Required for target 'file' - Jobs are appended to it
+  retentionDays?: number; // Default: none - Archived jobs are kept until you delete them (table only)
+}
+
+/**
+ * Range partitioning of the jobs table on created_at, with partitions managed by JobGuard
+ * Retention drops whole partitions instead of deleting rows. JobGuard.migrate() converts
+ * an existing table.
+ */
+export interface PartitioningConfig {
+  enabled?: boolean; // Default: false
+  interval?: 'day' | 'week'; // Default: 'day' - Ranges start at midnight UTC (weeks on Monday)
+  partitionsAhead?: number; // Default: 7 - Partitions created ahead of the current one
 }
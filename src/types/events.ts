@@ -0,0 +1,37 @@
+import { JobRecord } from './job';
+import { TypedEventEmitter } from '../utils/typed-event-emitter';
+
+/**
+ * Outcome of a completed reconciliation run
+ */
+export interface ReconcileSummary {
+  queueName: string;
+  durationMs: number;
+  stuck: number; // Processing jobs with a stale heartbeat
+  orphaned: number; // Pending jobs missing from Redis
+  reEnqueued: number;
+  failed: number; // Jobs that could not be re-enqueued
+  dead: number; // Stuck jobs that exceeded max attempts
+}
+
+export interface PoolStats {
+  total: number;
+  idle: number;
+  waiting: number;
+}
+
+/**
+ * Events emitted by JobGuard
+ * Listeners run synchronously; a listener that throws is logged and doesn't affect JobGuard
+ */
+export type JobGuardEvents = {
+  'job:stuck': (job: JobRecord) => void;
+  'job:reenqueued': (job: JobRecord) => void;
+  'job:dead': (job: JobRecord) => void;
+  'reconcile:complete': (summary: ReconcileSummary) => void;
+  'reconcile:failed': (error: Error) => void;
+  'breaker:open': (name: string) => void;
+  'pool:exhausted': (stats: PoolStats) => void;
+};
+
+export type JobGuardEventEmitter = TypedEventEmitter<JobGuardEvents>;
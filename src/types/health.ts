@@ -0,0 +1,83 @@
+/**
+ * Health of JobGuard or one of its components
+ * - ok: working normally
+ * - degraded: working, but something needs attention (jobs may be tracked late)
+ * - down: jobs are not being tracked
+ */
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface PostgresHealth {
+  status: HealthStatus;
+  latencyMs?: number; // Round trip of a probe query that bypasses the circuit breaker
+  error?: string;
+}
+
+export interface CircuitBreakerHealth {
+  status: HealthStatus;
+  state: string; // closed | open | half_open
+  consecutiveFailures: number;
+}
+
+export interface PoolHealth {
+  status: HealthStatus;
+  total: number;
+  idle: number;
+  waiting: number;
+  exhausted: boolean; // All connections busy for 15 seconds - new operations are rejected
+}
+
+export interface ReconcilerHealth {
+  status: HealthStatus;
+  enabled: boolean;
+  paused: boolean; // Stopped retrying after consecutive failures (see forceReconciliation)
+  leader: boolean;
+  consecutiveFailures: number;
+  lastRunAt?: Date; // Last run, including runs skipped because another instance is leader
+  lastSuccessAt?: Date; // Last run that reconciled as the leader
+}
+
+export interface CleanupHealth {
+  status: HealthStatus;
+  enabled: boolean;
+  disabled: boolean; // Stopped after consecutive failures
+  consecutiveFailures: number;
+}
+
+/**
+ * Connection the adapter receives job lifecycle events on
+ * (BullMQ QueueEvents, the Bull and Bee-Queue Redis clients)
+ */
+export interface ListenerHealth {
+  connected: boolean;
+  state: string; // Redis client status, e.g. ready, reconnecting, end
+}
+
+export interface AdapterHealth extends ListenerHealth {
+  status: HealthStatus;
+}
+
+export interface SpoolHealth {
+  status: HealthStatus;
+  depth: number;
+  oldestEntryAgeMs: number;
+}
+
+/**
+ * Result of jobGuard.health()
+ * status is the worst status of the individual checks
+ */
+export interface HealthReport {
+  status: HealthStatus;
+  queueName: string;
+  queueType: string;
+  checkedAt: Date;
+  checks: {
+    postgres: PostgresHealth;
+    circuitBreaker: CircuitBreakerHealth;
+    pool: PoolHealth;
+    reconciler: ReconcilerHealth;
+    cleanup: CleanupHealth;
+    adapter: AdapterHealth;
+    spool?: SpoolHealth; // Only when the spool is enabled
+  };
+}
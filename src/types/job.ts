@@ -14,9 +14,15 @@ export interface JobRecord {
   started_at?: Date;
   completed_at?: Date;
   last_heartbeat?: Date;
+  trace_context?: Record<string, string>; // W3C trace context of the queue.add() call, if traced
+  opts?: Record<string, unknown>; // Job options with queue defaults - dispatched and re-enqueued with them
+  archived_at?: Date; // Set for jobs read from the archive table (persistence.archive)
+  parent_key?: string; // BullMQ flows - key of the parent job (<prefix>:<queue>:<job ID>)
+  run_at?: Date; // When a delayed job is due - lateness is measured from it
 }
 
 export enum JobStatus {
+  PENDING_DISPATCH = 'pending_dispatch', // Outbox job waiting to be added to the queue
   PENDING = 'pending',
   PROCESSING = 'processing',
   COMPLETED = 'completed',
@@ -25,9 +31,78 @@ export enum JobStatus {
   DEAD = 'dead',
 }
 
+/**
+ * Filters for listing tracked jobs
+ */
+export interface JobFilter {
+  status?: JobStatus | JobStatus[];
+  jobName?: string;
+  createdAfter?: Date;
+  createdBefore?: Date;
+  errorContains?: string; // Case-insensitive substring of error_message
+  dataMatches?: Record<string, unknown>; // JSONB containment (data @> dataMatches)
+  parentKey?: string; // Children of a BullMQ flow node (its key, <prefix>:<queue>:<job ID>)
+  includeArchived?: boolean; // Default: false - Also list jobs moved to the archive table
+  limit?: number; // Default: 50, maximum: 1000
+  cursor?: string; // nextCursor of the previous page
+}
+
+/**
+ * One page of jobs, newest first
+ */
+export interface JobPage {
+  jobs: JobRecord[];
+  nextCursor?: string; // Pass as filter.cursor to fetch the next page; undefined on the last page
+}
+
+/**
+ * Options for manually retrying a failed or dead job
+ */
+export interface RetryOptions {
+  resetAttempts?: boolean; // Default: true - Start counting attempts from zero again
+  maxAttempts?: number; // Default: unchanged - New attempt limit for the job
+  triggeredBy?: string; // Default: 'manual' - Who or what requested the retry (stored in the job history)
+}
+
+export interface RetryResult {
+  retried: number;
+  failed: number;
+}
+
+/**
+ * Status changes are recorded with the new status as event type
+ */
+export type JobEventType =
+  | `${JobStatus}`
+  | 'created'
+  | 'backfilled'
+  | 'dispatched'
+  | 're_enqueued'
+  | 'retry_requested';
+
+/**
+ * Entry in a job's lifecycle history (jobguard_job_events)
+ */
+export interface JobEvent {
+  id: string;
+  job_uuid: string; // JobRecord.id - differs between runs of a reused job ID
+  queue_name: string;
+  queue_type: 'bull' | 'bullmq' | 'bee';
+  job_id: string;
+  event_type: JobEventType;
+  status: JobStatus; // Status after the event
+  attempt: number;
+  error_message?: string;
+  source?: string; // hostname:pid of the instance that recorded the event
+  metadata?: Record<string, unknown>;
+  created_at: Date;
+}
+
 export interface JobStats {
   queueName: string;
-  pending: number;
+  pendingDispatch: number;
+  pending: number; // Excludes delayed jobs
+  delayed: number; // Pending jobs whose run_at is still ahead
   processing: number;
   completed: number;
   failed: number;
@@ -35,3 +110,49 @@ export interface JobStats {
   dead: number;
   total: number;
 }
+
+/**
+ * JobStats field holding the count of each status
+ */
+export const JOB_STATS_KEYS: Record<
+  JobStatus,
+  keyof Omit<JobStats, 'queueName' | 'delayed' | 'total'>
+> = {
+  [JobStatus.PENDING_DISPATCH]: 'pendingDispatch',
+  [JobStatus.PENDING]: 'pending',
+  [JobStatus.PROCESSING]: 'processing',
+  [JobStatus.COMPLETED]: 'completed',
+  [JobStatus.FAILED]: 'failed',
+  [JobStatus.STUCK]: 'stuck',
+  [JobStatus.DEAD]: 'dead',
+};
+
+/**
+ * Job counts of a JobGuardManager, summed over its queues and per queue
+ */
+export interface AggregatedJobStats {
+  totals: Omit<JobStats, 'queueName'>;
+  queues: JobStats[];
+}
+
+/**
+ * Job recorded with recordJob() before it is added to the queue
+ */
+export interface RecordJobInput {
+  jobId: string; // ID the job will be added with (Bull/BullMQ opts.jobId, Bee-Queue setId)
+  name?: string; // Job name - Bull and BullMQ only
+  data: unknown;
+  opts?: Record<string, unknown>; // Options the job will be added with, stored like those of an added job
+  maxAttempts?: number; // Default: from opts (attempts, Bee-Queue retries + 1), else 1
+}
+
+/**
+ * Queue job options an outbox job is dispatched with
+ * Bull and BullMQ receive them as add() options; Bee-Queue jobs get retries,
+ * timeout, delayUntil and backoff applied
+ */
+export interface EnqueueOptions {
+  jobId?: string; // Default: a random UUID
+  attempts?: number; // Default: the queue's default, else 1 - Also stored as max_attempts (Bee-Queue: retries + 1)
+  [option: string]: unknown;
+}
@@ -11,6 +11,7 @@ export type AnyQueue = any;
 // These are all `any` to avoid type conflicts with actual libraries
 export type BullQueue = any;
 export type BullMQQueue = any;
+export type BullMQFlowProducer = any;
 export type BeeQueue = any;
 export type BullJob = any;
 export type BullMQJob = any;
@@ -1,9 +1,11 @@
 import { CircuitBreakerOpenError } from '../errors/errors';
+import { JobGuardEventEmitter } from '../types/events';
 
 export interface CircuitBreakerConfig {
   threshold: number; // Number of failures before opening
   timeout: number; // Time in ms to wait before attempting half-open
   name: string;
+  events?: JobGuardEventEmitter; // Receives breaker:open
 }
 
 enum CircuitState {
@@ -29,6 +31,7 @@ export class CircuitBreaker {
   private readonly threshold: number;
   private readonly timeout: number;
   private readonly name: string;
+  private readonly events?: JobGuardEventEmitter;
   private readonly windowMs: number = 60000; // 60 second sliding window
   private callHistory: Array<{ success: boolean; timestamp: number }> = [];
 
@@ -36,6 +39,7 @@ export class CircuitBreaker {
     this.threshold = config.threshold;
     this.timeout = config.timeout;
     this.name = config.name;
+    this.events = config.events;
   }
 
   async execute<T>(fn: () => Promise<T>): Promise<T> {
@@ -81,8 +85,9 @@ export class CircuitBreaker {
     this.failureCount++;
     this.lastFailureTime = now;
 
-    if (this.failureCount >= this.threshold) {
+    if (this.failureCount >= this.threshold && this.state !== CircuitState.OPEN) {
       this.state = CircuitState.OPEN;
+      this.events?.emit('breaker:open', this.name);
     }
   }
 
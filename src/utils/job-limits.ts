@@ -0,0 +1,75 @@
+import { createHash } from 'crypto';
+import { LimitsConfig, OversizedJobPolicy } from '../types/config';
+import { JobGuardError } from '../errors/errors';
+
+// Must match the job_name column size in the schema
+export const JOB_NAME_COLUMN_LENGTH = 255;
+
+export const DEFAULT_LIMITS: Required<LimitsConfig> = {
+  maxJobDataSize: 1048576, // 1MB
+  maxJobNameLength: JOB_NAME_COLUMN_LENGTH,
+  oversizedJobPolicy: 'skip',
+};
+
+const OVERSIZED_JOB_POLICIES: OversizedJobPolicy[] = ['reject', 'stub', 'skip'];
+
+/**
+ * Placeholder persisted instead of job data that exceeds maxJobDataSize
+ * The hash lets operators match the row to the payload held elsewhere
+ */
+export interface JobDataStub {
+  __jobguard_stub: true;
+  reason: 'data_too_large';
+  size: number;
+  sha256: string;
+}
+
+export function resolveLimits(config: LimitsConfig = {}): Required<LimitsConfig> {
+  const limits: Required<LimitsConfig> = {
+    maxJobDataSize: config.maxJobDataSize || DEFAULT_LIMITS.maxJobDataSize,
+    maxJobNameLength: config.maxJobNameLength || DEFAULT_LIMITS.maxJobNameLength,
+    oversizedJobPolicy: config.oversizedJobPolicy || DEFAULT_LIMITS.oversizedJobPolicy,
+  };
+
+  // Names longer than the column would pass validation and then fail the INSERT
+  if (limits.maxJobNameLength > JOB_NAME_COLUMN_LENGTH) {
+    throw new JobGuardError(
+      `limits.maxJobNameLength must be at most ${JOB_NAME_COLUMN_LENGTH} ` +
+        `(job_name column size), got ${limits.maxJobNameLength}`
+    );
+  }
+
+  if (!OVERSIZED_JOB_POLICIES.includes(limits.oversizedJobPolicy)) {
+    throw new JobGuardError(
+      `limits.oversizedJobPolicy must be one of: ${OVERSIZED_JOB_POLICIES.join(', ')}`
+    );
+  }
+
+  return limits;
+}
+
+export function createJobDataStub(serializedData: string): JobDataStub {
+  return {
+    __jobguard_stub: true,
+    reason: 'data_too_large',
+    size: Buffer.byteLength(serializedData, 'utf8'),
+    sha256: createHash('sha256').update(serializedData).digest('hex'),
+  };
+}
+
+export function isJobDataStub(data: unknown): data is JobDataStub {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as Record<string, unknown>).__jobguard_stub === true
+  );
+}
+
+/**
+ * Human-readable byte size for error messages (e.g. 1048576 -> "1MB")
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes % 1048576 === 0) return `${bytes / 1048576}MB`;
+  if (bytes % 1024 === 0) return `${bytes / 1024}KB`;
+  return `${bytes} bytes`;
+}
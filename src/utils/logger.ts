@@ -1,54 +1,140 @@
-import { LoggingConfig } from '../types/config';
+import { JobGuardLogger, LogContext, LoggingConfig } from '../types/config';
 
-export class Logger {
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3,
+};
+
+/**
+ * Plain-object form of an error for JSON output
+ */
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) {
+    return error;
+  }
+
+  const code = (error as Error & { code?: unknown }).code;
+  return {
+    name: error.name,
+    message: error.message,
+    ...(code !== undefined ? { code } : {}),
+    stack: error.stack,
+  };
+}
+
+export class Logger implements JobGuardLogger {
   private enabled: boolean;
-  private level: 'debug' | 'info' | 'warn' | 'error';
+  private level: LogLevel;
   private prefix: string;
-  private levelPriority: Record<string, number> = {
-    debug: 0,
-    info: 1,
-    warn: 2,
-    error: 3,
-  };
+  private format: 'text' | 'json';
+  private sink?: JobGuardLogger;
+  private context: LogContext;
 
-  constructor(config: LoggingConfig = {}) {
+  constructor(config: LoggingConfig = {}, context: LogContext = {}) {
     this.enabled = config.enabled !== false;
     this.level = config.level || 'info';
     this.prefix = config.prefix || '[JobGuard]';
+    this.format = config.format || 'text';
+    this.sink = config.logger;
+    this.context = context;
   }
 
-  private shouldLog(level: string): boolean {
-    if (!this.enabled) return false;
-    return (this.levelPriority[level] ?? 0) >= (this.levelPriority[this.level] ?? 0);
+  /**
+   * Logger that adds the given fields to every entry
+   */
+  child(context: LogContext): Logger {
+    return new Logger(
+      {
+        enabled: this.enabled,
+        level: this.level,
+        prefix: this.prefix,
+        format: this.format,
+        logger: this.sink,
+      },
+      { ...this.context, ...context }
+    );
   }
 
-  private formatMessage(level: string, message: string): string {
-    const timestamp = new Date().toISOString();
-    const levelStr = level.toUpperCase().padEnd(5);
-    return `${timestamp} ${this.prefix} ${levelStr} ${message}`;
+  debug(message: string, context?: LogContext): void {
+    this.log('debug', message, context);
   }
 
-  debug(message: string, ...args: any[]): void {
-    if (this.shouldLog('debug')) {
-      console.debug(this.formatMessage('debug', message), ...args);
-    }
+  info(message: string, context?: LogContext): void {
+    this.log('info', message, context);
   }
 
-  info(message: string, ...args: any[]): void {
-    if (this.shouldLog('info')) {
-      console.info(this.formatMessage('info', message), ...args);
-    }
+  warn(message: string, context?: LogContext): void {
+    this.log('warn', message, context);
+  }
+
+  error(message: string, context?: LogContext): void {
+    this.log('error', message, context);
   }
 
-  warn(message: string, ...args: any[]): void {
-    if (this.shouldLog('warn')) {
-      console.warn(this.formatMessage('warn', message), ...args);
+  private shouldLog(level: LogLevel): boolean {
+    if (!this.enabled) return false;
+    return LEVEL_PRIORITY[level] >= LEVEL_PRIORITY[this.level];
+  }
+
+  private log(level: LogLevel, message: string, context?: LogContext): void {
+    if (!this.shouldLog(level)) return;
+
+    const fields: LogContext = { ...this.context, ...context };
+
+    if (this.sink) {
+      this.sink[level](message, fields);
+      return;
+    }
+
+    if (this.format === 'json') {
+      console[level](this.formatJson(level, message, fields));
+      return;
+    }
+
+    const { err, ...rest } = fields;
+    const line = this.formatMessage(level, message, rest);
+    if (err !== undefined) {
+      console[level](line, err);
+    } else {
+      console[level](line);
     }
   }
 
-  error(message: string, ...args: any[]): void {
-    if (this.shouldLog('error')) {
-      console.error(this.formatMessage('error', message), ...args);
+  private formatMessage(level: LogLevel, message: string, fields: LogContext): string {
+    const timestamp = new Date().toISOString();
+    const levelStr = level.toUpperCase().padEnd(5);
+    const pairs = Object.entries(fields)
+      .filter(([, value]) => value !== undefined)
+      .map(
+        ([key, value]) =>
+          `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`
+      );
+
+    const suffix = pairs.length > 0 ? ` ${pairs.join(' ')}` : '';
+    return `${timestamp} ${this.prefix} ${levelStr} ${message}${suffix}`;
+  }
+
+  private formatJson(level: LogLevel, message: string, fields: LogContext): string {
+    const { err, ...rest } = fields;
+    const entry: Record<string, unknown> = {
+      ts: new Date().toISOString(),
+      level,
+      ...rest,
+      msg: message,
+    };
+    if (err !== undefined) {
+      entry.err = serializeError(err);
+    }
+
+    try {
+      return JSON.stringify(entry);
+    } catch {
+      // Unserializable context (circular, BigInt) - keep the entry itself
+      return JSON.stringify({ ts: entry.ts, level, msg: message });
     }
   }
 }
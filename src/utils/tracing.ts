@@ -0,0 +1,166 @@
+import { createRequire } from 'module';
+import { JobRecord } from '../types/job';
+
+/**
+ * Optional OpenTelemetry instrumentation
+ *
+ * @opentelemetry/api is an optional peer dependency. Without it every helper here is a
+ * no-op; with it but without a registered SDK, the API's own no-op tracer is used.
+ */
+
+type AttributeValue = string | number | boolean;
+export type SpanAttributes = Record<string, AttributeValue | undefined>;
+
+/**
+ * W3C trace context (traceparent/tracestate) as persisted with a job
+ */
+export type TraceContext = Record<string, string>;
+
+// The subset of @opentelemetry/api used here, so the package isn't needed to build
+interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+export interface Span {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  recordException(exception: Error | string): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+interface SpanOptions {
+  attributes?: Record<string, AttributeValue>;
+  links?: Array<{ context: SpanContext }>;
+}
+
+interface OpenTelemetryApi {
+  trace: {
+    getTracer(name: string): {
+      startActiveSpan<T>(name: string, options: SpanOptions, fn: (span: Span) => T): T;
+    };
+    getSpanContext(context: unknown): SpanContext | undefined;
+    isSpanContextValid(spanContext: SpanContext): boolean;
+  };
+  context: { active(): unknown };
+  propagation: {
+    inject(context: unknown, carrier: TraceContext): void;
+    extract(context: unknown, carrier: TraceContext): unknown;
+  };
+  ROOT_CONTEXT: unknown;
+  SpanStatusCode: { ERROR: number };
+}
+
+const TRACER_NAME = 'jobguard';
+
+let api: OpenTelemetryApi | null | undefined;
+
+function loadApi(): OpenTelemetryApi | null {
+  if (api === undefined) {
+    try {
+      // createRequire works in both builds (tsup shims __filename in the ESM output).
+      // The API keeps its registered providers on globalThis, so this copy sees the
+      // SDK even if the application imported the ESM build of the package.
+      api = createRequire(__filename)('@opentelemetry/api') as OpenTelemetryApi;
+    } catch {
+      api = null;
+    }
+  }
+  return api;
+}
+
+/**
+ * Replace the OpenTelemetry API module (null disables tracing, undefined loads it again)
+ * @internal Used by tests
+ */
+export function setTracingApi(override: unknown): void {
+  api = override as OpenTelemetryApi | null;
+}
+
+/**
+ * Run fn inside an active span that records errors thrown or rejected by fn
+ * @param links - Trace contexts of related traces (e.g. the request that enqueued a job)
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: SpanAttributes,
+  fn: (span?: Span) => Promise<T>,
+  links: Array<TraceContext | undefined> = []
+): Promise<T> {
+  const otel = loadApi();
+  if (!otel) {
+    return fn();
+  }
+
+  const options: SpanOptions = { attributes: definedAttributes(attributes) };
+  const spanLinks = links
+    .map((carrier) => (carrier ? toSpanContext(otel, carrier) : undefined))
+    .filter((spanContext): spanContext is SpanContext => !!spanContext)
+    .map((spanContext) => ({ context: spanContext }));
+  if (spanLinks.length > 0) {
+    options.links = spanLinks;
+  }
+
+  return otel.trace
+    .getTracer(TRACER_NAME)
+    .startActiveSpan(name, options, async (span) => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        span.recordException(error instanceof Error ? error : String(error));
+        span.setStatus({
+          code: otel.SpanStatusCode.ERROR,
+          message: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+}
+
+/**
+ * Trace context of the active span, to persist with a job
+ * @returns undefined when tracing is unavailable or no span is active
+ */
+export function captureTraceContext(): TraceContext | undefined {
+  const otel = loadApi();
+  if (!otel) return undefined;
+
+  const carrier: TraceContext = {};
+  otel.propagation.inject(otel.context.active(), carrier);
+  return Object.keys(carrier).length > 0 ? carrier : undefined;
+}
+
+/**
+ * Span attributes identifying a tracked job
+ */
+export function jobAttributes(job: JobRecord): SpanAttributes {
+  return {
+    'jobguard.queue': job.queue_name,
+    'jobguard.queue_type': job.queue_type,
+    'jobguard.job_id': job.job_id,
+    'jobguard.attempt': job.attempts,
+  };
+}
+
+function toSpanContext(
+  otel: OpenTelemetryApi,
+  carrier: TraceContext
+): SpanContext | undefined {
+  const spanContext = otel.trace.getSpanContext(
+    otel.propagation.extract(otel.ROOT_CONTEXT, carrier)
+  );
+  return spanContext && otel.trace.isSpanContextValid(spanContext)
+    ? spanContext
+    : undefined;
+}
+
+function definedAttributes(attributes: SpanAttributes): Record<string, AttributeValue> {
+  const defined: Record<string, AttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) defined[key] = value;
+  }
+  return defined;
+}
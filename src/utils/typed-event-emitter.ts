@@ -0,0 +1,58 @@
+import { EventEmitter } from 'events';
+
+type EventMap = { [event: string]: (...args: any[]) => void };
+
+/**
+ * EventEmitter whose event names and listener arguments are checked at compile time
+ *
+ * A listener that throws doesn't stop the other listeners or the code that emitted the
+ * event; the error is passed to handleListenerError instead.
+ */
+export class TypedEventEmitter<Events extends EventMap> extends EventEmitter {
+  on<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.on(event, listener);
+  }
+
+  once<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.once(event, listener);
+  }
+
+  off<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.off(event, listener);
+  }
+
+  addListener<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.addListener(event, listener);
+  }
+
+  removeListener<E extends keyof Events & string>(event: E, listener: Events[E]): this {
+    return super.removeListener(event, listener);
+  }
+
+  emit<E extends keyof Events & string>(
+    event: E,
+    ...args: Parameters<Events[E]>
+  ): boolean {
+    // rawListeners keeps the once() wrappers so they remove themselves when called
+    const listeners = this.rawListeners(event);
+
+    for (const listener of listeners) {
+      try {
+        (listener as Events[E]).apply(this, args);
+      } catch (error) {
+        this.handleListenerError(event, error);
+      }
+    }
+
+    return listeners.length > 0;
+  }
+
+  /**
+   * Called when a listener throws; rethrows outside the emitting code by default
+   */
+  protected handleListenerError(_event: string, error: unknown): void {
+    process.nextTick(() => {
+      throw error;
+    });
+  }
+}
@@ -10,5 +10,5 @@ jest.setTimeout(120000); // 2 minutes
 
 // Cleanup function that tests can use
 export async function cleanupDatabase(pool: any) {
-  await pool.query('TRUNCATE TABLE jobguard_jobs CASCADE');
+  await pool.query('TRUNCATE TABLE jobguard_jobs, jobguard_job_events CASCADE');
 }
@@ -1,25 +1,28 @@
 import { Pool } from 'pg';
-import { readFileSync } from 'fs';
-import { join } from 'path';
+import { Migrator } from '../../src/persistence/migrator';
+import { Logger } from '../../src/utils/logger';
 
-export async function setupSchema(pool: Pool): Promise<void> {
-  // Drop existing schema cleanly
+async function dropSchema(pool: Pool): Promise<void> {
   await pool.query(`
     DROP TRIGGER IF EXISTS update_jobguard_jobs_updated_at ON jobguard_jobs;
-    DROP FUNCTION IF EXISTS update_updated_at_column();
     DROP TABLE IF EXISTS jobguard_jobs;
+    DROP FUNCTION IF EXISTS jobguard_set_updated_at();
+    DROP FUNCTION IF EXISTS update_updated_at_column();
+    DROP TABLE IF EXISTS jobguard_job_events;
+    DROP TABLE IF EXISTS jobguard_jobs_archive;
+    DROP TABLE IF EXISTS jobguard_schema_migrations;
   `);
+}
 
-  // Load and execute the actual schema
-  const schemaPath = join(__dirname, '../../schema/001_initial.sql');
-  const schema = readFileSync(schemaPath, 'utf8');
-  await pool.query(schema);
+export async function setupSchema(pool: Pool): Promise<void> {
+  // Drop existing schema cleanly
+  await dropSchema(pool);
+
+  // Apply the actual migrations shipped in schema/
+  const migrator = new Migrator(pool, new Logger({ enabled: false }));
+  await migrator.migrate();
 }
 
 export async function teardownSchema(pool: Pool): Promise<void> {
-  await pool.query(`
-    DROP TRIGGER IF EXISTS update_jobguard_jobs_updated_at ON jobguard_jobs;
-    DROP FUNCTION IF EXISTS update_updated_at_column();
-    DROP TABLE IF EXISTS jobguard_jobs;
-  `);
+  await dropSchema(pool);
 }
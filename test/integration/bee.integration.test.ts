@@ -4,7 +4,8 @@ import { Pool } from 'pg';
 import { JobGuard } from '../../src/jobguard';
 
 // Integration test configuration
-const POSTGRES_URL = process.env.POSTGRES_URL || 'postgresql://localhost:5432/jobguard_test';
+const POSTGRES_URL =
+  process.env.POSTGRES_URL || 'postgresql://localhost:5432/jobguard_test';
 
 describe('Bee-Queue Integration Tests', () => {
   let queue: Queue;
@@ -57,10 +58,9 @@ describe('Bee-Queue Integration Tests', () => {
     await new Promise((resolve) => setTimeout(resolve, 50));
 
     // Query PostgreSQL directly
-    const result = await pool.query(
-      'SELECT * FROM jobguard_jobs WHERE job_id = $1',
-      [job.id.toString()]
-    );
+    const result = await pool.query('SELECT * FROM jobguard_jobs WHERE job_id = $1', [
+      job.id.toString(),
+    ]);
 
     expect(result.rows).toHaveLength(1);
     expect(result.rows[0]?.queue_type).toBe('bee');
@@ -101,6 +101,17 @@ describe('Bee-Queue Integration Tests', () => {
     expect(result.rows[0]?.job_name).toBeNull();
   });
 
+  it('should persist jobs saved with saveAll', async () => {
+    const jobs = [queue.createJob({ id: 1 }), queue.createJob({ id: 2 })];
+    await queue.saveAll(jobs);
+
+    const result = await pool.query('SELECT job_id FROM jobguard_jobs ORDER BY job_id');
+
+    expect(result.rows.map((row) => row.job_id).sort()).toEqual(
+      jobs.map((job) => String(job.id)).sort()
+    );
+  });
+
   it('should use queue name property, not redis.db', async () => {
     // Add a job first
     const job = queue.createJob({ test: 'data' });
@@ -108,9 +119,7 @@ describe('Bee-Queue Integration Tests', () => {
     await new Promise((resolve) => setTimeout(resolve, 50));
 
     // Verify queue name comes from Bee-Queue's name property
-    const result = await pool.query(
-      'SELECT DISTINCT queue_name FROM jobguard_jobs'
-    );
+    const result = await pool.query('SELECT DISTINCT queue_name FROM jobguard_jobs');
 
     // Should be 'test-bee-queue' (from line 24), not a number or 'bee-queue'
     expect(result.rows[0]?.queue_name).toBe('test-bee-queue');
@@ -150,8 +159,12 @@ describe('Bee-Queue Integration Tests', () => {
       expect(queueNames).toContain('another-bee-queue');
 
       // Each job should be in correct queue
-      const queue1Jobs = result.rows.filter((r: any) => r.queue_name === 'test-bee-queue');
-      const queue2Jobs = result.rows.filter((r: any) => r.queue_name === 'another-bee-queue');
+      const queue1Jobs = result.rows.filter(
+        (r: any) => r.queue_name === 'test-bee-queue'
+      );
+      const queue2Jobs = result.rows.filter(
+        (r: any) => r.queue_name === 'another-bee-queue'
+      );
 
       expect(queue1Jobs[0]?.data).toEqual({ from: 'queue1' });
       expect(queue2Jobs[0]?.data).toEqual({ from: 'queue2' });
@@ -67,6 +67,22 @@ describe('Bull Integration Tests', () => {
     expect(result.rows[0]?.data).toEqual(jobData);
   });
 
+  it('should persist jobs added with addBulk with the attempts of each job', async () => {
+    const jobs = await queue.addBulk([
+      { name: 'bulk-1', data: { id: 1 }, opts: { attempts: 5 } },
+      { name: 'bulk-2', data: { id: 2 }, opts: { attempts: 1 } },
+    ]);
+
+    const result = await pool.query(
+      'SELECT job_id, max_attempts FROM jobguard_jobs ORDER BY job_name'
+    );
+
+    expect(result.rows).toEqual([
+      { job_id: jobs[0]!.id.toString(), max_attempts: 5 },
+      { job_id: jobs[1]!.id.toString(), max_attempts: 1 },
+    ]);
+  });
+
   it('should update job status when processing', async () => {
     const job = await queue.add({ message: 'Test' });
 
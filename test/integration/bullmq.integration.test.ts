@@ -1,10 +1,11 @@
 import { setupSchema, teardownSchema } from '../helpers/schema';
-import { Queue } from 'bullmq';
+import { FlowProducer, Queue } from 'bullmq';
 import { Pool } from 'pg';
 import { JobGuard } from '../../src/jobguard';
 
 // Integration test configuration
-const POSTGRES_URL = process.env.POSTGRES_URL || 'postgresql://localhost:5432/jobguard_test';
+const POSTGRES_URL =
+  process.env.POSTGRES_URL || 'postgresql://localhost:5432/jobguard_test';
 
 describe('BullMQ Integration Tests', () => {
   let queue: Queue;
@@ -21,7 +22,9 @@ describe('BullMQ Integration Tests', () => {
     await pool.query('TRUNCATE TABLE jobguard_jobs');
 
     // Create BullMQ queue
-    queue = new Queue('test-bullmq-queue', { connection: { host: 'localhost', port: 6379 } });
+    queue = new Queue('test-bullmq-queue', {
+      connection: { host: 'localhost', port: 6379 },
+    });
     await queue.obliterate({ force: true });
 
     // Initialize JobGuard
@@ -54,10 +57,9 @@ describe('BullMQ Integration Tests', () => {
     await new Promise((resolve) => setTimeout(resolve, 50));
 
     // Query PostgreSQL directly
-    const result = await pool.query(
-      'SELECT * FROM jobguard_jobs WHERE job_id = $1',
-      [job.id!.toString()]
-    );
+    const result = await pool.query('SELECT * FROM jobguard_jobs WHERE job_id = $1', [
+      job.id!.toString(),
+    ]);
 
     expect(result.rows).toHaveLength(1);
     expect(result.rows[0]?.queue_name).toBe('test-bullmq-queue');
@@ -66,6 +68,47 @@ describe('BullMQ Integration Tests', () => {
     expect(result.rows[0]?.data).toEqual(jobData);
   });
 
+  it('should persist jobs added with addBulk', async () => {
+    const jobs = await queue.addBulk([
+      { name: 'bulk-1', data: { id: 1 }, opts: { attempts: 5 } },
+      { name: 'bulk-2', data: { id: 2 } },
+    ]);
+
+    const result = await pool.query(
+      'SELECT job_id, max_attempts FROM jobguard_jobs ORDER BY job_name'
+    );
+
+    expect(result.rows).toEqual([
+      { job_id: jobs[0]!.id, max_attempts: 5 },
+      { job_id: jobs[1]!.id, max_attempts: 3 },
+    ]);
+  });
+
+  it('should persist the nodes of a flow with their parent', async () => {
+    const flowProducer = new FlowProducer({
+      connection: { host: 'localhost', port: 6379 },
+    });
+    jobGuard.attachFlowProducer(flowProducer);
+
+    try {
+      const flow = await flowProducer.add({
+        name: 'parent',
+        queueName: 'test-bullmq-queue',
+        data: {},
+        children: [{ name: 'child', queueName: 'test-bullmq-queue', data: {} }],
+      });
+
+      const children = await jobGuard.listJobs({
+        parentKey: `bull:test-bullmq-queue:${flow.job.id}`,
+      });
+
+      expect(children.jobs.map((job) => job.job_name)).toEqual(['child']);
+      expect(await jobGuard.getJob(flow.job.id!)).toMatchObject({ status: 'pending' });
+    } finally {
+      await flowProducer.close();
+    }
+  });
+
   it('should retrieve queue statistics for BullMQ', async () => {
     // Add multiple jobs
     await queue.add('job1', { id: 1 });
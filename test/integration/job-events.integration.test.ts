@@ -0,0 +1,122 @@
+import { setupSchema, teardownSchema } from '../helpers/schema';
+import { Pool } from 'pg';
+import { JobRepository } from '../../src/persistence/repository';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Logger } from '../../src/utils/logger';
+import { JobStatus } from '../../src/types/job';
+
+// Integration test configuration
+const POSTGRES_URL =
+  process.env.POSTGRES_URL || 'postgresql://localhost:5432/jobguard_test';
+
+describe('Job Event History Integration Tests', () => {
+  let pool: Pool;
+  let repository: JobRepository;
+
+  beforeAll(async () => {
+    pool = new Pool({ connectionString: POSTGRES_URL });
+    await setupSchema(pool);
+  });
+
+  beforeEach(async () => {
+    await pool.query('TRUNCATE TABLE jobguard_jobs, jobguard_job_events');
+
+    repository = new JobRepository(
+      pool,
+      new CircuitBreaker({ threshold: 5, timeout: 60000, name: 'test' }),
+      new Logger({ enabled: false })
+    );
+  });
+
+  afterAll(async () => {
+    await teardownSchema(pool);
+    await pool.end();
+  });
+
+  it('should record every attempt of a re-enqueued job in order', async () => {
+    const job = await repository.createJob('events', 'bullmq', '1', 'send', {}, 2);
+    await repository.updateJobStatus('events', 'bullmq', '1', JobStatus.PROCESSING);
+    await repository.markJobsAsStuck([job.id]);
+    await repository.markJobReEnqueued('events', 'bullmq', '1');
+    await repository.updateJobStatus('events', 'bullmq', '1', JobStatus.PROCESSING);
+    await repository.updateJobError('events', 'bullmq', '1', 'first failure');
+    await repository.updateJobError('events', 'bullmq', '1', 'second failure');
+
+    const history = await repository.getJobEvents('events', 'bullmq', '1');
+
+    expect(history.map((event) => event.event_type)).toEqual([
+      'created',
+      'processing',
+      'stuck',
+      're_enqueued',
+      'processing',
+      'failed',
+      'dead',
+    ]);
+    expect(history.map((event) => event.error_message).filter(Boolean)).toEqual([
+      'first failure',
+      'second failure',
+    ]);
+    expect(history[2]?.metadata).toEqual({ reason: 'stale_heartbeat' });
+    expect(history[0]?.source).toMatch(/:\d+$/);
+    expect(history.every((event) => event.job_uuid === job.id)).toBe(true);
+  });
+
+  it('should not mark a job re-enqueued once a worker picked it up', async () => {
+    await repository.createJob('events', 'bullmq', '1', 'send', {});
+    await repository.updateJobStatus('events', 'bullmq', '1', JobStatus.PROCESSING);
+
+    await expect(
+      repository.markJobReEnqueued('events', 'bullmq', '1')
+    ).resolves.toBeNull();
+  });
+
+  it('should revive a dead job and record who requested the retry', async () => {
+    const job = await repository.createJob('events', 'bullmq', '1', 'send', {}, 1);
+    await repository.updateJobError('events', 'bullmq', '1', 'boom');
+
+    const claimed = await repository.claimJobForRetry(job.id, true, 5, {
+      triggeredBy: 'ops',
+    });
+
+    expect(claimed).toMatchObject({ status: 'stuck', attempts: 0, max_attempts: 5 });
+    expect(claimed?.completed_at).toBeUndefined();
+    await expect(
+      repository.claimJobForRetry(job.id, true, undefined, { triggeredBy: 'ops' })
+    ).resolves.toBeNull();
+
+    const history = await repository.getJobEvents('events', 'bullmq', '1');
+    expect(history[history.length - 1]).toMatchObject({
+      event_type: 'retry_requested',
+      status: 'stuck',
+      metadata: { triggeredBy: 'ops' },
+    });
+  });
+
+  it('should restore a dead job when its retry is released', async () => {
+    const job = await repository.createJob('events', 'bullmq', '1', 'send', {}, 1);
+    const dead = await repository.updateJobError('events', 'bullmq', '1', 'boom');
+    await repository.claimJobForRetry(job.id, true, undefined, { triggeredBy: 'ops' });
+
+    await repository.releaseRetryClaim(dead!);
+
+    await expect(repository.getJob('events', 'bullmq', '1')).resolves.toMatchObject({
+      status: 'dead',
+      attempts: 1,
+      max_attempts: 1,
+    });
+  });
+
+  it('should delete history together with its job', async () => {
+    await repository.createJob('events', 'bullmq', '1', 'send', {});
+    await repository.updateJobStatus('events', 'bullmq', '1', JobStatus.COMPLETED);
+    await pool.query(
+      `UPDATE jobguard_jobs SET completed_at = NOW() - INTERVAL '10 days' WHERE job_id = '1'`
+    );
+
+    await expect(
+      repository.deleteOldJobs({ completed: 7, failed: 7, dead: 7 })
+    ).resolves.toBe(1);
+    await expect(repository.getJobEvents('events', 'bullmq', '1')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { BaseAdapter, RedisJob } from '../../src/adapters/base.adapter';
+import { JobRepository } from '../../src/persistence/repository';
+import { Logger } from '../../src/utils/logger';
+import { BackfillState } from '../../src/types/adapter';
+import { LimitsConfig } from '../../src/types/config';
+import { JobStatus } from '../../src/types/job';
+import { BullQueue } from '../../src/types/queue-types';
+import { JobGuardError } from '../../src/errors/errors';
+import { ListenerHealth } from '../../src/types/health';
+
+// Serves pages out of an in-memory copy of Redis
+class TestAdapter extends BaseAdapter {
+  readonly queueName = 'test-queue';
+  readonly queueType = 'bull' as const;
+  redisJobs: Partial<Record<BackfillState, RedisJob[]>> = {};
+  fetchedPages: Array<[BackfillState, number, number]> = [];
+
+  wrapAddMethod(): void {}
+  attachEventListeners(): void {}
+  async reEnqueueJob(): Promise<void> {}
+  async dispatchJob(): Promise<void> {}
+  async getJobState(): Promise<string | null> {
+    return null;
+  }
+  async getListenerHealth(): Promise<ListenerHealth> {
+    return { connected: true, state: 'ready' };
+  }
+  protected async fetchJobsFromRedis(
+    state: BackfillState,
+    start: number,
+    end: number
+  ): Promise<RedisJob[]> {
+    this.fetchedPages.push([state, start, end]);
+    return (this.redisJobs[state] || []).slice(start, end + 1);
+  }
+}
+
+function createRedisJobs(count: number, prefix: string): RedisJob[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `${prefix}-${index}`,
+    name: 'send-email',
+    data: { index },
+    attemptsMade: 0,
+  }));
+}
+
+describe('Backfill from Redis', () => {
+  let mockRepository: { backfillJob: jest.Mock };
+  let mockLogger: jest.Mocked<Logger>;
+
+  function createAdapter(limits?: LimitsConfig): TestAdapter {
+    return new TestAdapter(
+      { name: 'test-queue' } as unknown as BullQueue,
+      mockRepository as unknown as JobRepository,
+      mockLogger,
+      { limits }
+    );
+  }
+
+  beforeEach(() => {
+    mockRepository = { backfillJob: jest.fn().mockResolvedValue(true) };
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+  });
+
+  it('should page through every state until a short page is returned', async () => {
+    const adapter = createAdapter();
+    adapter.redisJobs = {
+      waiting: createRedisJobs(5, 'waiting'),
+      delayed: createRedisJobs(2, 'delayed'),
+    };
+
+    const result = await adapter.backfillFromRedis({ batchSize: 2 });
+
+    expect(result).toEqual({ added: 7, alreadyPresent: 0, skipped: 0 });
+    expect(adapter.fetchedPages).toEqual([
+      ['waiting', 0, 1],
+      ['waiting', 2, 3],
+      ['waiting', 4, 5],
+      ['delayed', 0, 1],
+      ['delayed', 2, 3],
+      ['active', 0, 1],
+    ]);
+  });
+
+  it('should track active jobs as processing and the rest as pending', async () => {
+    const adapter = createAdapter();
+    adapter.redisJobs = {
+      waiting: createRedisJobs(1, 'waiting'),
+      active: [{ id: 'active-0', data: {}, attemptsMade: 1, maxAttempts: 5 }],
+    };
+
+    await adapter.backfillFromRedis();
+
+    expect(mockRepository.backfillJob).toHaveBeenCalledWith(
+      'test-queue',
+      'bull',
+      'waiting-0',
+      'send-email',
+      { index: 0 },
+      JobStatus.PENDING,
+      0,
+      undefined,
+      undefined
+    );
+    expect(mockRepository.backfillJob).toHaveBeenCalledWith(
+      'test-queue',
+      'bull',
+      'active-0',
+      undefined,
+      {},
+      JobStatus.PROCESSING,
+      1,
+      5,
+      undefined
+    );
+  });
+
+  it('should count jobs that are already tracked', async () => {
+    const adapter = createAdapter();
+    adapter.redisJobs = { waiting: createRedisJobs(3, 'waiting') };
+    mockRepository.backfillJob.mockResolvedValueOnce(false);
+
+    const result = await adapter.backfillFromRedis({ states: ['waiting'] });
+
+    expect(result).toEqual({ added: 2, alreadyPresent: 1, skipped: 0 });
+  });
+
+  it('should skip jobs that exceed the limits, even with the reject policy', async () => {
+    const adapter = createAdapter({ maxJobDataSize: 100, oversizedJobPolicy: 'reject' });
+    adapter.redisJobs = {
+      waiting: [
+        ...createRedisJobs(1, 'waiting'),
+        { id: 'large', data: { payload: 'x'.repeat(200) }, attemptsMade: 0 },
+      ],
+    };
+
+    const result = await adapter.backfillFromRedis({ states: ['waiting'] });
+
+    expect(result).toEqual({ added: 1, alreadyPresent: 0, skipped: 1 });
+    expect(mockRepository.backfillJob).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject unsupported states', async () => {
+    const adapter = createAdapter();
+
+    await expect(
+      adapter.backfillFromRedis({ states: ['completed' as BackfillState] })
+    ).rejects.toThrow(JobGuardError);
+  });
+});
@@ -0,0 +1,267 @@
+import { BeeAdapter } from '../../src/adapters/bee.adapter';
+import { JobRepository } from '../../src/persistence/repository';
+import { JobRecord, JobStatus } from '../../src/types/job';
+import { BeeQueue } from '../../src/types/queue-types';
+import { LimitsConfig } from '../../src/types/config';
+import { Logger } from '../../src/utils/logger';
+import { JobValidationError } from '../../src/errors/errors';
+
+function createJobRecord(overrides: Partial<JobRecord> = {}): JobRecord {
+  return {
+    id: 'uuid-1',
+    queue_name: 'emails',
+    queue_type: 'bee',
+    job_id: '42',
+    data: { to: 'a@example.com' },
+    status: JobStatus.STUCK,
+    attempts: 1,
+    max_attempts: 3,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+interface MockBeeJob {
+  id: string | null;
+  data: unknown;
+  options: Record<string, unknown>;
+  setId: jest.Mock;
+  retries: jest.Mock;
+  timeout: jest.Mock;
+  backoff: jest.Mock;
+  save: jest.Mock;
+}
+
+// Chainable like a Bee-Queue job; save() assigns the next ID unless one was set
+function createBeeJob(data: unknown, nextId: () => string): MockBeeJob {
+  const job: MockBeeJob = {
+    id: null as string | null,
+    data,
+    options: {} as Record<string, unknown>,
+    setId: jest.fn((id: string) => {
+      job.id = id;
+      return job;
+    }),
+    retries: jest.fn((retries: number) => {
+      job.options.retries = retries;
+      return job;
+    }),
+    timeout: jest.fn(() => job),
+    backoff: jest.fn(() => job),
+    save: jest.fn(async () => {
+      job.id = job.id ?? nextId();
+      return job;
+    }),
+  };
+  return job;
+}
+
+describe('BeeAdapter', () => {
+  const logger = new Logger({ enabled: false });
+  let repository: {
+    createJob: jest.Mock;
+    createJobs: jest.Mock;
+    getJob: jest.Mock;
+    markJobReEnqueued: jest.Mock;
+  };
+  let created: MockBeeJob[];
+  let queue: {
+    name: string;
+    createJob: jest.Mock;
+    saveAll: jest.Mock;
+    getJob: jest.Mock;
+    removeJob: jest.Mock;
+  };
+
+  function createAdapter(limits?: LimitsConfig): BeeAdapter {
+    const adapter = new BeeAdapter(
+      queue as unknown as BeeQueue,
+      repository as unknown as JobRepository,
+      logger,
+      { limits }
+    );
+    adapter.wrapAddMethod();
+    return adapter;
+  }
+
+  beforeEach(() => {
+    let lastId = 0;
+    created = [];
+    repository = {
+      createJob: jest.fn().mockResolvedValue({}),
+      createJobs: jest.fn().mockResolvedValue([]),
+      getJob: jest.fn().mockResolvedValue(createJobRecord()),
+      markJobReEnqueued: jest.fn().mockResolvedValue(createJobRecord()),
+    };
+    queue = {
+      name: 'emails',
+      createJob: jest.fn((data: unknown) => {
+        const job = createBeeJob(data, () => String(++lastId));
+        created.push(job);
+        return job;
+      }),
+      saveAll: jest.fn(async (jobs: Array<{ id: string | null }>) => {
+        jobs.forEach((job) => (job.id = String(++lastId)));
+        return new Map();
+      }),
+      getJob: jest.fn().mockResolvedValue({ id: '42', status: 'created' }),
+      removeJob: jest.fn().mockResolvedValue(undefined),
+    };
+  });
+
+  describe('queue.saveAll', () => {
+    it('should persist the saved jobs with one insert', async () => {
+      const original = queue.saveAll;
+      const adapter = createAdapter({ maxJobDataSize: 100, oversizedJobPolicy: 'skip' });
+      const jobs = [
+        queue.createJob({ to: 'a' }),
+        queue.createJob({ blob: 'x'.repeat(200) }),
+        queue.createJob({ to: 'b' }),
+      ];
+
+      await queue.saveAll(jobs);
+
+      expect(original).toHaveBeenCalledWith(jobs);
+      expect(repository.createJobs).toHaveBeenCalledWith(
+        'emails',
+        'bee',
+        [
+          { jobId: '1', jobName: undefined, data: { to: 'a' }, maxAttempts: 1, opts: {} },
+          { jobId: '3', jobName: undefined, data: { to: 'b' }, maxAttempts: 1, opts: {} },
+        ],
+        undefined
+      );
+      expect(repository.createJob).not.toHaveBeenCalled();
+
+      adapter.dispose();
+      await queue.saveAll([]);
+      expect(repository.createJobs).toHaveBeenCalledTimes(1);
+    });
+
+    it('should leave out jobs that failed to save', async () => {
+      queue.saveAll.mockImplementationOnce(async (jobs: Array<{ id: string | null }>) => {
+        jobs[0]!.id = '1';
+        return new Map([[jobs[1], new Error('ID taken')]]);
+      });
+      createAdapter();
+
+      const errors = await queue.saveAll([
+        queue.createJob({ to: 'a' }),
+        queue.createJob({ to: 'b' }),
+      ]);
+
+      expect(errors.size).toBe(1);
+      expect(repository.createJobs).toHaveBeenCalledWith(
+        'emails',
+        'bee',
+        [expect.objectContaining({ jobId: '1' })],
+        undefined
+      );
+    });
+
+    it('should reject the whole batch before it reaches Redis', async () => {
+      const original = queue.saveAll;
+      createAdapter({ maxJobDataSize: 100, oversizedJobPolicy: 'reject' });
+
+      await expect(
+        queue.saveAll([queue.createJob({ blob: 'x'.repeat(200) })])
+      ).rejects.toThrow(JobValidationError);
+      expect(original).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reEnqueueJob', () => {
+    it('should save the job again under its own ID', async () => {
+      const adapter = createAdapter();
+
+      await adapter.reEnqueueJob(createJobRecord());
+
+      expect(queue.removeJob).toHaveBeenCalledWith('42');
+      const [job] = created;
+      expect(job?.setId).toHaveBeenCalledWith('42');
+      expect(job?.retries).toHaveBeenCalledWith(1);
+      expect(job?.save).toHaveBeenCalled();
+      expect(repository.createJob).not.toHaveBeenCalled();
+      expect(repository.markJobReEnqueued).toHaveBeenCalledWith('emails', 'bee', '42');
+    });
+
+    it('should save the job again with the options it was saved with', async () => {
+      const adapter = createAdapter();
+      const job = queue.createJob({ to: 'a' });
+      Object.assign(job.options, {
+        retries: 4,
+        timeout: 30000,
+        backoff: { strategy: 'fixed', delay: 500 },
+      });
+      await job.save();
+
+      expect(repository.createJob).toHaveBeenCalledWith(
+        'emails',
+        'bee',
+        '1',
+        undefined,
+        { to: 'a' },
+        5,
+        undefined,
+        undefined,
+        undefined,
+        { retries: 4, timeout: 30000, backoff: { strategy: 'fixed', delay: 500 } },
+        undefined
+      );
+
+      await adapter.reEnqueueJob(
+        createJobRecord({
+          opts: { timeout: 30000, backoff: { strategy: 'fixed', delay: 500 } },
+        })
+      );
+
+      const resaved = created[1];
+      expect(resaved?.timeout).toHaveBeenCalledWith(30000);
+      expect(resaved?.backoff).toHaveBeenCalledWith('fixed', 500);
+      expect(resaved?.retries).toHaveBeenLastCalledWith(1);
+    });
+
+    it('should give a job saved without retries a single attempt', async () => {
+      const adapter = createAdapter();
+      await queue.createJob({ to: 'a' }).save();
+
+      expect(repository.createJob.mock.calls[0]?.[5]).toBe(1);
+
+      await adapter.reEnqueueJob(createJobRecord({ attempts: 1, max_attempts: 1 }));
+
+      expect(created[1]?.retries).toHaveBeenLastCalledWith(0);
+    });
+
+    it('should skip a job Redis already processed unless it is replaced', async () => {
+      queue.getJob.mockResolvedValue({ id: '42', status: 'succeeded' });
+      const adapter = createAdapter();
+
+      await adapter.reEnqueueJob(createJobRecord());
+
+      expect(queue.removeJob).not.toHaveBeenCalled();
+      expect(repository.markJobReEnqueued).not.toHaveBeenCalled();
+
+      await adapter.reEnqueueJob(createJobRecord(), {
+        replaceFinished: true,
+        attempts: 3,
+      });
+
+      expect(queue.removeJob).toHaveBeenCalledWith('42');
+      expect(created[0]?.retries).toHaveBeenCalledWith(2);
+      expect(repository.markJobReEnqueued).toHaveBeenCalled();
+    });
+
+    it('should only save a job missing from Redis if asked to', async () => {
+      queue.getJob.mockResolvedValue(null);
+      const adapter = createAdapter();
+
+      await adapter.reEnqueueJob(createJobRecord());
+      expect(created).toHaveLength(0);
+
+      await adapter.reEnqueueJob(createJobRecord(), { requeueIfMissing: true });
+      expect(created[0]?.setId).toHaveBeenCalledWith('42');
+      expect(queue.removeJob).not.toHaveBeenCalled();
+    });
+  });
+});
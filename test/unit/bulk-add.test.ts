@@ -0,0 +1,313 @@
+import { Pool } from 'pg';
+import { BullAdapter } from '../../src/adapters/bull.adapter';
+import { BullMQAdapter } from '../../src/adapters/bullmq.adapter';
+import { BeeAdapter } from '../../src/adapters/bee.adapter';
+import { JobGuard } from '../../src/jobguard';
+import { JobRepository } from '../../src/persistence/repository';
+import { createQueries } from '../../src/persistence/queries';
+import { DEFAULT_SCHEMA_NAMES } from '../../src/persistence/schema-names';
+import { BeeQueue, BullMQQueue, BullQueue } from '../../src/types/queue-types';
+import { LimitsConfig } from '../../src/types/config';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Logger } from '../../src/utils/logger';
+import { JobGuardError, JobValidationError } from '../../src/errors/errors';
+
+describe('Bulk adds and flows', () => {
+  const logger = new Logger({ enabled: false });
+  let repository: { createJob: jest.Mock; createJobs: jest.Mock };
+  let queue: { name: string; add: jest.Mock; addBulk: jest.Mock; qualifiedName: string };
+
+  beforeEach(() => {
+    repository = {
+      createJob: jest.fn().mockResolvedValue({}),
+      createJobs: jest.fn().mockResolvedValue([]),
+    };
+    queue = {
+      name: 'emails',
+      qualifiedName: 'bull:emails',
+      add: jest.fn(),
+      addBulk: jest.fn(async (jobs: Array<{ name: string; data: unknown }>) =>
+        jobs.map((job, index) => ({ id: String(index + 1), ...job }))
+      ),
+    };
+  });
+
+  function createAdapter(limits?: LimitsConfig): BullMQAdapter {
+    const adapter = new BullMQAdapter(
+      queue as unknown as BullMQQueue,
+      repository as unknown as JobRepository,
+      logger,
+      { limits }
+    );
+    adapter.wrapAddMethod();
+    return adapter;
+  }
+
+  describe('queue.addBulk', () => {
+    it('should persist the added jobs with one insert', async () => {
+      createAdapter({ maxJobDataSize: 100, oversizedJobPolicy: 'skip' });
+
+      const jobs = await queue.addBulk([
+        { name: 'send', data: { to: 'a' }, opts: { attempts: 5 } },
+        { name: 'send', data: { blob: 'x'.repeat(200) } },
+        { name: 'send', data: { to: 'b' } },
+      ]);
+
+      expect(jobs).toHaveLength(3);
+      expect(repository.createJobs).toHaveBeenCalledTimes(1);
+      expect(repository.createJobs).toHaveBeenCalledWith(
+        'emails',
+        'bullmq',
+        [
+          {
+            jobId: '1',
+            jobName: 'send',
+            data: { to: 'a' },
+            maxAttempts: 5,
+            parentKey: undefined,
+            opts: { attempts: 5 },
+          },
+          {
+            jobId: '3',
+            jobName: 'send',
+            data: { to: 'b' },
+            maxAttempts: 1,
+            parentKey: undefined,
+            opts: {},
+          },
+        ],
+        undefined
+      );
+    });
+
+    it('should reject the whole batch before it reaches Redis', async () => {
+      const original = queue.addBulk;
+      createAdapter({ maxJobDataSize: 100, oversizedJobPolicy: 'reject' });
+
+      await expect(
+        queue.addBulk([
+          { name: 'send', data: { to: 'a' } },
+          { name: 'send', data: { blob: 'x'.repeat(200) } },
+        ])
+      ).rejects.toThrow(JobValidationError);
+      expect(original).not.toHaveBeenCalled();
+      expect(repository.createJobs).not.toHaveBeenCalled();
+    });
+
+    it('should write the jobs one by one if the batch fails', async () => {
+      repository.createJobs.mockRejectedValueOnce(new Error('value too long'));
+      repository.createJob.mockRejectedValueOnce(new Error('value too long'));
+      const adapter = createAdapter();
+
+      await queue.addBulk([
+        { name: 'send', data: { to: 'a' } },
+        { name: 'send', data: { to: 'b' } },
+      ]);
+
+      expect(repository.createJob.mock.calls.map((call) => call[2])).toEqual(['1', '2']);
+      expect(adapter.getMetrics().writeFailures).toEqual({
+        create: 1,
+        status: 0,
+        error: 0,
+      });
+    });
+
+    it('should restore addBulk on dispose', async () => {
+      const original = queue.addBulk;
+      const adapter = createAdapter();
+
+      await adapter.dispose();
+      await queue.addBulk([{ name: 'send', data: {} }]);
+
+      expect(original).toHaveBeenCalledTimes(1);
+      expect(repository.createJobs).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('FlowProducer', () => {
+    let flowProducer: { add: jest.Mock; addBulk: jest.Mock; opts: { prefix?: string } };
+
+    // Parent in the emails queue, children in emails and in another queue
+    const flowResult = {
+      job: { id: 'parent', name: 'digest', data: {}, queueQualifiedName: 'bull:emails' },
+      children: [
+        {
+          job: {
+            id: 'child-1',
+            name: 'render',
+            data: { part: 1 },
+            opts: { attempts: 2 },
+            queueQualifiedName: 'bull:emails',
+            parentKey: 'bull:emails:parent',
+          },
+        },
+        {
+          job: {
+            id: 'child-2',
+            name: 'upload',
+            data: {},
+            queueQualifiedName: 'bull:uploads',
+            parentKey: 'bull:emails:parent',
+          },
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      flowProducer = {
+        add: jest.fn().mockResolvedValue(flowResult),
+        addBulk: jest.fn().mockResolvedValue([flowResult]),
+        opts: {},
+      };
+    });
+
+    it("should track this queue's nodes with their parent", async () => {
+      createAdapter().attachFlowProducer(flowProducer);
+
+      await expect(
+        flowProducer.add({ name: 'digest', queueName: 'emails', data: {} })
+      ).resolves.toBe(flowResult);
+
+      const [[, , jobs]] = repository.createJobs.mock.calls as [
+        [string, string, Array<{ jobId: string; parentKey?: string }>],
+      ];
+      expect(jobs).toHaveLength(2);
+      expect(jobs).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ jobId: 'parent', parentKey: undefined }),
+          expect.objectContaining({
+            jobId: 'child-1',
+            maxAttempts: 2,
+            parentKey: 'bull:emails:parent',
+          }),
+        ])
+      );
+    });
+
+    it('should reject a flow with an oversized job of this queue', async () => {
+      const original = flowProducer.addBulk;
+      createAdapter({
+        maxJobDataSize: 100,
+        oversizedJobPolicy: 'reject',
+      }).attachFlowProducer(flowProducer);
+
+      await expect(
+        flowProducer.addBulk([
+          {
+            name: 'digest',
+            queueName: 'emails',
+            children: [
+              { name: 'render', queueName: 'emails', data: { blob: 'x'.repeat(200) } },
+            ],
+          },
+        ])
+      ).rejects.toThrow(JobValidationError);
+      expect(original).not.toHaveBeenCalled();
+    });
+
+    it('should restore its methods on dispose', async () => {
+      const { add, addBulk } = flowProducer;
+      const adapter = createAdapter();
+      adapter.attachFlowProducer(flowProducer);
+
+      await adapter.dispose();
+      await flowProducer.add({ name: 'digest', queueName: 'emails' });
+      await flowProducer.addBulk([]);
+
+      expect(add).toHaveBeenCalledTimes(1);
+      expect(addBulk).toHaveBeenCalledTimes(1);
+      expect(repository.createJobs).not.toHaveBeenCalled();
+    });
+
+    it('should only be attached to BullMQ queues', () => {
+      const jobGuard = Object.assign(Object.create(JobGuard.prototype), {
+        initialized: true,
+        adapter: new BeeAdapter(
+          { name: 'emails', createJob: jest.fn() } as unknown as BeeQueue,
+          repository as unknown as JobRepository,
+          logger
+        ),
+      }) as JobGuard;
+
+      expect(() => jobGuard.attachFlowProducer(flowProducer)).toThrow(JobGuardError);
+    });
+  });
+
+  describe('Bull queue.addBulk', () => {
+    it('should persist unnamed jobs with the attempts of each job', async () => {
+      const original = queue.addBulk;
+      const adapter = new BullAdapter(
+        queue as unknown as BullQueue,
+        repository as unknown as JobRepository,
+        logger
+      );
+      adapter.wrapAddMethod();
+
+      await queue.addBulk([
+        { data: { to: 'a' }, opts: { attempts: 2 } },
+        { name: 'send', data: { to: 'b' }, opts: { attempts: 7 } },
+      ]);
+
+      expect(repository.createJobs).toHaveBeenCalledWith(
+        'emails',
+        'bull',
+        [
+          expect.objectContaining({ jobId: '1', jobName: undefined, maxAttempts: 2 }),
+          expect.objectContaining({ jobId: '2', jobName: 'send', maxAttempts: 7 }),
+        ],
+        undefined
+      );
+
+      adapter.dispose();
+      await queue.addBulk([{ data: {} }]);
+      expect(original).toHaveBeenCalledTimes(2);
+      expect(repository.createJobs).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('JobRepository.createJobs', () => {
+    it('should insert every job in one statement, once per job ID', async () => {
+      const pool = { query: jest.fn().mockResolvedValue({ rows: [] }) };
+      const jobRepository = new JobRepository(
+        pool as unknown as Pool,
+        new CircuitBreaker({ threshold: 5, timeout: 60000, name: 'test' }),
+        logger
+      );
+
+      await jobRepository.createJobs('emails', 'bullmq', [
+        { jobId: '1', jobName: 'send', data: { to: 'a' }, maxAttempts: 5 },
+        {
+          jobId: '2',
+          data: { to: 'b' },
+          parentKey: 'bull:emails:1',
+          opts: { priority: 1 },
+        },
+        { jobId: '1', jobName: 'send', data: { to: 'c' } },
+      ]);
+
+      expect(pool.query).toHaveBeenCalledTimes(1);
+      expect(pool.query).toHaveBeenCalledWith(
+        createQueries(DEFAULT_SCHEMA_NAMES).INSERT_JOBS,
+        [
+          'emails',
+          'bullmq',
+          ['1', '2'],
+          ['send', null],
+          ['{"to":"a"}', '{"to":"b"}'],
+          [5, 3],
+          [null, 'bull:emails:1'],
+          expect.any(String),
+          null,
+          [null, '{"priority":1}'],
+          [null, null],
+        ]
+      );
+    });
+
+    it('should skip duplicates through the trigger in the partitioned layout', () => {
+      expect(createQueries(DEFAULT_SCHEMA_NAMES, true).INSERT_JOBS).not.toContain(
+        'ON CONFLICT'
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import { Pool } from 'pg';
+import { BeeAdapter } from '../../src/adapters/bee.adapter';
+import { BullMQAdapter } from '../../src/adapters/bullmq.adapter';
+import { JobRepository } from '../../src/persistence/repository';
+import { createQueries } from '../../src/persistence/queries';
+import { DEFAULT_SCHEMA_NAMES } from '../../src/persistence/schema-names';
+import { BeeQueue, BullMQQueue } from '../../src/types/queue-types';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Logger } from '../../src/utils/logger';
+
+describe('Delayed jobs', () => {
+  const logger = new Logger({ enabled: false });
+  let repository: { createJob: jest.Mock; createJobs: jest.Mock };
+
+  beforeEach(() => {
+    repository = {
+      createJob: jest.fn().mockResolvedValue({}),
+      createJobs: jest.fn().mockResolvedValue([]),
+    };
+  });
+
+  it('should persist when BullMQ jobs added with a delay are due', async () => {
+    const queue = {
+      name: 'emails',
+      opts: {},
+      add: jest.fn(),
+      addBulk: jest.fn(async (jobs: unknown[]) =>
+        jobs.map((_job, index) => ({ id: String(index + 1) }))
+      ),
+    };
+    new BullMQAdapter(
+      queue as unknown as BullMQQueue,
+      repository as unknown as JobRepository,
+      logger
+    ).wrapAddMethod();
+
+    await queue.addBulk([
+      { name: 'send', data: {}, opts: { delay: 3600000, timestamp: 1700000000000 } },
+      { name: 'send', data: {} },
+    ]);
+
+    const [[, , jobs]] = repository.createJobs.mock.calls as [
+      [string, string, Array<{ jobId: string; runAt?: Date }>],
+    ];
+    expect(jobs.map((job) => job.runAt)).toEqual([
+      new Date(1700000000000 + 3600000),
+      undefined,
+    ]);
+  });
+
+  it('should persist when a Bee-Queue job delayed with delayUntil() is due', async () => {
+    const job = {
+      id: '1',
+      data: {},
+      options: { delay: 1700000000000 },
+      save: jest.fn().mockResolvedValue(undefined),
+    };
+    const queue = { name: 'emails', createJob: jest.fn((_data: unknown) => job) };
+    new BeeAdapter(
+      queue as unknown as BeeQueue,
+      repository as unknown as JobRepository,
+      logger
+    ).wrapAddMethod();
+
+    await queue.createJob({}).save();
+
+    const [call] = repository.createJob.mock.calls as unknown[][];
+    expect(call?.[9]).toEqual({ delayUntil: 1700000000000 });
+    expect(call?.[10]).toEqual(new Date(1700000000000));
+  });
+
+  it('should count pending jobs that are not due yet as delayed', async () => {
+    const pool = {
+      query: jest.fn().mockResolvedValue({
+        rows: [
+          { status: 'pending', count: '5', delayed: '2' },
+          { status: 'completed', count: '3', delayed: '0' },
+        ],
+      }),
+    };
+    const jobRepository = new JobRepository(
+      pool as unknown as Pool,
+      new CircuitBreaker({ threshold: 5, timeout: 60000, name: 'test' }),
+      logger
+    );
+
+    const stats = await jobRepository.getStatistics('emails');
+
+    expect(stats).toMatchObject({ pending: 3, delayed: 2, completed: 3, total: 8 });
+  });
+
+  it('should measure the age of orphan candidates from run_at', () => {
+    expect(createQueries(DEFAULT_SCHEMA_NAMES).GET_ORPHAN_CANDIDATES).toContain(
+      'COALESCE(run_at, created_at) < NOW()'
+    );
+  });
+});
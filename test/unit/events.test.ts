@@ -0,0 +1,141 @@
+import { TypedEventEmitter } from '../../src/utils/typed-event-emitter';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Reconciler } from '../../src/reconciliation/reconciler';
+import { JobRepository } from '../../src/persistence/repository';
+import { QueueAdapter } from '../../src/types/adapter';
+import { JobGuardEvents } from '../../src/types/events';
+import { JobRecord, JobStatus } from '../../src/types/job';
+import { Logger } from '../../src/utils/logger';
+
+function createJobRecord(id: string, status: JobStatus): JobRecord {
+  return {
+    id,
+    queue_name: 'emails',
+    queue_type: 'bullmq',
+    job_id: `job-${id}`,
+    data: {},
+    status,
+    attempts: 1,
+    max_attempts: 3,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+class TestEmitter extends TypedEventEmitter<JobGuardEvents> {
+  listenerErrors: unknown[] = [];
+
+  protected handleListenerError(_event: string, error: unknown): void {
+    this.listenerErrors.push(error);
+  }
+}
+
+describe('Lifecycle events', () => {
+  let events: TestEmitter;
+
+  beforeEach(() => {
+    events = new TestEmitter();
+  });
+
+  describe('TypedEventEmitter', () => {
+    it('should keep calling listeners after one throws', () => {
+      const listener = jest.fn();
+      events.on('breaker:open', () => {
+        throw new Error('listener failed');
+      });
+      events.once('breaker:open', listener);
+
+      events.emit('breaker:open', 'postgres');
+      events.emit('breaker:open', 'postgres');
+
+      expect(listener).toHaveBeenCalledTimes(1);
+      expect(listener).toHaveBeenCalledWith('postgres');
+      expect(events.listenerErrors).toHaveLength(2);
+    });
+  });
+
+  it('should emit breaker:open once when the circuit opens', async () => {
+    const listener = jest.fn();
+    events.on('breaker:open', listener);
+    const breaker = new CircuitBreaker({
+      threshold: 2,
+      timeout: 1000,
+      name: 'test',
+      events,
+    });
+    const fn = jest.fn().mockRejectedValue(new Error('failure'));
+
+    await expect(breaker.execute(fn)).rejects.toThrow('failure');
+    await expect(breaker.execute(fn)).rejects.toThrow('failure');
+    await expect(breaker.execute(fn)).rejects.toThrow();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('test');
+  });
+
+  describe('Reconciler', () => {
+    let repository: { getAndMarkStuckJobs: jest.Mock };
+    let adapter: { queueName: string; queueType: 'bullmq'; reEnqueueJob: jest.Mock };
+    let reconciler: Reconciler;
+
+    beforeEach(() => {
+      // Each run schedules the next one; keep those timers from firing
+      jest.useFakeTimers();
+
+      repository = {
+        getAndMarkStuckJobs: jest.fn().mockResolvedValue({
+          toReEnqueue: [createJobRecord('a', JobStatus.STUCK)],
+          deadJobs: [createJobRecord('b', JobStatus.DEAD)],
+        }),
+      };
+      adapter = {
+        queueName: 'emails',
+        queueType: 'bullmq',
+        reEnqueueJob: jest.fn().mockResolvedValue(undefined),
+      };
+      reconciler = new Reconciler(
+        repository as unknown as JobRepository,
+        adapter as unknown as QueueAdapter,
+        { orphanDetection: false, rateLimitPerSecond: 1000 },
+        new Logger({ enabled: false }),
+        undefined,
+        events
+      );
+    });
+
+    afterEach(async () => {
+      await reconciler.stop();
+      jest.useRealTimers();
+    });
+
+    it('should emit job and run events', async () => {
+      const emitted: string[] = [];
+      events.on('job:stuck', (job) => emitted.push(`stuck:${job.id}`));
+      events.on('job:reenqueued', (job) => emitted.push(`reenqueued:${job.id}`));
+      events.on('job:dead', (job) => emitted.push(`dead:${job.id}`));
+      const complete = jest.fn();
+      events.on('reconcile:complete', complete);
+
+      await reconciler.forceRun();
+
+      expect(emitted).toEqual(['stuck:a', 'dead:b', 'reenqueued:a']);
+      expect(complete).toHaveBeenCalledWith(
+        expect.objectContaining({ queueName: 'emails', stuck: 2, reEnqueued: 1, dead: 1 })
+      );
+    });
+
+    it('should emit reconcile:failed when a run fails', async () => {
+      const failed = jest.fn();
+      events.on('reconcile:failed', failed);
+      repository.getAndMarkStuckJobs.mockRejectedValueOnce(new Error('connection lost'));
+
+      await expect(reconciler.forceRun()).rejects.toThrow(
+        'Failed to complete reconciliation'
+      );
+
+      expect(failed).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'ReconciliationError' })
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { EventEmitter } from 'events';
+import { ClientBase, Pool } from 'pg';
+import { BaseAdapter, RedisJob } from '../../src/adapters/base.adapter';
+import { ConnectionManager } from '../../src/persistence/connection';
+import { JobRepository } from '../../src/persistence/repository';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Logger } from '../../src/utils/logger';
+import { BullQueue } from '../../src/types/queue-types';
+import { ListenerHealth } from '../../src/types/health';
+import { JobValidationError } from '../../src/errors/errors';
+
+class TestAdapter extends BaseAdapter {
+  readonly queueName = 'emails';
+  readonly queueType = 'bull' as const;
+
+  wrapAddMethod(): void {}
+  attachEventListeners(): void {}
+  async reEnqueueJob(): Promise<void> {}
+  async dispatchJob(): Promise<void> {}
+  async getJobState(): Promise<string | null> {
+    return null;
+  }
+  async getListenerHealth(): Promise<ListenerHealth> {
+    return { connected: true, state: 'ready' };
+  }
+  protected async fetchJobsFromRedis(): Promise<RedisJob[]> {
+    return [];
+  }
+}
+
+function createJobRow() {
+  return {
+    id: '1',
+    queue_name: 'emails',
+    queue_type: 'bull',
+    job_id: 'order-42',
+    data: { orderId: 42 },
+    status: 'pending',
+    attempts: 0,
+    max_attempts: 3,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+describe('Caller-owned pool', () => {
+  const logger = new Logger({ enabled: false });
+
+  describe('ConnectionManager', () => {
+    function createPool() {
+      return Object.assign(new EventEmitter(), {
+        connect: jest.fn(),
+        query: jest.fn().mockResolvedValue({ rows: [] }),
+        end: jest.fn().mockResolvedValue(undefined),
+      });
+    }
+
+    it('should use the pool as is and leave it open on close', async () => {
+      const pool = createPool();
+      const connectionManager = new ConnectionManager(pool as unknown as Pool, logger);
+
+      expect(connectionManager.getPool()).toBe(pool);
+      expect(pool.listenerCount('error')).toBe(1);
+
+      await connectionManager.close();
+
+      expect(pool.end).not.toHaveBeenCalled();
+      expect(pool.listenerCount('error')).toBe(0);
+      expect(pool.listenerCount('connect')).toBe(0);
+    });
+
+    it('should end a pool it created itself', async () => {
+      const connectionManager = new ConnectionManager(
+        'postgresql://localhost/jobguard',
+        logger
+      );
+      const end = jest.spyOn(connectionManager.getPool(), 'end');
+
+      await connectionManager.close();
+
+      expect(end).toHaveBeenCalled();
+    });
+  });
+
+  describe('recording a job in the caller transaction', () => {
+    let pool: { query: jest.Mock };
+    let client: { query: jest.Mock };
+    let breaker: CircuitBreaker;
+    let adapter: TestAdapter;
+
+    beforeEach(() => {
+      pool = { query: jest.fn() };
+      client = { query: jest.fn().mockResolvedValue({ rows: [createJobRow()] }) };
+      breaker = new CircuitBreaker({ threshold: 1, timeout: 60000, name: 'test' });
+      const repository = new JobRepository(pool as unknown as Pool, breaker, logger);
+      const queue = { name: 'emails', on: jest.fn() } as unknown as BullQueue;
+      adapter = new TestAdapter(queue, repository, logger, {
+        limits: { maxJobDataSize: 100, oversizedJobPolicy: 'reject' },
+      });
+    });
+
+    it('should insert on the caller client, bypassing the circuit breaker', async () => {
+      const execute = jest.spyOn(breaker, 'execute');
+
+      const job = await adapter.recordJob(client as unknown as ClientBase, {
+        jobId: 'order-42',
+        name: 'confirm',
+        data: { orderId: 42 },
+        maxAttempts: 5,
+      });
+
+      expect(job).toMatchObject({ job_id: 'order-42', status: 'pending' });
+      expect(pool.query).not.toHaveBeenCalled();
+      expect(execute).not.toHaveBeenCalled();
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO "jobguard_jobs"'),
+        expect.arrayContaining(['emails', 'bull', 'order-42', 'confirm', 5])
+      );
+    });
+
+    it('should leave errors of the caller transaction out of the circuit breaker', async () => {
+      client.query.mockRejectedValue(new Error('current transaction is aborted'));
+
+      await expect(
+        adapter.recordJob(client as unknown as ClientBase, { jobId: 'a', data: {} })
+      ).rejects.toThrow('current transaction is aborted');
+
+      expect(breaker.getMetrics().state).toBe('closed');
+    });
+
+    it('should reject oversized jobs before anything is written', async () => {
+      await expect(
+        adapter.recordJob(client as unknown as ClientBase, {
+          jobId: 'order-42',
+          data: { blob: 'x'.repeat(200) },
+        })
+      ).rejects.toThrow(JobValidationError);
+
+      expect(client.query).not.toHaveBeenCalled();
+    });
+  });
+});
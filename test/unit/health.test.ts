@@ -0,0 +1,282 @@
+import { createServer, get, Server } from 'http';
+import { AddressInfo } from 'net';
+import { JobGuard } from '../../src/jobguard';
+import { evaluateHealth, HealthSnapshot } from '../../src/health/checks';
+import { createHealthHandler } from '../../src/health/handler';
+import { HealthReport } from '../../src/types/health';
+import { Logger } from '../../src/utils/logger';
+
+function createSnapshot(overrides: Partial<HealthSnapshot> = {}): HealthSnapshot {
+  return {
+    queueName: 'emails',
+    queueType: 'bullmq',
+    postgres: { status: 'ok', latencyMs: 2 },
+    circuitBreaker: {
+      state: 'closed',
+      failureCount: 0,
+      successCount: 10,
+      totalCalls: 10,
+      failureRate: 0,
+      lastFailureTime: 0,
+    },
+    pool: { total: 2, idle: 2, waiting: 0 },
+    poolExhausted: false,
+    reconciler: {
+      running: true,
+      paused: false,
+      leader: true,
+      consecutiveFailures: 0,
+    },
+    cleanup: { enabled: true, consecutiveFailures: 0, maxFailures: 3 },
+    listener: { connected: true, state: 'ready' },
+    ...overrides,
+  };
+}
+
+function request(port: number): Promise<{ status?: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    get({ host: '127.0.0.1', port, path: '/health' }, (res) => {
+      let body = '';
+      res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      res.on('end', () => resolve({ status: res.statusCode, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('Health', () => {
+  describe('evaluateHealth', () => {
+    it('should report ok when every check passes', () => {
+      const report = evaluateHealth(createSnapshot());
+
+      expect(report.status).toBe('ok');
+      expect(report.checks.reconciler).toMatchObject({ enabled: true, leader: true });
+      expect(report.checks.spool).toBeUndefined();
+    });
+
+    it('should report down when the circuit breaker is open', () => {
+      const report = evaluateHealth(
+        createSnapshot({
+          circuitBreaker: { ...createSnapshot().circuitBreaker, state: 'open' },
+        })
+      );
+
+      expect(report.status).toBe('down');
+      expect(report.checks.circuitBreaker.status).toBe('down');
+    });
+
+    it('should report down when the pool is exhausted', () => {
+      const report = evaluateHealth(
+        createSnapshot({ pool: { total: 10, idle: 0, waiting: 4 }, poolExhausted: true })
+      );
+
+      expect(report.status).toBe('down');
+      expect(report.checks.pool).toMatchObject({ status: 'down', exhausted: true });
+    });
+
+    it('should report degraded when reconciliation is paused', () => {
+      const report = evaluateHealth(
+        createSnapshot({
+          reconciler: {
+            running: true,
+            paused: true,
+            leader: true,
+            consecutiveFailures: 3,
+          },
+        })
+      );
+
+      expect(report.status).toBe('degraded');
+      expect(report.checks.reconciler).toMatchObject({
+        status: 'degraded',
+        paused: true,
+      });
+    });
+
+    it('should report degraded when cleanup was disabled after failures', () => {
+      const report = evaluateHealth(
+        createSnapshot({
+          cleanup: { enabled: true, consecutiveFailures: 3, maxFailures: 3 },
+        })
+      );
+
+      expect(report.status).toBe('degraded');
+      expect(report.checks.cleanup).toMatchObject({ disabled: true });
+    });
+
+    it('should report degraded when the event connection is not ready', () => {
+      const report = evaluateHealth(
+        createSnapshot({ listener: { connected: false, state: 'reconnecting' } })
+      );
+
+      expect(report.status).toBe('degraded');
+      expect(report.checks.adapter).toEqual({
+        status: 'degraded',
+        connected: false,
+        state: 'reconnecting',
+      });
+    });
+
+    it('should report degraded while writes are spooled', () => {
+      const report = evaluateHealth(
+        createSnapshot({
+          spool: {
+            depth: 3,
+            bytes: 300,
+            oldestEntryAgeMs: 1500,
+            replayedEntries: 0,
+            droppedEntries: 0,
+          },
+        })
+      );
+
+      expect(report.status).toBe('degraded');
+      expect(report.checks.spool).toEqual({
+        status: 'degraded',
+        depth: 3,
+        oldestEntryAgeMs: 1500,
+      });
+    });
+
+    it('should not count a disabled reconciler against health', () => {
+      const report = evaluateHealth(createSnapshot({ reconciler: undefined }));
+
+      expect(report.status).toBe('ok');
+      expect(report.checks.reconciler).toMatchObject({ enabled: false, paused: false });
+    });
+  });
+
+  describe('createHealthHandler', () => {
+    let server: Server | undefined;
+
+    async function serve(
+      handler: ReturnType<typeof createHealthHandler>
+    ): Promise<number> {
+      server = createServer((req, res) => void handler(req, res));
+      await new Promise<void>((resolve) => server?.listen(0, '127.0.0.1', resolve));
+      return (server.address() as AddressInfo).port;
+    }
+
+    afterEach(async () => {
+      await new Promise<void>((resolve) =>
+        server ? server.close(() => resolve()) : resolve()
+      );
+      server = undefined;
+    });
+
+    it('should answer 200 with the report until the status is down', async () => {
+      const report = evaluateHealth(
+        createSnapshot({ listener: { connected: false, state: 'end' } })
+      );
+      const port = await serve(createHealthHandler(async () => report));
+
+      const response = await request(port);
+
+      expect(response.status).toBe(200);
+      expect(JSON.parse(response.body)).toMatchObject({ status: 'degraded' });
+    });
+
+    it('should answer 503 once the status reaches failOn', async () => {
+      const report = evaluateHealth(
+        createSnapshot({ listener: { connected: false, state: 'end' } })
+      );
+      const port = await serve(
+        createHealthHandler(async () => report, { failOn: 'degraded' })
+      );
+
+      await expect(request(port)).resolves.toMatchObject({ status: 503 });
+    });
+
+    it('should answer 503 when the report cannot be produced', async () => {
+      const port = await serve(
+        createHealthHandler(async () => {
+          throw new Error('JobGuard is not initialized');
+        })
+      );
+
+      const response = await request(port);
+
+      expect(response.status).toBe(503);
+      expect(JSON.parse(response.body)).toEqual({
+        status: 'down',
+        error: 'JobGuard is not initialized',
+      });
+    });
+
+    it('should reply through a Fastify-style reply', async () => {
+      const reply = {
+        code: jest.fn().mockReturnThis(),
+        header: jest.fn().mockReturnThis(),
+        send: jest.fn().mockReturnThis(),
+      };
+      const report = evaluateHealth(
+        createSnapshot({ postgres: { status: 'down', error: 'ECONNREFUSED' } })
+      );
+
+      await createHealthHandler(async () => report)({}, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(503);
+      expect(reply.header).toHaveBeenCalledWith('Content-Type', 'application/json');
+      expect(JSON.parse(reply.send.mock.calls[0][0])).toMatchObject({ status: 'down' });
+    });
+  });
+
+  describe('jobGuard.health', () => {
+    function createJobGuard(overrides: Record<string, unknown> = {}): JobGuard {
+      return Object.assign(Object.create(JobGuard.prototype), {
+        initialized: true,
+        adapter: {
+          queueName: 'emails',
+          queueType: 'bullmq',
+          getListenerHealth: jest
+            .fn()
+            .mockResolvedValue({ connected: true, state: 'ready' }),
+        },
+        connectionManager: {
+          ping: jest.fn().mockResolvedValue(3),
+          getPoolStats: jest.fn().mockReturnValue({ total: 1, idle: 1, waiting: 0 }),
+          isPoolExhausted: jest.fn().mockReturnValue(false),
+        },
+        circuitBreaker: {
+          getMetrics: jest.fn().mockReturnValue(createSnapshot().circuitBreaker),
+        },
+        logger: new Logger({ enabled: false }),
+        cleanupFailures: 0,
+        MAX_CONSECUTIVE_FAILURES: 3,
+        HEALTH_PROBE_TIMEOUT_MS: 50,
+        ...overrides,
+      }) as JobGuard;
+    }
+
+    it('should combine the component checks', async () => {
+      const report: HealthReport = await createJobGuard().health();
+
+      expect(report.status).toBe('ok');
+      expect(report.checks.postgres).toEqual({ status: 'ok', latencyMs: 3 });
+      expect(report.checks.cleanup).toMatchObject({ enabled: false, disabled: false });
+    });
+
+    it('should report PostgreSQL down when the probe fails or hangs', async () => {
+      const jobGuard = createJobGuard({
+        connectionManager: {
+          ping: jest.fn().mockReturnValue(new Promise(() => undefined)),
+          getPoolStats: jest.fn().mockReturnValue({ total: 0, idle: 0, waiting: 0 }),
+          isPoolExhausted: jest.fn().mockReturnValue(false),
+        },
+      });
+
+      const report = await jobGuard.health();
+
+      expect(report.status).toBe('down');
+      expect(report.checks.postgres).toEqual({
+        status: 'down',
+        error: 'PostgreSQL probe timed out after 50ms',
+      });
+    });
+
+    it('should throw when not initialized', async () => {
+      await expect(createJobGuard({ initialized: false }).health()).rejects.toThrow(
+        'JobGuard is not initialized'
+      );
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { ClientBase } from 'pg';
+import { BullAdapter } from '../../src/adapters/bull.adapter';
+import { BullMQAdapter } from '../../src/adapters/bullmq.adapter';
+import { JobRepository } from '../../src/persistence/repository';
+import { JobRecord, JobStatus } from '../../src/types/job';
+import { BullMQQueue, BullQueue } from '../../src/types/queue-types';
+import { Logger } from '../../src/utils/logger';
+
+function createJobRecord(overrides: Partial<JobRecord> = {}): JobRecord {
+  return {
+    id: 'uuid-1',
+    queue_name: 'emails',
+    queue_type: 'bullmq',
+    job_id: '42',
+    job_name: 'send',
+    data: { to: 'a@example.com' },
+    status: JobStatus.STUCK,
+    attempts: 1,
+    max_attempts: 5,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Job options', () => {
+  const logger = new Logger({ enabled: false });
+  let repository: {
+    createJob: jest.Mock;
+    getJob: jest.Mock;
+    markJobReEnqueued: jest.Mock;
+  };
+
+  beforeEach(() => {
+    repository = {
+      createJob: jest.fn().mockResolvedValue({}),
+      getJob: jest.fn().mockResolvedValue(createJobRecord()),
+      markJobReEnqueued: jest.fn().mockResolvedValue(createJobRecord()),
+    };
+  });
+
+  describe('BullMQ', () => {
+    let queue: {
+      name: string;
+      opts: { defaultJobOptions?: Record<string, unknown> };
+      add: jest.Mock;
+      client: { eval: jest.Mock };
+    };
+
+    function createAdapter(): BullMQAdapter {
+      const adapter = new BullMQAdapter(
+        queue as unknown as BullMQQueue,
+        repository as unknown as JobRepository,
+        logger
+      );
+      adapter.wrapAddMethod();
+      return adapter;
+    }
+
+    beforeEach(() => {
+      queue = {
+        name: 'emails',
+        opts: {
+          defaultJobOptions: {
+            attempts: 5,
+            backoff: { type: 'exponential', delay: 1000 },
+            removeOnComplete: true,
+          },
+        },
+        add: jest.fn().mockResolvedValue({ id: '42' }),
+        client: { eval: jest.fn().mockResolvedValue(1) },
+      };
+    });
+
+    it('should persist the job options on top of the queue defaults', async () => {
+      createAdapter();
+
+      await queue.add('send', { to: 'a' }, { jobId: '42', priority: 2, delay: 5000 });
+
+      expect(repository.createJob).toHaveBeenCalledWith(
+        'emails',
+        'bullmq',
+        '42',
+        'send',
+        { to: 'a' },
+        5,
+        undefined,
+        undefined,
+        undefined,
+        {
+          attempts: 5,
+          backoff: { type: 'exponential', delay: 1000 },
+          removeOnComplete: true,
+          priority: 2,
+          delay: 5000,
+        },
+        expect.any(Date)
+      );
+    });
+
+    it('should give a job added without an attempts option a single attempt', async () => {
+      queue.opts = {};
+      createAdapter();
+
+      await queue.add('send', { to: 'a' });
+
+      expect(repository.createJob.mock.calls[0]?.[5]).toBe(1);
+    });
+
+    it('should re-add a job with its options and what remains of its delay', async () => {
+      const original = queue.add;
+      const adapter = createAdapter();
+      const jobRecord = createJobRecord({
+        created_at: new Date(Date.now() - 20000),
+        run_at: new Date(Date.now() + 40000),
+        opts: {
+          attempts: 5,
+          priority: 2,
+          backoff: { type: 'fixed', delay: 500 },
+          delay: 60000,
+        },
+      });
+
+      await adapter.reEnqueueJob(jobRecord);
+
+      const [[name, data, opts]] = original.mock.calls as [
+        [string, unknown, Record<string, unknown>],
+      ];
+      expect(name).toBe('send');
+      expect(data).toEqual({ to: 'a@example.com' });
+      expect(opts).toMatchObject({
+        jobId: '42',
+        attempts: 4,
+        priority: 2,
+        backoff: { type: 'fixed', delay: 500 },
+      });
+      expect(opts.delay).toBeGreaterThan(39000);
+      expect(opts.delay).toBeLessThanOrEqual(40000);
+    });
+
+    it('should store the options and due time of a job recorded in a transaction', async () => {
+      const adapter = createAdapter();
+      const client = {};
+
+      await adapter.recordJob(client as unknown as ClientBase, {
+        jobId: 'order-42',
+        name: 'confirm',
+        data: { orderId: 42 },
+        opts: { attempts: 2, delay: 5000 },
+      });
+
+      const [call] = repository.createJob.mock.calls as unknown[][];
+      expect(call?.[5]).toBe(2);
+      expect(call?.[7]).toBe(client);
+      expect(call?.[9]).toEqual({
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 1000 },
+        removeOnComplete: true,
+        delay: 5000,
+      });
+      expect((call?.[10] as Date).getTime()).toBeGreaterThan(Date.now() + 4000);
+    });
+
+    it('should re-add a repeatable job once, without its repeat schedule', async () => {
+      const original = queue.add;
+      const adapter = createAdapter();
+
+      await adapter.reEnqueueJob(
+        createJobRecord({ opts: { priority: 2, repeat: { pattern: '0 * * * *' } } })
+      );
+
+      expect(original).toHaveBeenCalledWith(
+        'send',
+        { to: 'a@example.com' },
+        { priority: 2, jobId: '42', attempts: 4 }
+      );
+    });
+
+    it('should count what remains of a delay from now, not the original timestamp', async () => {
+      const original = queue.add;
+      const adapter = createAdapter();
+
+      await adapter.reEnqueueJob(
+        createJobRecord({
+          run_at: new Date(Date.now() + 30000),
+          opts: { timestamp: Date.now() - 30000, delay: 60000 },
+        })
+      );
+
+      const [[, , opts]] = original.mock.calls as [
+        [string, unknown, Record<string, unknown>],
+      ];
+      expect(opts).not.toHaveProperty('timestamp');
+      expect(opts.delay).toBeGreaterThan(29000);
+      expect(opts.delay).toBeLessThanOrEqual(30000);
+    });
+
+    it('should drop a delay that has run out', async () => {
+      const original = queue.add;
+      const adapter = createAdapter();
+
+      await adapter.reEnqueueJob(
+        createJobRecord({
+          created_at: new Date(Date.now() - 60000),
+          run_at: new Date(Date.now() - 59000),
+          opts: { priority: 2, delay: 1000 },
+        }),
+        { attempts: 5 }
+      );
+
+      expect(original).toHaveBeenCalledWith(
+        'send',
+        { to: 'a@example.com' },
+        { priority: 2, jobId: '42', attempts: 5 }
+      );
+    });
+  });
+
+  describe('Bull', () => {
+    it('should persist the queue defaults of an unnamed job', async () => {
+      const queue = {
+        name: 'emails',
+        defaultJobOptions: { attempts: 4, timeout: 30000 },
+        add: jest.fn().mockResolvedValue({ id: 7 }),
+        process: jest.fn(),
+      };
+      const adapter = new BullAdapter(
+        queue as unknown as BullQueue,
+        repository as unknown as JobRepository,
+        logger
+      );
+      adapter.wrapAddMethod();
+
+      await queue.add({ to: 'a' }, { lifo: true });
+
+      expect(repository.createJob).toHaveBeenCalledWith(
+        'emails',
+        'bull',
+        '7',
+        undefined,
+        { to: 'a' },
+        4,
+        undefined,
+        undefined,
+        undefined,
+        { attempts: 4, timeout: 30000, lifo: true },
+        undefined
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { Pool } from 'pg';
+import { LeaderElection } from '../../src/reconciliation/leader-election';
+import { Logger } from '../../src/utils/logger';
+
+describe('LeaderElection', () => {
+  let mockClient: {
+    query: jest.Mock;
+    release: jest.Mock;
+    on: jest.Mock;
+    removeListener: jest.Mock;
+  };
+  let mockPool: Pool;
+  let mockLogger: jest.Mocked<Logger>;
+  let election: LeaderElection;
+
+  beforeEach(() => {
+    mockClient = {
+      query: jest.fn(),
+      release: jest.fn(),
+      on: jest.fn(),
+      removeListener: jest.fn(),
+    };
+    mockPool = {
+      connect: jest.fn().mockResolvedValue(mockClient),
+    } as unknown as Pool;
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+
+    election = new LeaderElection(mockPool, mockLogger);
+  });
+
+  it('should become leader when the advisory lock is acquired', async () => {
+    mockClient.query.mockResolvedValueOnce({ rows: [{ acquired: true }] });
+
+    await expect(election.acquire('emails')).resolves.toBe(true);
+    expect(election.isLeader('emails')).toBe(true);
+    expect(mockClient.query).toHaveBeenCalledWith(
+      expect.stringContaining('pg_try_advisory_lock'),
+      [expect.any(Number), 'jobguard:reconciler:emails']
+    );
+  });
+
+  it('should stay follower when another session holds the lock', async () => {
+    mockClient.query.mockResolvedValueOnce({ rows: [{ acquired: false }] });
+
+    await expect(election.acquire('emails')).resolves.toBe(false);
+    expect(election.isLeader('emails')).toBe(false);
+    expect(mockClient.release).toHaveBeenCalledWith(undefined);
+  });
+
+  it('should verify the session instead of re-locking when already leader', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({ rows: [{ acquired: true }] })
+      .mockResolvedValueOnce({ rows: [{ '?column?': 1 }] });
+
+    await election.acquire('emails');
+    await expect(election.acquire('emails')).resolves.toBe(true);
+
+    expect(mockClient.query).toHaveBeenLastCalledWith('SELECT 1');
+    expect(mockPool.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop leadership when the session fails', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({ rows: [{ acquired: true }] })
+      .mockRejectedValueOnce(new Error('connection terminated'));
+
+    await election.acquire('emails');
+    await expect(election.acquire('emails')).rejects.toThrow('connection terminated');
+
+    expect(election.isLeader('emails')).toBe(false);
+    expect(mockClient.release).toHaveBeenCalledWith(expect.any(Error));
+  });
+
+  it('should hold locks for several queues on one connection', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({ rows: [{ acquired: true }] })
+      .mockResolvedValueOnce({ rows: [{ acquired: true }] });
+
+    await election.acquire('emails');
+    await election.acquire('payments');
+
+    expect(election.isLeader('emails')).toBe(true);
+    expect(election.isLeader('payments')).toBe(true);
+    expect(mockPool.connect).toHaveBeenCalledTimes(1);
+  });
+
+  it('should unlock and return the connection on release', async () => {
+    mockClient.query
+      .mockResolvedValueOnce({ rows: [{ acquired: true }] })
+      .mockResolvedValueOnce({ rows: [{ released: true }] });
+
+    await election.acquire('emails');
+    await election.release('emails');
+
+    expect(mockClient.query).toHaveBeenLastCalledWith(
+      expect.stringContaining('pg_advisory_unlock'),
+      [expect.any(Number), 'jobguard:reconciler:emails']
+    );
+    expect(election.isLeader('emails')).toBe(false);
+    expect(mockClient.release).toHaveBeenCalledWith(undefined);
+  });
+});
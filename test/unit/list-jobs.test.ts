@@ -0,0 +1,126 @@
+import { Pool } from 'pg';
+import { JobRepository } from '../../src/persistence/repository';
+import { buildListJobsQuery } from '../../src/persistence/queries';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Logger } from '../../src/utils/logger';
+import { JobStatus } from '../../src/types/job';
+import { JobGuardError } from '../../src/errors/errors';
+
+function createRow(id: string, createdAt: string): Record<string, unknown> {
+  return {
+    id,
+    queue_name: 'emails',
+    queue_type: 'bullmq',
+    job_id: `job-${id}`,
+    data: {},
+    status: 'dead',
+    attempts: 3,
+    max_attempts: 3,
+    created_at: createdAt,
+    updated_at: createdAt,
+    cursor_created_at: createdAt,
+  };
+}
+
+describe('Job listing', () => {
+  describe('buildListJobsQuery', () => {
+    it('should only scope by queue without filters', () => {
+      const query = buildListJobsQuery('emails', 'bullmq', {}, 50);
+
+      expect(query.text).toContain('WHERE queue_name = $1 AND queue_type = $2\n');
+      expect(query.text).toContain('ORDER BY created_at DESC, id DESC');
+      expect(query.values).toEqual(['emails', 'bullmq', 51]);
+    });
+
+    it('should add a numbered condition per filter', () => {
+      const createdAfter = new Date('2025-01-01T00:00:00Z');
+      const query = buildListJobsQuery(
+        'emails',
+        'bullmq',
+        {
+          status: [JobStatus.DEAD, JobStatus.FAILED],
+          jobName: 'send',
+          createdAfter,
+          errorContains: '100%',
+          dataMatches: { tenant: 'acme' },
+        },
+        10,
+        ['2025-01-02T00:00:00.000001Z', '7b7e8c1e-0000-4000-8000-000000000000']
+      );
+
+      expect(query.text).toContain('status = ANY($3::VARCHAR[])');
+      expect(query.text).toContain('job_name = $4');
+      expect(query.text).toContain('created_at > $5');
+      expect(query.text).toContain('strpos(lower(error_message), lower($6)) > 0');
+      expect(query.text).toContain('data @> $7::JSONB');
+      expect(query.text).toContain('(created_at, id) < ($8::TIMESTAMPTZ, $9::UUID)');
+      expect(query.text).toContain('LIMIT $10');
+      expect(query.values).toEqual([
+        'emails',
+        'bullmq',
+        ['dead', 'failed'],
+        'send',
+        createdAfter,
+        '100%',
+        '{"tenant":"acme"}',
+        '2025-01-02T00:00:00.000001Z',
+        '7b7e8c1e-0000-4000-8000-000000000000',
+        11,
+      ]);
+    });
+  });
+
+  describe('JobRepository.listJobs', () => {
+    let mockPool: { query: jest.Mock };
+    let repository: JobRepository;
+
+    beforeEach(() => {
+      mockPool = { query: jest.fn() };
+      repository = new JobRepository(
+        mockPool as unknown as Pool,
+        new CircuitBreaker({ threshold: 5, timeout: 60000, name: 'test' }),
+        new Logger({ enabled: false })
+      );
+    });
+
+    it('should return a cursor that continues after the last job of the page', async () => {
+      mockPool.query.mockResolvedValueOnce({
+        rows: [
+          createRow('c', '2025-01-03T00:00:00.000003Z'),
+          createRow('b', '2025-01-02T00:00:00.000002Z'),
+          createRow('a', '2025-01-01T00:00:00.000001Z'),
+        ],
+      });
+
+      const page = await repository.listJobs('emails', 'bullmq', { limit: 2 });
+
+      expect(page.jobs.map((job) => job.id)).toEqual(['c', 'b']);
+      expect(page.nextCursor).toBeDefined();
+
+      mockPool.query.mockResolvedValueOnce({
+        rows: [createRow('a', '2025-01-01T00:00:00.000001Z')],
+      });
+
+      const nextPage = await repository.listJobs('emails', 'bullmq', {
+        limit: 2,
+        cursor: page.nextCursor,
+      });
+
+      const [, values] = mockPool.query.mock.calls[1] as [string, unknown[]];
+      expect(values).toContain('2025-01-02T00:00:00.000002Z');
+      expect(values).toContain('b');
+      expect(nextPage.jobs.map((job) => job.id)).toEqual(['a']);
+      expect(nextPage.nextCursor).toBeUndefined();
+    });
+
+    it('should reject invalid cursors and limits', async () => {
+      await expect(
+        repository.listJobs('emails', 'bullmq', { cursor: 'not-a-cursor' })
+      ).rejects.toThrow(JobGuardError);
+      await expect(
+        repository.listJobs('emails', 'bullmq', { limit: 5000 })
+      ).rejects.toThrow('limit must be an integer between 1 and 1000');
+      expect(mockPool.query).not.toHaveBeenCalled();
+    });
+  });
+});
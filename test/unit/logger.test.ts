@@ -0,0 +1,108 @@
+import { Logger } from '../../src/utils/logger';
+import { JobGuardLogger } from '../../src/types/config';
+
+describe('Logger', () => {
+  let consoleSpies: Record<'debug' | 'info' | 'warn' | 'error', jest.SpyInstance>;
+
+  beforeEach(() => {
+    consoleSpies = {
+      debug: jest.spyOn(console, 'debug').mockImplementation(() => undefined),
+      info: jest.spyOn(console, 'info').mockImplementation(() => undefined),
+      warn: jest.spyOn(console, 'warn').mockImplementation(() => undefined),
+      error: jest.spyOn(console, 'error').mockImplementation(() => undefined),
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write one JSON object per entry in json format', () => {
+    const logger = new Logger({ format: 'json' }).child({
+      queue: 'emails',
+      queueType: 'bullmq',
+    });
+
+    logger.error('Failed to re-enqueue job', {
+      jobId: '42',
+      err: new Error('connection refused'),
+    });
+
+    const entry = JSON.parse(consoleSpies.error.mock.calls[0][0]);
+    expect(entry).toEqual({
+      ts: expect.any(String),
+      level: 'error',
+      queue: 'emails',
+      queueType: 'bullmq',
+      jobId: '42',
+      msg: 'Failed to re-enqueue job',
+      err: expect.objectContaining({ name: 'Error', message: 'connection refused' }),
+    });
+    expect(Number.isNaN(Date.parse(entry.ts))).toBe(false);
+  });
+
+  it('should append context as key=value pairs in text format', () => {
+    const logger = new Logger({ prefix: '[Test]' });
+
+    logger.info('Cleaned up old jobs', { deleted: 3, queue: 'emails' });
+
+    expect(consoleSpies.info).toHaveBeenCalledWith(
+      expect.stringMatching(/\[Test\] INFO  Cleaned up old jobs deleted=3 queue=emails$/)
+    );
+  });
+
+  it('should pass the error to the console as its own argument in text format', () => {
+    const error = new Error('boom');
+
+    new Logger().error('Cleanup failed', { err: error });
+
+    expect(consoleSpies.error).toHaveBeenCalledWith(
+      expect.stringContaining('Cleanup failed'),
+      error
+    );
+  });
+
+  it('should forward entries with child context to a custom logger', () => {
+    const sink: jest.Mocked<JobGuardLogger> = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const logger = new Logger({ logger: sink, level: 'debug' }).child({
+      queue: 'emails',
+    });
+
+    logger.warn('Found orphaned jobs', { count: 2 });
+
+    expect(sink.warn).toHaveBeenCalledWith('Found orphaned jobs', {
+      queue: 'emails',
+      count: 2,
+    });
+    expect(consoleSpies.warn).not.toHaveBeenCalled();
+  });
+
+  it('should drop entries below the configured level', () => {
+    const sink: jest.Mocked<JobGuardLogger> = {
+      debug: jest.fn(),
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+    };
+    const logger = new Logger({ logger: sink, level: 'warn' });
+
+    logger.debug('Pool stats');
+    logger.info('Reconciliation completed');
+    logger.warn('Pool pressure detected');
+
+    expect(sink.debug).not.toHaveBeenCalled();
+    expect(sink.info).not.toHaveBeenCalled();
+    expect(sink.warn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not log anything when disabled', () => {
+    new Logger({ enabled: false, format: 'json' }).error('Cleanup failed');
+
+    expect(consoleSpies.error).not.toHaveBeenCalled();
+  });
+});
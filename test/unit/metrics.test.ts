@@ -0,0 +1,170 @@
+import { get } from 'http';
+import { Histogram, renderPrometheus } from '../../src/metrics/prometheus';
+import { collectMetrics, MetricsSnapshot } from '../../src/metrics/collector';
+import { MetricsServer } from '../../src/metrics/server';
+import { Logger } from '../../src/utils/logger';
+
+function createSnapshot(overrides: Partial<MetricsSnapshot> = {}): MetricsSnapshot {
+  return {
+    queueName: 'emails',
+    queueType: 'bullmq',
+    stats: {
+      queueName: 'emails',
+      pendingDispatch: 0,
+      pending: 4,
+      delayed: 3,
+      processing: 1,
+      completed: 10,
+      failed: 0,
+      stuck: 0,
+      dead: 2,
+      total: 20,
+    },
+    circuitBreaker: {
+      state: 'open',
+      failureCount: 5,
+      successCount: 0,
+      totalCalls: 5,
+      failureRate: 100,
+      lastFailureTime: 0,
+    },
+    pool: { total: 3, idle: 2, waiting: 0 },
+    adapter: { writeFailures: { create: 1, status: 0, error: 0 } },
+    ...overrides,
+  };
+}
+
+function scrape(port: number, path: string): Promise<{ status?: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    get({ host: '127.0.0.1', port, path }, (res) => {
+      let body = '';
+      res.on('data', (chunk: Buffer) => (body += chunk.toString()));
+      res.on('end', () => resolve({ status: res.statusCode, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('Metrics', () => {
+  describe('renderPrometheus', () => {
+    it('should render help, type and escaped labels', () => {
+      const text = renderPrometheus([
+        {
+          name: 'jobguard_jobs',
+          help: 'Tracked jobs',
+          type: 'gauge',
+          samples: [{ labels: { queue: 'a"b\\c' }, value: 3 }],
+        },
+      ]);
+
+      expect(text).toBe(
+        '# HELP jobguard_jobs Tracked jobs\n' +
+          '# TYPE jobguard_jobs gauge\n' +
+          'jobguard_jobs{queue="a\\"b\\\\c"} 3\n'
+      );
+    });
+
+    it('should render cumulative histogram buckets', () => {
+      const histogram = new Histogram([1, 0.5]);
+      histogram.observe(0.2);
+      histogram.observe(0.7);
+      histogram.observe(3);
+
+      const text = renderPrometheus([
+        {
+          name: 'duration_seconds',
+          help: 'Duration',
+          type: 'histogram',
+          samples: [{ histogram: histogram.snapshot() }],
+        },
+      ]);
+
+      expect(text).toContain('duration_seconds_bucket{le="0.5"} 1\n');
+      expect(text).toContain('duration_seconds_bucket{le="1"} 2\n');
+      expect(text).toContain('duration_seconds_bucket{le="+Inf"} 3\n');
+      expect(text).toContain('duration_seconds_sum 3.9\n');
+      expect(text).toContain('duration_seconds_count 3\n');
+    });
+  });
+
+  describe('collectMetrics', () => {
+    it('should expose job counts, breaker state, pool and write failures', () => {
+      const text = renderPrometheus(collectMetrics(createSnapshot()));
+
+      expect(text).toContain(
+        'jobguard_postgres_up{queue="emails",queue_type="bullmq"} 1'
+      );
+      expect(text).toContain(
+        'jobguard_jobs{queue="emails",queue_type="bullmq",status="dead"} 2'
+      );
+      expect(text).toContain(
+        'jobguard_jobs{queue="emails",queue_type="bullmq",status="delayed"} 3'
+      );
+      expect(text).toContain(
+        'jobguard_circuit_breaker_state{queue="emails",queue_type="bullmq",state="open"} 1'
+      );
+      expect(text).toContain(
+        'jobguard_circuit_breaker_state{queue="emails",queue_type="bullmq",state="closed"} 0'
+      );
+      expect(text).toContain(
+        'jobguard_postgres_pool_idle{queue="emails",queue_type="bullmq"} 2'
+      );
+      expect(text).toContain(
+        'jobguard_persistence_write_failures_total{queue="emails",queue_type="bullmq",operation="create"} 1'
+      );
+      expect(text).not.toContain('jobguard_reconciliation');
+      expect(text).not.toContain('jobguard_spool');
+    });
+
+    it('should expose reconciliation outcomes and the adaptive interval', () => {
+      const text = renderPrometheus(
+        collectMetrics(
+          createSnapshot({
+            stats: undefined,
+            reconciler: {
+              runs: { success: 3, failure: 1, skipped: 0 },
+              durationSeconds: new Histogram([1]).snapshot(),
+              jobs: { stuck: 4, orphaned: 1, reEnqueued: 4, failed: 1, dead: 0 },
+              currentIntervalMs: 45000,
+            },
+          })
+        )
+      );
+
+      expect(text).toContain(
+        'jobguard_postgres_up{queue="emails",queue_type="bullmq"} 0'
+      );
+      expect(text).not.toContain('jobguard_jobs{');
+      expect(text).toContain(
+        'jobguard_reconciliation_runs_total{queue="emails",queue_type="bullmq",outcome="failure"} 1'
+      );
+      expect(text).toContain(
+        'jobguard_reconciliation_jobs_total{queue="emails",queue_type="bullmq",result="re_enqueued"} 4'
+      );
+      expect(text).toContain(
+        'jobguard_reconciliation_interval_seconds{queue="emails",queue_type="bullmq"} 45'
+      );
+    });
+  });
+
+  describe('MetricsServer', () => {
+    it('should serve metrics on the configured path only', async () => {
+      const server = new MetricsServer(
+        async () => 'jobguard_up 1\n',
+        new Logger({ enabled: false }),
+        { port: 0, host: '127.0.0.1' }
+      );
+      await server.start();
+
+      try {
+        const port = server.getPort() as number;
+        await expect(scrape(port, '/metrics')).resolves.toEqual({
+          status: 200,
+          body: 'jobguard_up 1\n',
+        });
+        await expect(scrape(port, '/other')).resolves.toMatchObject({ status: 404 });
+      } finally {
+        await server.stop();
+      }
+    });
+  });
+});
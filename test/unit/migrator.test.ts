@@ -0,0 +1,125 @@
+import { Pool } from 'pg';
+import { Migrator, resolveSchemaDir } from '../../src/persistence/migrator';
+import { Logger } from '../../src/utils/logger';
+import { MigrationError, SchemaVersionError } from '../../src/errors/errors';
+
+describe('Migrator', () => {
+  let mockClient: { query: jest.Mock; release: jest.Mock };
+  let mockPool: Pool;
+  let mockLogger: jest.Mocked<Logger>;
+  let migrator: Migrator;
+
+  // Route queries by their SQL text so tests only describe the interesting parts
+  function respondWith(appliedVersions: number[], failOn?: string): void {
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (failOn && sql.includes(failOn)) {
+        throw new Error('syntax error');
+      }
+      if (sql.includes('SELECT version FROM "jobguard_schema_migrations"')) {
+        return { rows: appliedVersions.map((version) => ({ version })) };
+      }
+      return { rows: [] };
+    });
+  }
+
+  beforeEach(() => {
+    mockClient = { query: jest.fn(), release: jest.fn() };
+    mockPool = {
+      connect: jest.fn().mockResolvedValue(mockClient),
+      query: jest.fn(),
+    } as unknown as Pool;
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+
+    migrator = new Migrator(mockPool, mockLogger);
+  });
+
+  it('should load numbered migrations from the schema directory in order', () => {
+    const migrations = migrator.loadMigrations();
+
+    expect(resolveSchemaDir()).toMatch(/schema$/);
+    expect(migrations[0]).toMatchObject({ version: 1, name: 'initial' });
+    migrations.forEach((migration, index) => {
+      expect(migration.version).toBe(index + 1);
+    });
+  });
+
+  it('should apply pending migrations inside transactions under an advisory lock', async () => {
+    respondWith([]);
+
+    const result = await migrator.migrate();
+    const statements = mockClient.query.mock.calls.map(([sql]) => String(sql).trim());
+
+    expect(statements[0]).toContain('pg_advisory_lock');
+    expect(statements).toContain('BEGIN');
+    expect(statements).toContain('COMMIT');
+    expect(statements[statements.length - 1]).toContain('pg_advisory_unlock');
+    expect(result.applied).toEqual(
+      migrator.loadMigrations().map((migration) => migration.version)
+    );
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  it('should skip migrations that were already applied', async () => {
+    const versions = migrator.loadMigrations().map((migration) => migration.version);
+    respondWith(versions);
+
+    const result = await migrator.migrate();
+
+    expect(result.applied).toEqual([]);
+    expect(mockClient.query).not.toHaveBeenCalledWith('BEGIN');
+  });
+
+  it('should refuse to migrate a database with a newer schema', async () => {
+    respondWith([migrator.getLatestVersion() + 1]);
+
+    await expect(migrator.migrate()).rejects.toThrow(SchemaVersionError);
+    expect(mockClient.query).toHaveBeenLastCalledWith(
+      expect.stringContaining('pg_advisory_unlock'),
+      expect.any(Array)
+    );
+  });
+
+  it('should roll back and report a failing migration', async () => {
+    respondWith([], 'CREATE TABLE IF NOT EXISTS "jobguard_jobs"');
+
+    await expect(migrator.migrate()).rejects.toThrow(MigrationError);
+    expect(mockClient.query).toHaveBeenCalledWith('ROLLBACK');
+  });
+
+  describe('verify', () => {
+    it('should refuse to start on a database that was never migrated', async () => {
+      (mockPool.query as jest.Mock).mockResolvedValueOnce({ rows: [{ exists: false }] });
+
+      const error = await migrator.verify().catch((caught: unknown) => caught);
+
+      expect(error).toBeInstanceOf(SchemaVersionError);
+      expect(error).toMatchObject({
+        databaseVersion: 0,
+        expectedVersion: migrator.getLatestVersion(),
+      });
+      expect((error as Error).message).toContain('no JobGuard migrations recorded');
+      expect((error as Error).message).toContain('Run JobGuard.migrate()');
+    });
+
+    it('should reject a schema newer than the library expects', async () => {
+      (mockPool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ exists: true }] })
+        .mockResolvedValueOnce({ rows: [{ version: migrator.getLatestVersion() + 1 }] });
+
+      await expect(migrator.verify()).rejects.toThrow('is newer than this version');
+    });
+
+    it('should reject a schema with pending migrations', async () => {
+      (mockPool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ exists: true }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      await expect(migrator.verify()).rejects.toThrow('Run JobGuard.migrate()');
+    });
+  });
+});
@@ -0,0 +1,249 @@
+import { Reconciler } from '../../src/reconciliation/reconciler';
+import { JobGuardManager } from '../../src/manager';
+import { JobGuard } from '../../src/jobguard';
+import { JobRepository } from '../../src/persistence/repository';
+import { QueueAdapter } from '../../src/types/adapter';
+import { JobRecord, JobStats, JobStatus } from '../../src/types/job';
+import { MetricFamily } from '../../src/metrics/prometheus';
+import { Logger } from '../../src/utils/logger';
+import { JobGuardError, ReconciliationError } from '../../src/errors/errors';
+
+function createJobRecord(queueName: string, id: string): JobRecord {
+  return {
+    id,
+    queue_name: queueName,
+    queue_type: 'bullmq',
+    job_id: `job-${id}`,
+    data: {},
+    status: JobStatus.STUCK,
+    attempts: 1,
+    max_attempts: 3,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+function createAdapter(queueName: string) {
+  return {
+    queueName,
+    queueType: 'bullmq' as const,
+    getJobState: jest.fn().mockResolvedValue('waiting'),
+    reEnqueueJob: jest.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe('Multiple queues', () => {
+  describe('Reconciler', () => {
+    let repository: {
+      getAndMarkStuckJobs: jest.Mock;
+      getOrphanCandidates: jest.Mock;
+      claimOrphanedJob: jest.Mock;
+    };
+    let adapters: Array<ReturnType<typeof createAdapter>>;
+    let reconciler: Reconciler;
+
+    beforeEach(() => {
+      // Each run schedules the next one; keep those timers from firing
+      jest.useFakeTimers();
+
+      repository = {
+        getAndMarkStuckJobs: jest
+          .fn()
+          .mockResolvedValue({ toReEnqueue: [], deadJobs: [] }),
+        getOrphanCandidates: jest.fn().mockResolvedValue([]),
+        claimOrphanedJob: jest.fn(),
+      };
+      adapters = [createAdapter('emails'), createAdapter('payments')];
+      reconciler = new Reconciler(
+        repository as unknown as JobRepository,
+        adapters as unknown as QueueAdapter[],
+        { rateLimitPerSecond: 1000 },
+        new Logger({ enabled: false })
+      );
+    });
+
+    afterEach(async () => {
+      await reconciler.stop();
+      jest.useRealTimers();
+    });
+
+    function reconciledQueues(): string[] {
+      return repository.getAndMarkStuckJobs.mock.calls.map(([queueName]) => queueName);
+    }
+
+    it('should reconcile every queue with its own adapter and metrics', async () => {
+      repository.getAndMarkStuckJobs.mockImplementation(async (queueName: string) => ({
+        toReEnqueue: queueName === 'payments' ? [createJobRecord('payments', '1')] : [],
+        deadJobs: [],
+      }));
+
+      await reconciler.forceRun();
+
+      expect(reconciledQueues()).toEqual(['emails', 'payments']);
+      expect(adapters[0]?.reEnqueueJob).not.toHaveBeenCalled();
+      expect(adapters[1]?.reEnqueueJob).toHaveBeenCalledTimes(1);
+      expect(reconciler.getMetrics('emails').jobs.stuck).toBe(0);
+      expect(reconciler.getMetrics('payments').jobs).toMatchObject({
+        stuck: 1,
+        reEnqueued: 1,
+      });
+    });
+
+    it('should start each run at the next queue', async () => {
+      await reconciler.forceRun();
+      await reconciler.forceRun();
+
+      expect(reconciledQueues()).toEqual(['emails', 'payments', 'payments', 'emails']);
+    });
+
+    it('should keep reconciling other queues when one fails', async () => {
+      repository.getAndMarkStuckJobs.mockImplementation(async (queueName: string) => {
+        if (queueName === 'emails') throw new Error('connection lost');
+        return { toReEnqueue: [], deadJobs: [] };
+      });
+
+      await expect(reconciler.forceRun()).rejects.toThrow(ReconciliationError);
+
+      expect(reconciledQueues()).toEqual(['emails', 'payments']);
+      expect(reconciler.getStatus('emails').consecutiveFailures).toBe(1);
+      expect(reconciler.getStatus('payments')).toMatchObject({
+        consecutiveFailures: 0,
+        lastSuccessAt: expect.any(Date),
+      });
+    });
+
+    it('should force a run of a single queue', async () => {
+      await reconciler.forceRun('payments');
+
+      expect(reconciledQueues()).toEqual(['payments']);
+    });
+
+    it('should add and remove queues', async () => {
+      reconciler.addQueue(createAdapter('reports') as unknown as QueueAdapter);
+      await reconciler.removeQueue('emails');
+
+      await reconciler.forceRun();
+
+      expect(reconciledQueues().sort()).toEqual(['payments', 'reports']);
+      expect(() => reconciler.getStatus('emails')).toThrow(
+        'Queue emails is not reconciled'
+      );
+    });
+
+    it('should reject a queue name that is already reconciled', () => {
+      expect(() =>
+        reconciler.addQueue(createAdapter('emails') as unknown as QueueAdapter)
+      ).toThrow('Queue emails is already reconciled');
+    });
+  });
+
+  describe('JobGuardManager', () => {
+    function createStats(queueName: string, completed: number, dead: number): JobStats {
+      return {
+        queueName,
+        pendingDispatch: 0,
+        pending: 1,
+        delayed: 1,
+        processing: 0,
+        completed,
+        failed: 0,
+        stuck: 0,
+        dead,
+        total: 2 + completed + dead,
+      };
+    }
+
+    function createGuard(queueName: string, overrides: Record<string, unknown> = {}) {
+      return {
+        getQueueName: () => queueName,
+        isInitialized: () => true,
+        ...overrides,
+      } as unknown as JobGuard;
+    }
+
+    function createManager(guards: JobGuard[]): JobGuardManager {
+      return Object.assign(Object.create(JobGuardManager.prototype), {
+        initialized: true,
+        guards,
+        logger: new Logger({ enabled: false }),
+      }) as JobGuardManager;
+    }
+
+    it('should sum job counts over queues and keep the per-queue counts', async () => {
+      const manager = createManager([
+        createGuard('emails', {
+          getStats: jest.fn().mockResolvedValue(createStats('emails', 5, 1)),
+        }),
+        createGuard('payments', {
+          getStats: jest.fn().mockResolvedValue(createStats('payments', 2, 0)),
+        }),
+      ]);
+
+      const stats = await manager.getStats();
+
+      expect(stats.totals).toEqual({
+        pendingDispatch: 0,
+        pending: 2,
+        delayed: 2,
+        processing: 0,
+        completed: 7,
+        failed: 0,
+        stuck: 0,
+        dead: 1,
+        total: 12,
+      });
+      expect(stats.queues.map((queue) => queue.queueName)).toEqual([
+        'emails',
+        'payments',
+      ]);
+    });
+
+    it('should render the metrics of all queues with one HELP line per metric', async () => {
+      const family = (queue: string): MetricFamily => ({
+        name: 'jobguard_postgres_up',
+        help: 'Whether the last job count query succeeded',
+        type: 'gauge',
+        samples: [{ labels: { queue }, value: 1 }],
+      });
+      const manager = createManager([
+        createGuard('emails', {
+          collectMetricFamilies: jest.fn().mockResolvedValue([family('emails')]),
+        }),
+        createGuard('payments', {
+          collectMetricFamilies: jest.fn().mockResolvedValue([family('payments')]),
+        }),
+      ]);
+
+      const output = await manager.metrics();
+
+      expect(output.match(/# HELP jobguard_postgres_up/g)).toHaveLength(1);
+      expect(output).toContain('jobguard_postgres_up{queue="emails"} 1');
+      expect(output).toContain('jobguard_postgres_up{queue="payments"} 1');
+    });
+
+    it('should return the JobGuard of a managed queue', () => {
+      const payments = createGuard('payments');
+      const manager = createManager([createGuard('emails'), payments]);
+
+      expect(manager.get('payments')).toBe(payments);
+      expect(manager.getQueueNames()).toEqual(['emails', 'payments']);
+      expect(() => manager.get('reports')).toThrow(JobGuardError);
+    });
+
+    it('should throw when not initialized', async () => {
+      const manager = Object.assign(Object.create(JobGuardManager.prototype), {
+        initialized: false,
+      }) as JobGuardManager;
+
+      await expect(manager.getStats()).rejects.toThrow(
+        'JobGuardManager is not initialized'
+      );
+    });
+
+    it('should require at least one queue', async () => {
+      await expect(
+        JobGuardManager.create([], { postgres: 'postgresql://localhost/jobguard' })
+      ).rejects.toThrow('At least one queue instance is required');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Reconciler } from '../../src/reconciliation/reconciler';
+import { JobRepository } from '../../src/persistence/repository';
+import { QueueAdapter } from '../../src/types/adapter';
+import { JobRecord, JobStatus } from '../../src/types/job';
+import { Logger } from '../../src/utils/logger';
+import { ReconciliationError } from '../../src/errors/errors';
+
+function createJobRecord(id: string, status: JobStatus = JobStatus.PENDING): JobRecord {
+  return {
+    id,
+    queue_name: 'emails',
+    queue_type: 'bullmq',
+    job_id: `job-${id}`,
+    data: {},
+    status,
+    attempts: 0,
+    max_attempts: 3,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+describe('Orphan detection', () => {
+  let repository: {
+    getAndMarkStuckJobs: jest.Mock;
+    getOrphanCandidates: jest.Mock;
+    claimOrphanedJob: jest.Mock;
+  };
+  let adapter: {
+    queueName: string;
+    queueType: 'bullmq';
+    getJobState: jest.Mock;
+    reEnqueueJob: jest.Mock;
+  };
+  let mockLogger: jest.Mocked<Logger>;
+  let reconciler: Reconciler;
+
+  function createReconciler(orphanBatchSize = 2): Reconciler {
+    return new Reconciler(
+      repository as unknown as JobRepository,
+      adapter as unknown as QueueAdapter,
+      { orphanDetection: true, orphanBatchSize, rateLimitPerSecond: 1000 },
+      mockLogger
+    );
+  }
+
+  beforeEach(() => {
+    // Each run schedules the next one; keep those timers from firing
+    jest.useFakeTimers();
+
+    repository = {
+      getAndMarkStuckJobs: jest.fn().mockResolvedValue({ toReEnqueue: [], deadJobs: [] }),
+      getOrphanCandidates: jest.fn().mockResolvedValue([]),
+      claimOrphanedJob: jest.fn(async (id: string) =>
+        createJobRecord(id, JobStatus.STUCK)
+      ),
+    };
+    adapter = {
+      queueName: 'emails',
+      queueType: 'bullmq',
+      getJobState: jest.fn().mockResolvedValue(null),
+      reEnqueueJob: jest.fn().mockResolvedValue(undefined),
+    };
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+
+    reconciler = createReconciler();
+  });
+
+  afterEach(async () => {
+    await reconciler.stop();
+    jest.useRealTimers();
+  });
+
+  it('should re-enqueue pending jobs that are missing from Redis', async () => {
+    repository.getOrphanCandidates.mockResolvedValueOnce([createJobRecord('a')]);
+
+    await reconciler.forceRun();
+
+    expect(adapter.getJobState).toHaveBeenCalledWith('job-a');
+    expect(repository.claimOrphanedJob).toHaveBeenCalledWith('a');
+    expect(adapter.reEnqueueJob).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'a', status: JobStatus.STUCK }),
+      { requeueIfMissing: true }
+    );
+  });
+
+  it('should count orphaned jobs in the reconciler metrics', async () => {
+    repository.getOrphanCandidates.mockResolvedValueOnce([createJobRecord('a')]);
+
+    await reconciler.forceRun();
+
+    const metrics = reconciler.getMetrics();
+    expect(metrics.runs).toEqual({ success: 1, failure: 0, skipped: 0 });
+    expect(metrics.jobs).toMatchObject({ orphaned: 1, reEnqueued: 1, failed: 0 });
+    expect(metrics.durationSeconds.count).toBe(1);
+  });
+
+  it('should leave pending jobs that still exist in Redis alone', async () => {
+    repository.getOrphanCandidates.mockResolvedValueOnce([createJobRecord('a')]);
+    adapter.getJobState.mockResolvedValueOnce('waiting');
+
+    await reconciler.forceRun();
+
+    expect(repository.claimOrphanedJob).not.toHaveBeenCalled();
+    expect(adapter.reEnqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('should skip jobs that were picked up before they could be claimed', async () => {
+    repository.getOrphanCandidates.mockResolvedValueOnce([createJobRecord('a')]);
+    repository.claimOrphanedJob.mockResolvedValueOnce(null);
+
+    await reconciler.forceRun();
+
+    expect(adapter.reEnqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('should count stubbed jobs the claim marked dead instead of re-enqueueing them', async () => {
+    repository.getOrphanCandidates.mockResolvedValueOnce([createJobRecord('a')]);
+    repository.claimOrphanedJob.mockResolvedValueOnce({
+      ...createJobRecord('a', JobStatus.DEAD),
+      data: { __jobguard_stub: true },
+    });
+
+    await reconciler.forceRun();
+
+    expect(adapter.reEnqueueJob).not.toHaveBeenCalled();
+    expect(reconciler.getMetrics().jobs).toMatchObject({
+      orphaned: 1,
+      reEnqueued: 0,
+      dead: 1,
+    });
+  });
+
+  it('should page through the backlog and wrap around at the end', async () => {
+    repository.getOrphanCandidates
+      .mockResolvedValueOnce([createJobRecord('a'), createJobRecord('b')])
+      .mockResolvedValueOnce([createJobRecord('c')])
+      .mockResolvedValueOnce([]);
+    adapter.getJobState.mockResolvedValue('waiting');
+
+    await reconciler.forceRun();
+    await reconciler.forceRun();
+    await reconciler.forceRun();
+
+    const cursors = repository.getOrphanCandidates.mock.calls.map((call) => call[4]);
+    expect(cursors).toEqual([undefined, 'b', undefined]);
+  });
+
+  it('should not check Redis unless orphan detection is enabled', async () => {
+    reconciler = new Reconciler(
+      repository as unknown as JobRepository,
+      adapter as unknown as QueueAdapter,
+      {},
+      mockLogger
+    );
+
+    await reconciler.forceRun();
+
+    expect(repository.getOrphanCandidates).not.toHaveBeenCalled();
+  });
+
+  it('should reject an orphan threshold below 60 seconds', () => {
+    expect(
+      () =>
+        new Reconciler(
+          repository as unknown as JobRepository,
+          adapter as unknown as QueueAdapter,
+          { orphanThresholdMs: 1000 },
+          mockLogger
+        )
+    ).toThrow(ReconciliationError);
+  });
+});
@@ -0,0 +1,241 @@
+import { ClientBase, Pool } from 'pg';
+import { BullMQAdapter } from '../../src/adapters/bullmq.adapter';
+import { BeeAdapter } from '../../src/adapters/bee.adapter';
+import { JobGuard } from '../../src/jobguard';
+import { JobRepository } from '../../src/persistence/repository';
+import { OutboxDispatcher } from '../../src/reconciliation/outbox-dispatcher';
+import { QueueAdapter } from '../../src/types/adapter';
+import { JobRecord, JobStatus } from '../../src/types/job';
+import { BeeQueue, BullMQQueue } from '../../src/types/queue-types';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Logger } from '../../src/utils/logger';
+import { JobGuardError, JobValidationError } from '../../src/errors/errors';
+
+function createJobRecord(id: string, overrides: Partial<JobRecord> = {}): JobRecord {
+  return {
+    id,
+    queue_name: 'emails',
+    queue_type: 'bullmq',
+    job_id: `job-${id}`,
+    job_name: 'send',
+    data: { id },
+    status: JobStatus.PENDING_DISPATCH,
+    attempts: 0,
+    max_attempts: 3,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Transactional outbox', () => {
+  const logger = new Logger({ enabled: false });
+
+  describe('enqueueing in the caller transaction', () => {
+    let repository: { enqueueJob: jest.Mock };
+    const client = {} as ClientBase;
+
+    beforeEach(() => {
+      repository = { enqueueJob: jest.fn().mockResolvedValue(null) };
+    });
+
+    function createBullMQAdapter(): BullMQAdapter {
+      return new BullMQAdapter(
+        { name: 'emails' } as unknown as BullMQQueue,
+        repository as unknown as JobRepository,
+        logger,
+        { limits: { maxJobDataSize: 100, oversizedJobPolicy: 'skip' } }
+      );
+    }
+
+    it('should store the queue options apart from the job ID', async () => {
+      await createBullMQAdapter().enqueueJob(
+        client,
+        'send',
+        { to: 'a@example.com' },
+        { jobId: 'order-42', attempts: 5, delay: 1000 }
+      );
+
+      expect(repository.enqueueJob).toHaveBeenCalledWith(
+        client,
+        'emails',
+        'bullmq',
+        'order-42',
+        'send',
+        { to: 'a@example.com' },
+        5,
+        { attempts: 5, delay: 1000 },
+        undefined
+      );
+    });
+
+    it('should generate a job ID when none is given', async () => {
+      await createBullMQAdapter().enqueueJob(client, 'send', {});
+
+      const [, , , jobId, , , maxAttempts] = repository.enqueueJob.mock.calls[0];
+      expect(jobId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(maxAttempts).toBe(1);
+    });
+
+    it('should reject oversized jobs even when the policy skips them', async () => {
+      await expect(
+        createBullMQAdapter().enqueueJob(client, 'send', { blob: 'x'.repeat(200) })
+      ).rejects.toThrow(JobValidationError);
+
+      expect(repository.enqueueJob).not.toHaveBeenCalled();
+    });
+
+    it('should count Bee-Queue retries after the first attempt', async () => {
+      const adapter = new BeeAdapter(
+        { name: 'emails' } as unknown as BeeQueue,
+        repository as unknown as JobRepository,
+        logger
+      );
+
+      await adapter.enqueueJob(client, undefined, {}, { retries: 4 });
+
+      expect(repository.enqueueJob.mock.calls[0][6]).toBe(5);
+    });
+  });
+
+  describe('JobRepository.dispatchJobs', () => {
+    let client: { query: jest.Mock; release: jest.Mock };
+    let repository: JobRepository;
+
+    beforeEach(() => {
+      client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+      const pool = { connect: jest.fn().mockResolvedValue(client) };
+      repository = new JobRepository(
+        pool as unknown as Pool,
+        new CircuitBreaker({ threshold: 5, timeout: 60000, name: 'test' }),
+        logger
+      );
+    });
+
+    it('should mark only the jobs added to the queue, in the same transaction', async () => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes('FOR UPDATE SKIP LOCKED')
+          ? { rows: [createJobRecord('1'), createJobRecord('2')] }
+          : { rows: [] }
+      );
+
+      const result = await repository.dispatchJobs('emails', 'bullmq', 10, async (jobs) =>
+        jobs.slice(0, 1)
+      );
+
+      expect(result).toEqual({ found: 2, dispatched: 1 });
+      const statements = client.query.mock.calls.map(
+        ([sql]) => sql.trim().split(/\s/)[0]
+      );
+      expect(statements).toEqual(['BEGIN', 'SELECT', 'WITH', 'COMMIT']);
+      expect(client.query.mock.calls[2][1]).toEqual([['1'], expect.any(String)]);
+    });
+
+    it('should roll back when adding to the queue throws', async () => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes('FOR UPDATE SKIP LOCKED')
+          ? { rows: [createJobRecord('1')] }
+          : { rows: [] }
+      );
+
+      await expect(
+        repository.dispatchJobs('emails', 'bullmq', 10, async () => {
+          throw new Error('Redis unavailable');
+        })
+      ).rejects.toThrow('Redis unavailable');
+
+      expect(client.query).toHaveBeenLastCalledWith('ROLLBACK');
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('OutboxDispatcher', () => {
+    let repository: { dispatchJobs: jest.Mock };
+    let adapter: { queueName: string; queueType: 'bullmq'; dispatchJob: jest.Mock };
+    let dispatcher: OutboxDispatcher;
+    let batches: JobRecord[][];
+
+    beforeEach(() => {
+      batches = [];
+      repository = {
+        dispatchJobs: jest.fn(async (_queueName, _queueType, _limit, dispatch) => {
+          const jobs = batches.shift() || [];
+          const dispatched = jobs.length > 0 ? await dispatch(jobs) : [];
+          return { found: jobs.length, dispatched: dispatched.length };
+        }),
+      };
+      adapter = {
+        queueName: 'emails',
+        queueType: 'bullmq',
+        dispatchJob: jest.fn().mockResolvedValue(undefined),
+      };
+      dispatcher = new OutboxDispatcher(
+        repository as unknown as JobRepository,
+        adapter as unknown as QueueAdapter,
+        logger,
+        { batchSize: 2 }
+      );
+    });
+
+    it('should drain full batches until a short one', async () => {
+      batches = [[createJobRecord('1'), createJobRecord('2')], [createJobRecord('3')]];
+
+      await dispatcher.dispatch();
+
+      expect(repository.dispatchJobs).toHaveBeenCalledTimes(2);
+      expect(adapter.dispatchJob).toHaveBeenCalledTimes(3);
+    });
+
+    it('should stop at the first job that fails, keeping the order', async () => {
+      batches = [[createJobRecord('1'), createJobRecord('2')], [createJobRecord('3')]];
+      adapter.dispatchJob.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+      await dispatcher.dispatch();
+
+      expect(adapter.dispatchJob).toHaveBeenCalledTimes(1);
+      expect(repository.dispatchJobs).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not run two dispatches at once', async () => {
+      batches = [[createJobRecord('1')]];
+
+      await Promise.all([dispatcher.dispatch(), dispatcher.dispatch()]);
+
+      expect(repository.dispatchJobs).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('BullMQAdapter.dispatchJob', () => {
+    it('should add the job with its ID and recorded options, bypassing the wrapper', async () => {
+      const add = jest.fn().mockResolvedValue({ id: 'job-1' });
+      const adapter = new BullMQAdapter(
+        { name: 'emails', add } as unknown as BullMQQueue,
+        {} as JobRepository,
+        logger
+      );
+      adapter.wrapAddMethod();
+
+      await adapter.dispatchJob(
+        createJobRecord('1', { opts: { attempts: 5, delay: 500 } })
+      );
+
+      expect(add).toHaveBeenCalledWith(
+        'send',
+        { id: '1' },
+        { attempts: 5, delay: 500, jobId: 'job-1' }
+      );
+    });
+  });
+
+  describe('jobGuard.enqueue', () => {
+    it('should require the outbox to be enabled', async () => {
+      const jobGuard = Object.assign(Object.create(JobGuard.prototype), {
+        initialized: true,
+      }) as JobGuard;
+
+      await expect(jobGuard.enqueue({} as ClientBase, 'send', {})).rejects.toThrow(
+        JobGuardError
+      );
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import { Pool } from 'pg';
+import {
+  addRanges,
+  PartitionManager,
+  startOfRange,
+} from '../../src/persistence/partitions';
+import { Migrator } from '../../src/persistence/migrator';
+import { createQueries } from '../../src/persistence/queries';
+import { DEFAULT_SCHEMA_NAMES } from '../../src/persistence/schema-names';
+import { Logger } from '../../src/utils/logger';
+import { MigrationError } from '../../src/errors/errors';
+
+describe('Partitioned layout', () => {
+  let client: { query: jest.Mock; release: jest.Mock };
+  let pool: Pool;
+  let logger: jest.Mocked<Logger>;
+  let partitions: Array<{ name: string; upper_bound: string }>;
+  let liveJobs: Set<string>;
+  let partitioned: boolean;
+
+  // Route queries by their SQL text so tests only describe the interesting parts
+  beforeEach(() => {
+    partitions = [];
+    liveJobs = new Set();
+    partitioned = false;
+    client = {
+      query: jest.fn(async (sql: string) => {
+        if (sql.includes('pg_try_advisory_lock')) return { rows: [{ acquired: true }] };
+        if (sql.includes('SELECT NOW()')) {
+          return { rows: [{ now: new Date('2026-10-21T15:00:00Z') }] };
+        }
+        if (sql.includes('pg_inherits')) return { rows: partitions };
+        if (sql.includes("relkind = 'p'")) return { rows: [{ partitioned }] };
+        if (sql.includes('SELECT EXISTS')) {
+          const name = Array.from(liveJobs).find((partition) => sql.includes(partition));
+          return { rows: [{ live: name !== undefined }] };
+        }
+        return { rows: [] };
+      }),
+      release: jest.fn(),
+    };
+    pool = {
+      connect: jest.fn().mockResolvedValue(client),
+      query: client.query,
+    } as unknown as Pool;
+    logger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+  });
+
+  function statements(): string[] {
+    return client.query.mock.calls.map(([sql]) =>
+      String(sql).replace(/\s+/g, ' ').trim()
+    );
+  }
+
+  describe('ranges', () => {
+    it('should start days at midnight UTC and weeks on Monday', () => {
+      const sunday = new Date('2026-10-25T23:30:00Z');
+
+      expect(startOfRange(sunday, 'day').toISOString()).toBe('2026-10-25T00:00:00.000Z');
+      expect(startOfRange(sunday, 'week').toISOString()).toBe('2026-10-19T00:00:00.000Z');
+      expect(addRanges(startOfRange(sunday, 'week'), 'week', 1).toISOString()).toBe(
+        '2026-10-26T00:00:00.000Z'
+      );
+    });
+  });
+
+  describe('createPartitions', () => {
+    it('should continue after the range of a converted table', async () => {
+      partitions = [
+        { name: 'jobguard_jobs_legacy', upper_bound: '2026-10-23T00:00:00Z' },
+      ];
+      const manager = new PartitionManager(pool, logger, DEFAULT_SCHEMA_NAMES, {
+        partitionsAhead: 2,
+      });
+
+      await expect(manager.createPartitions()).resolves.toEqual([
+        'jobguard_jobs_p20261023',
+      ]);
+      expect(statements()).toContainEqual(
+        'CREATE TABLE IF NOT EXISTS "jobguard_jobs_p20261023" PARTITION OF "jobguard_jobs" ' +
+          "FOR VALUES FROM ('2026-10-23T00:00:00.000Z') TO ('2026-10-24T00:00:00.000Z')"
+      );
+    });
+
+    it('should create weekly partitions from the current week', async () => {
+      const manager = new PartitionManager(pool, logger, DEFAULT_SCHEMA_NAMES, {
+        interval: 'week',
+        partitionsAhead: 1,
+      });
+
+      await expect(manager.createPartitions()).resolves.toEqual([
+        'jobguard_jobs_p20261019',
+        'jobguard_jobs_p20261026',
+      ]);
+    });
+
+    it('should leave partitions to the instance holding the lock', async () => {
+      client.query.mockResolvedValueOnce({ rows: [{ acquired: false }] });
+      const manager = new PartitionManager(pool, logger);
+
+      await expect(manager.createPartitions()).resolves.toEqual([]);
+      expect(client.query).toHaveBeenCalledTimes(1);
+      expect(client.release).toHaveBeenCalled();
+    });
+  });
+
+  describe('dropExpiredPartitions', () => {
+    it('should drop expired partitions and keep the ones with live jobs', async () => {
+      partitions = [
+        { name: 'jobguard_jobs_p20261001', upper_bound: '2026-10-02T00:00:00Z' },
+        { name: 'jobguard_jobs_p20261002', upper_bound: '2026-10-03T00:00:00Z' },
+        { name: 'jobguard_jobs_p20261020', upper_bound: '2026-10-21T00:00:00Z' },
+      ];
+      liveJobs.add('jobguard_jobs_p20261002');
+      const manager = new PartitionManager(pool, logger);
+
+      await expect(
+        manager.dropExpiredPartitions({ completed: 7, failed: 7, dead: 7 })
+      ).resolves.toEqual(['jobguard_jobs_p20261001']);
+
+      const drops = statements().filter((sql) => sql.startsWith('DROP TABLE'));
+      expect(drops).toEqual(['DROP TABLE "jobguard_jobs_p20261001"']);
+      expect(statements()).toContainEqual(
+        'DELETE FROM "jobguard_job_events" WHERE job_uuid IN ' +
+          '(SELECT id FROM "jobguard_jobs_p20261001")'
+      );
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(logger.warn).toHaveBeenCalledWith(expect.any(String), {
+        partitions: ['jobguard_jobs_p20261002'],
+      });
+    });
+
+    it('should archive the jobs of partitions past the shortest retention', async () => {
+      partitions = [
+        { name: 'jobguard_jobs_p20261017', upper_bound: '2026-10-18T00:00:00Z' },
+        { name: 'jobguard_jobs_p20261020', upper_bound: '2026-10-21T00:00:00Z' },
+      ];
+      const manager = new PartitionManager(
+        pool,
+        logger,
+        DEFAULT_SCHEMA_NAMES,
+        {},
+        {
+          enabled: true,
+        }
+      );
+
+      await expect(
+        manager.dropExpiredPartitions({ completed: 2, failed: 2, dead: 90 })
+      ).resolves.toEqual(['jobguard_jobs_p20261017']);
+
+      const sql = statements();
+      const archived = sql.findIndex((statement) =>
+        statement.startsWith('INSERT INTO "jobguard_jobs_archive"')
+      );
+      expect(sql[archived]).toContain('FROM "jobguard_jobs_p20261017" AS jobs');
+      expect(archived).toBeLessThan(sql.indexOf('DROP TABLE "jobguard_jobs_p20261017"'));
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('SELECT EXISTS'),
+        [
+          new Date('2026-10-19T15:00:00Z'),
+          new Date('2026-10-19T15:00:00Z'),
+          new Date('2026-07-23T15:00:00Z'),
+        ]
+      );
+    });
+  });
+
+  describe('queries', () => {
+    it('should skip duplicates through the trigger instead of ON CONFLICT', () => {
+      const queries = createQueries(DEFAULT_SCHEMA_NAMES, true);
+
+      expect(queries.INSERT_JOB).not.toContain('ON CONFLICT');
+      expect(queries.INSERT_OUTBOX_JOB).not.toContain('ON CONFLICT');
+      expect(queries.BACKFILL_JOB).not.toContain('ON CONFLICT');
+      expect(createQueries(DEFAULT_SCHEMA_NAMES).INSERT_JOB).toContain('ON CONFLICT');
+    });
+  });
+
+  describe('Migrator', () => {
+    it('should convert the table by attaching it as the legacy partition', async () => {
+      const migrator = new Migrator(pool, logger, DEFAULT_SCHEMA_NAMES, {
+        enabled: true,
+      });
+      const versions = migrator.loadMigrations().map((migration) => migration.version);
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT version FROM')) {
+          return { rows: versions.map((version) => ({ version })) };
+        }
+        if (sql.includes('pg_index')) {
+          return {
+            rows: [
+              {
+                name: 'jobguard_jobs_pkey',
+                definition: 'CREATE UNIQUE INDEX ...',
+                is_unique: true,
+              },
+              {
+                name: 'idx_cleanup',
+                definition: 'CREATE INDEX idx_cleanup ...',
+                is_unique: false,
+              },
+            ],
+          };
+        }
+        if (sql.includes('SELECT NOW()')) {
+          return { rows: [{ now: new Date('2026-10-21T15:00:00Z') }] };
+        }
+        if (sql.includes('pg_try_advisory_lock')) return { rows: [{ acquired: true }] };
+        return { rows: [] };
+      });
+
+      await migrator.migrate();
+
+      const sql = statements();
+      const order = [
+        'CREATE INDEX CONCURRENTLY IF NOT EXISTS "idx_job_id" ON "jobguard_jobs" (id)',
+        `ALTER TABLE "jobguard_jobs" VALIDATE CONSTRAINT "jobguard_jobs_legacy_bound"`,
+        'BEGIN',
+        'ALTER TABLE "jobguard_jobs" RENAME TO "jobguard_jobs_legacy"',
+        'ALTER INDEX "idx_cleanup" RENAME TO "jobguard_jobs_legacy_idx2"',
+        'CREATE TABLE "jobguard_jobs" (LIKE "jobguard_jobs_legacy" INCLUDING DEFAULTS ' +
+          'INCLUDING CONSTRAINTS) PARTITION BY RANGE (created_at)',
+        'CREATE INDEX idx_cleanup ...',
+        'ALTER TABLE "jobguard_jobs" ATTACH PARTITION "jobguard_jobs_legacy" ' +
+          "FOR VALUES FROM (MINVALUE) TO ('2026-10-23T00:00:00.000Z')",
+        'COMMIT',
+      ].map((statement) => sql.indexOf(statement));
+
+      expect(order).not.toContain(-1);
+      expect(order).toEqual([...order].sort((a, b) => a - b));
+      expect(sql).not.toContain('CREATE UNIQUE INDEX ...');
+      expect(sql.some((statement) => statement.includes('pg_advisory_xact_lock'))).toBe(
+        true
+      );
+    });
+
+    it('should refuse to start when the table layout does not match', async () => {
+      partitioned = true;
+      const migrator = new Migrator(pool, logger);
+      (pool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ exists: true }] })
+        .mockResolvedValueOnce({ rows: [{ version: migrator.getLatestVersion() }] });
+
+      const verify = migrator.verify();
+
+      await expect(verify).rejects.toThrow(MigrationError);
+      await expect(verify).rejects.toThrow(/"jobguard_jobs" is partitioned/);
+    });
+  });
+});
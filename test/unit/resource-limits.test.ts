@@ -1,7 +1,11 @@
-import { BaseAdapter } from '../../src/adapters/base.adapter';
+import { BaseAdapter, RedisJob } from '../../src/adapters/base.adapter';
 import { JobRepository } from '../../src/persistence/repository';
 import { Logger } from '../../src/utils/logger';
 import { BullQueue } from '../../src/types/queue-types';
+import { LimitsConfig } from '../../src/types/config';
+import { JobGuardError, JobValidationError } from '../../src/errors/errors';
+import { isJobDataStub } from '../../src/utils/job-limits';
+import { ListenerHealth } from '../../src/types/health';
 
 // Create a concrete test adapter
 class TestAdapter extends BaseAdapter {
@@ -11,6 +15,16 @@ class TestAdapter extends BaseAdapter {
   wrapAddMethod(): void {}
   attachEventListeners(): void {}
   async reEnqueueJob(): Promise<void> {}
+  async dispatchJob(): Promise<void> {}
+  async getJobState(): Promise<string | null> {
+    return null;
+  }
+  async getListenerHealth(): Promise<ListenerHealth> {
+    return { connected: true, state: 'ready' };
+  }
+  protected async fetchJobsFromRedis(): Promise<RedisJob[]> {
+    return [];
+  }
 }
 
 describe('Resource Limit Validation', () => {
@@ -200,4 +214,107 @@ describe('Resource Limit Validation', () => {
       }).toThrow('Job data exceeds 1048576 bytes (1MB limit)');
     });
   });
+
+  describe('Configured Limits', () => {
+    function createAdapter(limits: LimitsConfig): TestAdapter {
+      return new TestAdapter(mockQueue, mockRepository, mockLogger, { limits });
+    }
+
+    it('should honor a configured maxJobNameLength', () => {
+      const limited = createAdapter({ maxJobNameLength: 10 });
+
+      expect(() => {
+        (limited as any).validateJobData('a'.repeat(11), {});
+      }).toThrow('Job name exceeds 10 characters');
+    });
+
+    it('should honor a configured maxJobDataSize', () => {
+      const limited = createAdapter({ maxJobDataSize: 1024 });
+
+      expect(() => {
+        (limited as any).validateJobData('test', { payload: 'x'.repeat(2048) });
+      }).toThrow('Job data exceeds 1024 bytes (1KB limit)');
+    });
+
+    it('should throw JobValidationError with a reason', () => {
+      expect(() => {
+        (adapter as any).validateJobData('a'.repeat(256), {});
+      }).toThrow(expect.objectContaining({ reason: 'name_too_long' }));
+    });
+
+    it('should reject a maxJobNameLength larger than the job_name column', () => {
+      expect(() => createAdapter({ maxJobNameLength: 256 })).toThrow(JobGuardError);
+    });
+
+    it('should reject an unknown oversized job policy', () => {
+      expect(() => createAdapter({ oversizedJobPolicy: 'drop' as any })).toThrow(
+        'limits.oversizedJobPolicy must be one of'
+      );
+    });
+  });
+
+  describe('Oversized Job Policy', () => {
+    const oversizedData = { payload: 'x'.repeat(2 * 1024 * 1024) };
+
+    it('should skip persistence with a warning by default', () => {
+      expect((adapter as any).applyLimits('test', oversizedData)).toBeNull();
+      expect(mockLogger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('skipping persistence'),
+        expect.objectContaining({ reason: 'data_too_large' })
+      );
+    });
+
+    it('should throw JobValidationError when policy is reject', () => {
+      const rejecting = new TestAdapter(mockQueue, mockRepository, mockLogger, {
+        limits: { oversizedJobPolicy: 'reject' },
+      });
+
+      expect(() => (rejecting as any).applyLimits('test', oversizedData)).toThrow(
+        JobValidationError
+      );
+    });
+
+    it('should persist a hashed stub when policy is stub', () => {
+      const stubbing = new TestAdapter(mockQueue, mockRepository, mockLogger, {
+        limits: { oversizedJobPolicy: 'stub' },
+      });
+
+      const result = (stubbing as any).applyLimits('test', oversizedData);
+
+      expect(result.jobName).toBe('test');
+      expect(isJobDataStub(result.data)).toBe(true);
+      expect(result.data).toMatchObject({
+        reason: 'data_too_large',
+        size: expect.any(Number),
+        sha256: expect.stringMatching(/^[a-f0-9]{64}$/),
+      });
+    });
+
+    it('should truncate an overlong name but keep valid data when policy is stub', () => {
+      const stubbing = new TestAdapter(mockQueue, mockRepository, mockLogger, {
+        limits: { oversizedJobPolicy: 'stub', maxJobNameLength: 10 },
+      });
+
+      const result = (stubbing as any).applyLimits('a'.repeat(20), { small: true });
+
+      expect(result).toEqual({ jobName: 'a'.repeat(10), data: { small: true } });
+    });
+
+    it('should skip data that cannot be serialized even when policy is stub', () => {
+      const stubbing = new TestAdapter(mockQueue, mockRepository, mockLogger, {
+        limits: { oversizedJobPolicy: 'stub' },
+      });
+      const circular: Record<string, unknown> = {};
+      circular.self = circular;
+
+      expect((stubbing as any).applyLimits('test', circular)).toBeNull();
+    });
+
+    it('should pass valid jobs through unchanged', () => {
+      expect((adapter as any).applyLimits('test', { ok: true })).toEqual({
+        jobName: 'test',
+        data: { ok: true },
+      });
+    });
+  });
 });
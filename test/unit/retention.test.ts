@@ -0,0 +1,187 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Pool } from 'pg';
+import {
+  appendToArchiveFile,
+  resolveRetention,
+  validateArchiveConfig,
+} from '../../src/persistence/retention';
+import { JobRepository } from '../../src/persistence/repository';
+import { buildListJobsQuery } from '../../src/persistence/queries';
+import { CircuitBreaker } from '../../src/utils/circuit-breaker';
+import { Logger } from '../../src/utils/logger';
+import { JobGuardError } from '../../src/errors/errors';
+
+describe('Retention and archive', () => {
+  describe('resolveRetention', () => {
+    it('should fall back to retentionDays for statuses without their own', () => {
+      expect(resolveRetention()).toEqual({ completed: 7, failed: 7, dead: 7 });
+      expect(resolveRetention({ retentionDays: 3, retention: { dead: 90 } })).toEqual({
+        completed: 3,
+        failed: 3,
+        dead: 90,
+      });
+    });
+
+    it('should reject retention periods that are not positive', () => {
+      expect(() => resolveRetention({ retention: { completed: 0 } })).toThrow(
+        JobGuardError
+      );
+      expect(() => resolveRetention({ retention: { dead: NaN } })).toThrow(JobGuardError);
+    });
+  });
+
+  describe('validateArchiveConfig', () => {
+    it('should require a file path for the file target', () => {
+      expect(() => validateArchiveConfig({ enabled: true, target: 'file' })).toThrow(
+        JobGuardError
+      );
+      expect(() =>
+        validateArchiveConfig({ enabled: false, target: 'file' })
+      ).not.toThrow();
+      expect(() => validateArchiveConfig({ enabled: true })).not.toThrow();
+    });
+  });
+
+  describe('appendToArchiveFile', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'jobguard-archive-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should append one JSON object per line', async () => {
+      const filePath = join(directory, 'nested', 'jobs.ndjson');
+
+      await appendToArchiveFile(filePath, [{ job_id: '1' }, { job_id: '2' }]);
+      await appendToArchiveFile(filePath, [{ job_id: '3', events: [] }]);
+
+      const lines = readFileSync(filePath, 'utf8').trimEnd().split('\n');
+      expect(lines.map((line) => JSON.parse(line))).toEqual([
+        { job_id: '1' },
+        { job_id: '2' },
+        { job_id: '3', events: [] },
+      ]);
+    });
+  });
+
+  describe('JobRepository', () => {
+    let client: { query: jest.Mock; release: jest.Mock };
+    let mockPool: { query: jest.Mock; connect: jest.Mock };
+    let repository: JobRepository;
+    const retention = { completed: 2, failed: 7, dead: 90 };
+
+    beforeEach(() => {
+      client = { query: jest.fn().mockResolvedValue({ rows: [] }), release: jest.fn() };
+      mockPool = {
+        query: jest.fn().mockResolvedValue({ rows: [{ count: 3 }] }),
+        connect: jest.fn().mockResolvedValue(client),
+      };
+      repository = new JobRepository(
+        mockPool as unknown as Pool,
+        new CircuitBreaker({ threshold: 5, timeout: 60000, name: 'test' }),
+        new Logger({ enabled: false })
+      );
+    });
+
+    it('should delete or archive expired jobs with the retention of each status', async () => {
+      await expect(repository.deleteOldJobs(retention)).resolves.toBe(3);
+      await expect(repository.archiveOldJobs(retention)).resolves.toBe(3);
+
+      const [[deleteSql, deleteValues], [archiveSql, archiveValues]] = mockPool.query.mock
+        .calls as [[string, unknown[]], [string, unknown[]]];
+      expect(deleteValues).toEqual([2, 7, 90]);
+      expect(deleteSql).not.toContain('jobguard_jobs_archive');
+      expect(archiveValues).toEqual([2, 7, 90]);
+      expect(archiveSql).toContain('INSERT INTO "jobguard_jobs_archive"');
+      expect(archiveSql).toContain('DELETE FROM "jobguard_job_events"');
+    });
+
+    it('should export expired jobs in batches and delete them once written', async () => {
+      let batches = 1;
+      client.query.mockImplementation(async (sql: string) => {
+        if (sql.includes('AS line') && batches-- > 0) {
+          return {
+            rows: [
+              { id: 'a', line: { job_id: '1', events: [] } },
+              { id: 'b', line: { job_id: '2', events: [] } },
+            ],
+          };
+        }
+        return { rows: [] };
+      });
+      const write = jest.fn().mockResolvedValue(undefined);
+
+      await expect(repository.exportOldJobs(retention, 2, write)).resolves.toBe(2);
+
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(write).toHaveBeenCalledWith([
+        { job_id: '1', events: [] },
+        { job_id: '2', events: [] },
+      ]);
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM "jobguard_jobs"'),
+        [['a', 'b']]
+      );
+      expect(client.query).toHaveBeenCalledWith(
+        expect.stringContaining('AS line'),
+        [2, 7, 90, 2]
+      );
+    });
+
+    it('should keep jobs whose export failed', async () => {
+      client.query.mockImplementation(async (sql: string) =>
+        sql.includes('AS line')
+          ? { rows: [{ id: 'a', line: { job_id: '1' } }] }
+          : { rows: [] }
+      );
+      const write = jest.fn().mockRejectedValue(new Error('disk full'));
+
+      await expect(repository.exportOldJobs(retention, 10, write)).rejects.toThrow(
+        'disk full'
+      );
+      expect(client.query).toHaveBeenCalledWith('ROLLBACK');
+      expect(client.query).not.toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM'),
+        expect.anything()
+      );
+    });
+
+    it('should find archived runs of a job when asked to', async () => {
+      mockPool.query.mockResolvedValue({ rows: [] });
+
+      await repository.getJob('emails', 'bullmq', 'job-1');
+      await repository.getJob('emails', 'bullmq', 'job-1', true);
+      await repository.getJobEvents('emails', 'bullmq', 'job-1', true);
+
+      const [[jobSql], [archivedJobSql], [eventsSql]] = mockPool.query.mock.calls as [
+        [string],
+        [string],
+        [string],
+      ];
+      expect(jobSql).not.toContain('jobguard_jobs_archive');
+      expect(archivedJobSql).toContain('FROM "jobguard_jobs_archive"');
+      expect(eventsSql).toContain(
+        'jsonb_populate_recordset(NULL::"jobguard_job_events", archived.events)'
+      );
+    });
+  });
+
+  describe('buildListJobsQuery', () => {
+    it('should list archived jobs together with tracked jobs', () => {
+      const query = buildListJobsQuery('emails', 'bullmq', { includeArchived: true }, 50);
+
+      expect(query.text).toContain('UNION ALL');
+      expect(query.text).toContain('archived_at FROM "jobguard_jobs_archive"');
+      expect(query.text).toContain('WHERE queue_name = $1 AND queue_type = $2\n');
+      expect(buildListJobsQuery('emails', 'bullmq', {}, 50).text).not.toContain(
+        'UNION ALL'
+      );
+    });
+  });
+});
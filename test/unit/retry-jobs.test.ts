@@ -0,0 +1,150 @@
+import { JobGuard } from '../../src/jobguard';
+import { JobRecord, JobStatus } from '../../src/types/job';
+import { Logger } from '../../src/utils/logger';
+import { JobGuardError, JobNotFoundError } from '../../src/errors/errors';
+
+function createJobRecord(id: string, status: JobStatus, attempts = 3): JobRecord {
+  return {
+    id,
+    queue_name: 'emails',
+    queue_type: 'bullmq',
+    job_id: `job-${id}`,
+    data: {},
+    status,
+    attempts,
+    max_attempts: 3,
+    created_at: new Date(),
+    updated_at: new Date(),
+  };
+}
+
+describe('Manual retry', () => {
+  let repository: {
+    getJob: jest.Mock;
+    listJobs: jest.Mock;
+    claimJobForRetry: jest.Mock;
+    releaseRetryClaim: jest.Mock;
+  };
+  let adapter: { queueName: string; queueType: 'bullmq'; reEnqueueJob: jest.Mock };
+  let jobGuard: JobGuard;
+
+  beforeEach(() => {
+    repository = {
+      getJob: jest.fn(),
+      listJobs: jest.fn(),
+      claimJobForRetry: jest.fn(
+        async (id: string, resetAttempts: boolean, maxAttempts?: number) => ({
+          ...createJobRecord(id, JobStatus.STUCK, resetAttempts ? 0 : 3),
+          max_attempts: maxAttempts ?? 3,
+        })
+      ),
+      releaseRetryClaim: jest.fn().mockResolvedValue(undefined),
+    };
+    adapter = {
+      queueName: 'emails',
+      queueType: 'bullmq',
+      reEnqueueJob: jest.fn().mockResolvedValue(undefined),
+    };
+
+    // Skip create() so no PostgreSQL connection is needed
+    jobGuard = Object.assign(Object.create(JobGuard.prototype) as JobGuard, {
+      initialized: true,
+      repository,
+      adapter,
+      logger: new Logger({ enabled: false }),
+    });
+  });
+
+  it('should claim a dead job and re-enqueue it through the adapter', async () => {
+    repository.getJob
+      .mockResolvedValueOnce(createJobRecord('1', JobStatus.DEAD))
+      .mockResolvedValueOnce(createJobRecord('1', JobStatus.PENDING, 0));
+
+    const job = await jobGuard.retryJob('job-1', { maxAttempts: 5, triggeredBy: 'ops' });
+
+    expect(job.status).toBe(JobStatus.PENDING);
+    expect(repository.claimJobForRetry).toHaveBeenCalledWith('1', true, 5, {
+      triggeredBy: 'ops',
+      resetAttempts: true,
+      maxAttempts: 5,
+    });
+    expect(adapter.reEnqueueJob).toHaveBeenCalledWith(
+      expect.objectContaining({ id: '1', status: JobStatus.STUCK }),
+      { requeueIfMissing: true, replaceFinished: true, attempts: 5 }
+    );
+    expect(repository.releaseRetryClaim).not.toHaveBeenCalled();
+  });
+
+  it('should reject jobs that are missing or not failed', async () => {
+    repository.getJob.mockResolvedValueOnce(null);
+    await expect(jobGuard.retryJob('job-1')).rejects.toThrow(JobNotFoundError);
+
+    repository.getJob.mockResolvedValueOnce(createJobRecord('1', JobStatus.PROCESSING));
+    await expect(jobGuard.retryJob('job-1')).rejects.toThrow(JobGuardError);
+
+    await expect(jobGuard.retryJob('job-1', { maxAttempts: 0 })).rejects.toThrow(
+      'maxAttempts must be a positive integer'
+    );
+    expect(repository.claimJobForRetry).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to retry a job whose data was stubbed', async () => {
+    const stubbed = {
+      ...createJobRecord('1', JobStatus.DEAD),
+      data: { __jobguard_stub: true, size: 2000000, sha256: 'abc' },
+    };
+    repository.getJob.mockResolvedValueOnce(stubbed);
+    await expect(jobGuard.retryJob('job-1')).rejects.toThrow(/stub/);
+
+    repository.listJobs.mockResolvedValueOnce({ jobs: [stubbed] });
+    await expect(jobGuard.retryJobs()).resolves.toEqual({ retried: 0, failed: 1 });
+
+    expect(repository.claimJobForRetry).not.toHaveBeenCalled();
+    expect(adapter.reEnqueueJob).not.toHaveBeenCalled();
+  });
+
+  it('should restore the job when the re-enqueue fails', async () => {
+    const dead = createJobRecord('1', JobStatus.DEAD);
+    repository.getJob.mockResolvedValueOnce(dead);
+    adapter.reEnqueueJob.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    await expect(jobGuard.retryJob('job-1')).rejects.toThrow('Redis unavailable');
+    expect(repository.releaseRetryClaim).toHaveBeenCalledWith(dead);
+  });
+
+  it('should retry every matching job across pages', async () => {
+    repository.listJobs
+      .mockResolvedValueOnce({
+        jobs: [
+          createJobRecord('1', JobStatus.DEAD),
+          createJobRecord('2', JobStatus.DEAD),
+        ],
+        nextCursor: 'next',
+      })
+      .mockResolvedValueOnce({ jobs: [createJobRecord('3', JobStatus.DEAD)] });
+    repository.getJob.mockImplementation(async (_queue, _type, jobId: string) =>
+      createJobRecord(jobId.replace('job-', ''), JobStatus.PENDING, 0)
+    );
+    adapter.reEnqueueJob
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('boom'));
+
+    const result = await jobGuard.retryJobs({ jobName: 'send', limit: 2 });
+
+    expect(result).toEqual({ retried: 2, failed: 1 });
+    expect(repository.listJobs).toHaveBeenLastCalledWith('emails', 'bullmq', {
+      jobName: 'send',
+      status: [JobStatus.DEAD],
+      limit: 2,
+      cursor: 'next',
+      includeArchived: false,
+    });
+  });
+
+  it('should only accept failed and dead statuses for bulk retries', async () => {
+    await expect(jobGuard.retryJobs({ status: JobStatus.COMPLETED })).rejects.toThrow(
+      JobGuardError
+    );
+    expect(repository.listJobs).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import { Pool } from 'pg';
+import {
+  DEFAULT_SCHEMA_NAMES,
+  renderMigrationSql,
+  resolveSchemaNames,
+} from '../../src/persistence/schema-names';
+import { createQueries } from '../../src/persistence/queries';
+import { loadMigrations } from '../../src/persistence/migrator';
+import { LeaderElection } from '../../src/reconciliation/leader-election';
+import { Logger } from '../../src/utils/logger';
+import { JobGuardError, MigrationError } from '../../src/errors/errors';
+
+describe('Schema names', () => {
+  it('should keep the historical names by default', () => {
+    expect(DEFAULT_SCHEMA_NAMES).toMatchObject({
+      schema: undefined,
+      jobs: '"jobguard_jobs"',
+      events: '"jobguard_job_events"',
+      migrations: '"jobguard_schema_migrations"',
+      lockPrefix: 'jobguard',
+      indexPrefix: 'idx',
+    });
+  });
+
+  it('should qualify the tables and name every object after a custom table', () => {
+    const names = resolveSchemaNames({ schema: 'Billing', tableName: 'invoice_jobs' });
+
+    expect(names).toMatchObject({
+      schema: '"Billing"',
+      jobs: '"Billing"."invoice_jobs"',
+      events: '"Billing"."invoice_jobs_events"',
+      archive: '"Billing"."invoice_jobs_archive"',
+      migrations: '"Billing"."invoice_jobs_migrations"',
+      lockPrefix: 'jobguard:Billing.invoice_jobs',
+      indexPrefix: 'idx_invoice_jobs',
+    });
+    expect(createQueries(names).INSERT_JOB).toContain(
+      'INSERT INTO "Billing"."invoice_jobs"'
+    );
+  });
+
+  it('should escape quotes inside names', () => {
+    expect(resolveSchemaNames({ tableName: 'my"jobs' }).jobs).toBe('"my""jobs"');
+  });
+
+  it('should reject names PostgreSQL would truncate', () => {
+    expect(() => resolveSchemaNames({ tableName: 'j'.repeat(60) })).toThrow(
+      JobGuardError
+    );
+    expect(() => resolveSchemaNames({ schema: '' })).toThrow(JobGuardError);
+  });
+
+  it('should render every shipped migration without placeholders left', () => {
+    const names = resolveSchemaNames({ schema: 'billing', tableName: 'invoice_jobs' });
+
+    const sql = loadMigrations(names)
+      .map((migration) => migration.sql)
+      .join('\n');
+
+    expect(sql).not.toContain('{{');
+    expect(sql).toContain('"idx_invoice_jobs_cleanup"');
+    expect(sql).toContain('"billing"."invoice_jobs_set_updated_at"()');
+  });
+
+  it('should reject unknown placeholders', () => {
+    expect(() =>
+      renderMigrationSql('SELECT * FROM {{jobz}}', DEFAULT_SCHEMA_NAMES)
+    ).toThrow(MigrationError);
+  });
+
+  it('should scope leader election locks to a custom table', async () => {
+    const client = {
+      query: jest.fn().mockResolvedValue({ rows: [{ acquired: true }] }),
+      release: jest.fn(),
+      on: jest.fn(),
+      removeListener: jest.fn(),
+    };
+    const pool = { connect: jest.fn().mockResolvedValue(client) } as unknown as Pool;
+    const election = new LeaderElection(
+      pool,
+      new Logger({ enabled: false }),
+      resolveSchemaNames({ tableName: 'invoice_jobs' })
+    );
+
+    await election.acquire('emails');
+
+    expect(client.query).toHaveBeenCalledWith(
+      expect.stringContaining('pg_try_advisory_lock'),
+      [expect.any(Number), 'jobguard:.invoice_jobs:reconciler:emails']
+    );
+  });
+});
@@ -0,0 +1,287 @@
+import {
+  existsSync,
+  mkdtempSync,
+  promises as fsPromises,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from 'fs';
+import { hostname, tmpdir } from 'os';
+import { join } from 'path';
+import { JobSpool, JobWrite } from '../../src/persistence/spool';
+import { JobRepository } from '../../src/persistence/repository';
+import { JobStatus } from '../../src/types/job';
+import { Logger } from '../../src/utils/logger';
+import { SpoolLockedError } from '../../src/errors/errors';
+
+function createWrite(jobId: string, op: 'create' | 'status' = 'create'): JobWrite {
+  return op === 'create'
+    ? { op, queueName: 'emails', queueType: 'bullmq', jobId, data: { jobId } }
+    : {
+        op,
+        queueName: 'emails',
+        queueType: 'bullmq',
+        jobId,
+        status: JobStatus.COMPLETED,
+      };
+}
+
+describe('JobSpool', () => {
+  let directory: string;
+  let repository: {
+    createJob: jest.Mock;
+    updateJobStatus: jest.Mock;
+    updateJobError: jest.Mock;
+  };
+  let mockLogger: jest.Mocked<Logger>;
+  let spool: JobSpool;
+
+  async function openSpool(maxBytes?: number): Promise<JobSpool> {
+    const instance = new JobSpool(repository as unknown as JobRepository, mockLogger, {
+      enabled: true,
+      directory,
+      maxBytes,
+    });
+    await instance.open('bullmq-emails');
+    return instance;
+  }
+
+  beforeEach(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'jobguard-spool-'));
+    repository = {
+      createJob: jest.fn().mockResolvedValue({}),
+      updateJobStatus: jest.fn().mockResolvedValue({}),
+      updateJobError: jest.fn().mockResolvedValue({}),
+    };
+    mockLogger = {
+      info: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn(),
+      debug: jest.fn(),
+    } as unknown as jest.Mocked<Logger>;
+
+    spool = await openSpool();
+  });
+
+  afterEach(async () => {
+    await spool.close();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should replay spooled writes in order and empty the file', async () => {
+    const traceContext = {
+      traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01',
+    };
+    await spool.append({ ...createWrite('1'), traceContext } as JobWrite);
+    await spool.append(createWrite('1', 'status'));
+    expect(spool.getMetrics()).toMatchObject({ depth: 2 });
+
+    await spool.replay();
+
+    expect(repository.createJob).toHaveBeenCalledWith(
+      'emails',
+      'bullmq',
+      '1',
+      undefined,
+      { jobId: '1' },
+      undefined,
+      traceContext,
+      undefined,
+      undefined,
+      undefined,
+      undefined
+    );
+    expect(repository.updateJobStatus).toHaveBeenCalledWith(
+      'emails',
+      'bullmq',
+      '1',
+      JobStatus.COMPLETED,
+      { writeId: expect.any(String) }
+    );
+    expect(repository.createJob.mock.invocationCallOrder[0]).toBeLessThan(
+      repository.updateJobStatus.mock.invocationCallOrder[0] as number
+    );
+    expect(spool.isEmpty()).toBe(true);
+    expect(spool.getMetrics()).toMatchObject({ bytes: 0, replayedEntries: 2 });
+    expect(readFileSync(join(directory, 'bullmq-emails.ndjson'), 'utf8')).toBe('');
+  });
+
+  it('should keep writes when PostgreSQL is still unavailable', async () => {
+    await spool.append(createWrite('1'));
+    await spool.append(createWrite('2'));
+    repository.createJob
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('Circuit breaker is open'));
+
+    await spool.replay();
+
+    expect(spool.getMetrics()).toMatchObject({ depth: 1, replayedEntries: 1 });
+    expect(spool.getMetrics().oldestEntryAgeMs).toBeGreaterThanOrEqual(0);
+
+    await spool.replay();
+
+    expect(repository.createJob).toHaveBeenLastCalledWith(
+      'emails',
+      'bullmq',
+      '2',
+      undefined,
+      { jobId: '2' },
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined
+    );
+    expect(spool.isEmpty()).toBe(true);
+  });
+
+  it('should drop writes that PostgreSQL rejects outright', async () => {
+    await spool.append(createWrite('1'));
+    await spool.append(createWrite('2'));
+    repository.createJob.mockRejectedValueOnce(
+      Object.assign(new Error('invalid input syntax'), { code: '22P02' })
+    );
+
+    await spool.replay();
+
+    expect(spool.isEmpty()).toBe(true);
+    expect(spool.getMetrics()).toMatchObject({ replayedEntries: 1, droppedEntries: 1 });
+  });
+
+  it('should drop writes once the spool is full', async () => {
+    await spool.close();
+    spool = await openSpool(200);
+
+    await expect(spool.append(createWrite('1'))).resolves.toBe(true);
+    await expect(spool.append(createWrite('2'))).resolves.toBe(false);
+
+    expect(spool.getMetrics()).toMatchObject({ depth: 1, droppedEntries: 1 });
+  });
+
+  it('should refuse a spool file another process holds', async () => {
+    const other = new JobSpool(repository as unknown as JobRepository, mockLogger, {
+      enabled: true,
+      directory,
+    });
+    await expect(other.open('bullmq-emails')).rejects.toThrow(SpoolLockedError);
+
+    writeFileSync(
+      join(directory, 'bull-emails.ndjson.lock'),
+      `${hostname()}:${process.ppid}`
+    );
+    await expect(other.open('bull-emails')).rejects.toThrow(SpoolLockedError);
+  });
+
+  it('should take over the lock of a process that is gone', async () => {
+    const lockPath = join(directory, 'bull-emails.ndjson.lock');
+    writeFileSync(lockPath, `${hostname()}:99999999`);
+    const other = new JobSpool(repository as unknown as JobRepository, mockLogger, {
+      enabled: true,
+      directory,
+    });
+
+    await other.open('bull-emails');
+
+    expect(readFileSync(lockPath, 'utf8')).toBe(`${hostname()}:${process.pid}`);
+    await other.close();
+    expect(existsSync(lockPath)).toBe(false);
+  });
+
+  it('should resume replay after a restart', async () => {
+    await spool.append(createWrite('1'));
+    await spool.append(createWrite('2'));
+    await spool.append(createWrite('3'));
+    repository.createJob
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('connection refused'));
+    await spool.replay();
+    await spool.close();
+
+    // Simulate a crash in the middle of an append
+    const filePath = join(directory, 'bullmq-emails.ndjson');
+    writeFileSync(filePath, readFileSync(filePath, 'utf8') + '{"op":"crea');
+
+    repository.createJob.mockClear();
+    spool = await openSpool();
+    expect(spool.getMetrics()).toMatchObject({ depth: 2 });
+
+    await spool.replay();
+
+    expect(repository.createJob.mock.calls.map((call) => call[2])).toEqual(['2', '3']);
+    expect(spool.isEmpty()).toBe(true);
+  });
+
+  it('should neither skip nor repeat writes when a crash interrupts compaction', async () => {
+    await spool.append(createWrite('1'));
+    await spool.append(createWrite('2'));
+    await spool.append(createWrite('3'));
+    repository.createJob
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce(new Error('connection refused'));
+
+    // Simulate a crash before the compacted file replaces the spool file
+    const rename = fsPromises.rename;
+    const spy = jest
+      .spyOn(fsPromises, 'rename')
+      .mockImplementation(async (from, to) =>
+        String(to).endsWith('.ndjson')
+          ? Promise.reject(new Error('process killed'))
+          : rename(from, to)
+      );
+    await spool.replay();
+    spy.mockRestore();
+    await spool.close();
+
+    repository.createJob.mockClear();
+    spool = await openSpool();
+    await spool.replay();
+
+    expect(repository.createJob.mock.calls.map((call) => call[2])).toEqual(['2', '3']);
+    expect(spool.isEmpty()).toBe(true);
+  });
+
+  it('should replay updates applied before a crash with the same write ID', async () => {
+    await spool.append({
+      op: 'error',
+      queueName: 'emails',
+      queueType: 'bullmq',
+      jobId: '1',
+      errorMessage: 'boom',
+    });
+
+    // Simulate a crash after the update, before the replay progress is saved
+    const rename = jest
+      .spyOn(fsPromises, 'rename')
+      .mockRejectedValue(new Error('killed'));
+    const truncate = jest
+      .spyOn(fsPromises, 'truncate')
+      .mockRejectedValue(new Error('killed'));
+    await spool.replay();
+    rename.mockRestore();
+    truncate.mockRestore();
+    await spool.close();
+
+    spool = await openSpool();
+    await spool.replay();
+
+    const [first, second] = repository.updateJobError.mock.calls as unknown[][];
+    expect(first?.[4]).toEqual({ writeId: expect.any(String) });
+    expect(second?.[4]).toEqual(first?.[4]);
+  });
+
+  it('should save the replay progress once per batch', async () => {
+    await spool.append(createWrite('1'));
+    await spool.append(createWrite('2'));
+    await spool.append(createWrite('3'));
+    const writeFile = jest.spyOn(fsPromises, 'writeFile');
+
+    await spool.replay();
+
+    const progressWrites = writeFile.mock.calls.filter(([path]) =>
+      String(path).endsWith('.applied.tmp')
+    );
+    writeFile.mockRestore();
+    expect(progressWrites).toHaveLength(1);
+  });
+});
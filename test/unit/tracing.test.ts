@@ -0,0 +1,172 @@
+import {
+  captureTraceContext,
+  setTracingApi,
+  TraceContext,
+  withSpan,
+} from '../../src/utils/tracing';
+
+const TRACEPARENT = '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01';
+
+interface RecordedSpan {
+  name: string;
+  options: { attributes?: Record<string, unknown>; links?: unknown[] };
+  attributes: Record<string, unknown>;
+  exceptions: unknown[];
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+/**
+ * Just enough of @opentelemetry/api to record spans and propagate traceparent
+ */
+function createFakeApi(activeTraceparent?: string) {
+  const spans: RecordedSpan[] = [];
+
+  const api = {
+    trace: {
+      getTracer: () => ({
+        startActiveSpan: (
+          name: string,
+          options: RecordedSpan['options'],
+          fn: (span: unknown) => unknown
+        ) => {
+          const recorded: RecordedSpan = {
+            name,
+            options,
+            attributes: {},
+            exceptions: [],
+            ended: false,
+          };
+          spans.push(recorded);
+          return fn({
+            setAttribute: (key: string, value: unknown) => {
+              recorded.attributes[key] = value;
+            },
+            recordException: (exception: unknown) => recorded.exceptions.push(exception),
+            setStatus: (status: RecordedSpan['status']) => {
+              recorded.status = status;
+            },
+            end: () => {
+              recorded.ended = true;
+            },
+          });
+        },
+      }),
+      getSpanContext: (context: { traceparent?: string }) =>
+        context.traceparent
+          ? { traceId: context.traceparent.split('-')[1], spanId: 'span', traceFlags: 1 }
+          : undefined,
+      isSpanContextValid: () => true,
+    },
+    context: { active: () => ({ traceparent: activeTraceparent }) },
+    propagation: {
+      inject: (context: { traceparent?: string }, carrier: TraceContext) => {
+        if (context.traceparent) carrier.traceparent = context.traceparent;
+      },
+      extract: (_context: unknown, carrier: TraceContext) => ({
+        traceparent: carrier.traceparent,
+      }),
+    },
+    ROOT_CONTEXT: {},
+    SpanStatusCode: { ERROR: 2 },
+  };
+
+  return { api, spans };
+}
+
+describe('Tracing', () => {
+  afterEach(() => {
+    setTracingApi(undefined);
+  });
+
+  describe('without @opentelemetry/api', () => {
+    beforeEach(() => {
+      setTracingApi(null);
+    });
+
+    it('should run the function without a span', async () => {
+      const fn = jest.fn().mockResolvedValue('done');
+
+      await expect(withSpan('jobguard.test', {}, fn)).resolves.toBe('done');
+      expect(fn).toHaveBeenCalledWith();
+    });
+
+    it('should not capture a trace context', () => {
+      expect(captureTraceContext()).toBeUndefined();
+    });
+  });
+
+  describe('with @opentelemetry/api', () => {
+    it('should wrap the function in a span with defined attributes only', async () => {
+      const { api, spans } = createFakeApi();
+      setTracingApi(api);
+
+      await withSpan(
+        'jobguard.repository.getJob',
+        { 'jobguard.queue': 'emails', 'jobguard.job_id': undefined },
+        async (span) => {
+          span?.setAttribute('jobguard.found', true);
+        }
+      );
+
+      expect(spans).toEqual([
+        expect.objectContaining({
+          name: 'jobguard.repository.getJob',
+          options: { attributes: { 'jobguard.queue': 'emails' } },
+          attributes: { 'jobguard.found': true },
+          ended: true,
+        }),
+      ]);
+    });
+
+    it('should record errors on the span and rethrow them', async () => {
+      const { api, spans } = createFakeApi();
+      setTracingApi(api);
+      const error = new Error('connection refused');
+
+      await expect(
+        withSpan('jobguard.reconcile', {}, async () => {
+          throw error;
+        })
+      ).rejects.toBe(error);
+
+      expect(spans[0]).toMatchObject({
+        exceptions: [error],
+        status: { code: 2, message: 'connection refused' },
+        ended: true,
+      });
+    });
+
+    it('should link spans to the trace that enqueued the job', async () => {
+      const { api, spans } = createFakeApi();
+      setTracingApi(api);
+
+      await withSpan('jobguard.adapter.reEnqueueJob', {}, async () => undefined, [
+        { traceparent: TRACEPARENT },
+        undefined,
+      ]);
+
+      expect(spans[0]?.options.links).toEqual([
+        {
+          context: {
+            traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            spanId: 'span',
+            traceFlags: 1,
+          },
+        },
+      ]);
+    });
+
+    it('should capture the active trace context', () => {
+      setTracingApi(createFakeApi(TRACEPARENT).api);
+
+      expect(captureTraceContext()).toEqual({ traceparent: TRACEPARENT });
+    });
+
+    it('should not capture a trace context outside a span', () => {
+      setTracingApi(createFakeApi().api);
+
+      expect(captureTraceContext()).toBeUndefined();
+    });
+  });
+});
@@ -9,6 +9,7 @@ export default defineConfig({
   sourcemap: false,
   minify: false,
   treeshake: true,
+  shims: true, // __dirname in the ESM build (used to locate schema/ migrations)
   target: 'node22',
   outDir: 'dist',
 });